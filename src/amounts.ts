@@ -0,0 +1,37 @@
+/**
+ * Decimal Amounts
+ *
+ * Requests give amounts as decimal strings ("1.5" USDC, "0.05" APT). They are
+ * converted to smallest units exactly, without going through a float.
+ */
+
+import { ethers } from "ethers";
+import { FluidError } from "./errors";
+
+/**
+ * Decimals of USDC (on every supported chain)
+ */
+export const USDC_DECIMALS = 6;
+
+/**
+ * Decimals of APT (octas)
+ */
+export const APT_DECIMALS = 8;
+
+/**
+ * Convert a decimal string to smallest units
+ * @param value - Decimal amount (e.g. "0.05")
+ * @param decimals - Decimals of the token
+ * @param field - Request field, for the error message
+ * @throws FluidError (INVALID_REQUEST) if the value isn't a non-negative decimal with at most `decimals` decimals
+ */
+export function parseDecimalAmount(value: string, decimals: number, field: string): bigint {
+  if (!/^[0-9]+(\.[0-9]+)?$/.test(value.trim())) {
+    throw new FluidError('INVALID_REQUEST', `Invalid ${field} "${value}": expected a decimal number`);
+  }
+  try {
+    return ethers.parseUnits(value.trim(), decimals);
+  } catch {
+    throw new FluidError('INVALID_REQUEST', `Invalid ${field} "${value}": at most ${decimals} decimals are allowed`);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Aptos Recipient Accounts
+ *
+ * Checks on the Aptos node that a recipient can receive USDC before anything
+ * is burned, and lets the sponsor create accounts for first-time users.
+ */
+
+import { AptosSignerResult } from "./types";
+
+/**
+ * Default cap on the APT a request may have the sponsor send to an account it creates
+ */
+export const DEFAULT_MAX_RECIPIENT_APT_FUNDING = "0.1";
+
+/**
+ * On-chain state of an Aptos recipient
+ */
+export interface AptosRecipientStatus {
+  address: string;
+  exists: boolean; // Account resource exists on chain
+  frozen: boolean; // USDC primary store is frozen by the issuer (can't receive USDC)
+}
+
+/**
+ * Check the format of an Aptos address (32 bytes of hex, 0x prefix optional)
+ */
+export function isAptosAddress(address: string): boolean {
+  return /^(0x)?[0-9a-fA-F]{64}$/.test(address);
+}
+
+/**
+ * Read whether an Aptos address has an account and can receive USDC
+ * @param client - Aptos client
+ * @param address - Recipient address
+ * @param usdcAddress - USDC fungible asset metadata address
+ */
+export async function getAptosRecipientStatus(
+  client: any,
+  address: string,
+  usdcAddress: string
+): Promise<AptosRecipientStatus> {
+  let exists = true;
+  try {
+    await client.getAccountInfo({ accountAddress: address });
+  } catch (error: any) {
+    if (error?.status !== 404) {
+      throw error;
+    }
+    exists = false;
+  }
+
+  // False when the address has no USDC store yet (it's created on deposit)
+  const [frozen] = await client.view({
+    payload: {
+      function: "0x1::primary_fungible_store::is_frozen",
+      typeArguments: ["0x1::fungible_asset::Metadata"],
+      functionArguments: [address, usdcAddress],
+    },
+  });
+
+  return { address, exists, frozen: !!frozen };
+}
+
+/**
+ * Create an Aptos account from the sponsor wallet
+ *
+ * Sends `aptos_account::transfer`, which creates the account and credits it
+ * with `fundingOctas` APT (may be 0) for its own gas.
+ * @param sponsor - Aptos sponsor signer (pays the gas and the funding)
+ * @param address - Address of the account to create
+ * @param fundingOctas - APT to send to the new account, in octas
+ * @returns Hash of the committed transaction
+ */
+export async function createAptosAccount(
+  sponsor: AptosSignerResult,
+  address: string,
+  fundingOctas: bigint = 0n
+): Promise<string> {
+  const { client, account } = sponsor;
+  const transaction = await client.transaction.build.simple({
+    sender: sponsor.address,
+    data: {
+      function: "0x1::aptos_account::transfer",
+      functionArguments: [address, fundingOctas],
+    },
+  });
+  const pending = await client.signAndSubmitTransaction({ signer: account, transaction });
+  await client.waitForTransaction({ transactionHash: pending.hash });
+  return pending.hash;
+}
@@ -0,0 +1,347 @@
+/**
+ * User Authorization
+ * 
+ * Verifies that a user wallet has authorized the sponsor to move its USDC
+ * before any transfer is started on its behalf.
+ */
+
+import { ethers } from "ethers";
+import {
+  verifyPermit2Signature,
+  verifyPermit2BatchSignature,
+  toWitnessRecipient,
+  type Permit2Permit,
+  type Permit2AllowanceBatch,
+} from "./permit2";
+import { isPermit2NonceUsed, getPermit2Allowance } from "./permit2Contract";
+import {
+  verifyEip2612Signature,
+  hashEip2612Permit,
+  serializeEip2612Permit,
+  parseEip2612Permit,
+  type Eip2612Permit,
+  type SerializedEip2612Permit,
+} from "./eip2612";
+import { readEip2612Domain, EIP2612_ABI } from "./eip2612Contract";
+import type { SignatureReplayStore } from "./signatureReplay";
+import { Logger, silentLogger } from "./logger";
+import { AuthorizationError } from "./errors";
+
+/**
+ * How a user wallet authorizes the sponsor to move its USDC
+ * - permit2: `signature` signs the request's `permitData` or `permitBatch` (default)
+ * - eip2612: `signature` signs an EIP-2612 permit of the USDC token itself
+ */
+export type TransferAuthorization =
+  | { kind: 'permit2' }
+  | { kind: 'eip2612'; permit: Eip2612Permit };
+
+/**
+ * Kind of a TransferAuthorization
+ */
+export type AuthorizationKind = TransferAuthorization['kind'];
+
+/**
+ * TransferAuthorization in JSON form
+ */
+export type SerializedTransferAuthorization =
+  | { kind: 'permit2' }
+  | { kind: 'eip2612'; permit: SerializedEip2612Permit };
+
+/**
+ * Convert an authorization to its JSON form
+ */
+export function serializeTransferAuthorization(authorization: TransferAuthorization): SerializedTransferAuthorization {
+  return authorization.kind === 'eip2612'
+    ? { kind: 'eip2612', permit: serializeEip2612Permit(authorization.permit) }
+    : authorization;
+}
+
+/**
+ * Convert an authorization from its JSON form
+ */
+export function parseTransferAuthorization(authorization: SerializedTransferAuthorization): TransferAuthorization {
+  return authorization.kind === 'eip2612'
+    ? { kind: 'eip2612', permit: parseEip2612Permit(authorization.permit) }
+    : authorization;
+}
+
+/**
+ * Destination a permit witness must match
+ */
+export interface AuthorizedDestination {
+  recipient: string; // Recipient address on the destination chain
+  destinationDomain: number; // Circle CCTP domain of the destination chain
+}
+
+/**
+ * Verifies user authorization for the transfer
+ * @param fromAddress - User's wallet address
+ * @param amount - Transfer amount in smallest units
+ * @param signature - Owner's Permit2 signature of the permit
+ * @param permitData - Signed Permit2 permit
+ * @param chainId - Chain ID for Permit2 domain verification
+ * @param logger - Optional logger for diagnostics (silent by default)
+ * @param provider - Optional provider for the permit's chain, to check the nonce against the Permit2 contract
+ * @param destination - Optional destination of the transfer, checked against the permit's witness
+ * @throws AuthorizationError with a specific code if authorization is invalid
+ */
+export async function verifyUserAuthorization(
+  fromAddress: string,
+  amount: bigint,
+  signature: string,
+  permitData: Permit2Permit,
+  chainId: number,
+  logger: Logger = silentLogger,
+  provider?: ethers.Provider,
+  destination?: AuthorizedDestination
+): Promise<void> {
+  if (permitData.owner.toLowerCase() !== fromAddress.toLowerCase()) {
+    throw new AuthorizationError(
+      'AUTH_OWNER_MISMATCH',
+      `Permit owner (${permitData.owner}) does not match fromAddress (${fromAddress})`
+    );
+  }
+
+  if (permitData.value !== amount) {
+    throw new AuthorizationError(
+      'AUTH_AMOUNT_MISMATCH',
+      `Permit amount (${permitData.value}) does not match transfer amount (${amount})`
+    );
+  }
+
+  // A witness binds the signature to one recipient: reject any other destination
+  if (permitData.witness && destination) {
+    assertWitnessDestination(permitData, destination);
+  }
+
+  // Check if deadline has expired
+  const currentTime = BigInt(Math.floor(Date.now() / 1000));
+  if (permitData.deadline < currentTime) {
+    throw new AuthorizationError(
+      'PERMIT_EXPIRED',
+      `Permit deadline (${permitData.deadline}) has expired (current time: ${currentTime})`
+    );
+  }
+
+  // Verify the Permit2 EIP-712 signature (with a provider, smart account signatures are checked too)
+  const isValid = await verifyPermit2Signature(permitData, signature, chainId, fromAddress, logger, provider);
+
+  if (!isValid) {
+    throw new AuthorizationError('AUTH_INVALID_SIGNATURE', `Permit2 signature verification failed`);
+  }
+
+  // A used nonce makes permitTransferFrom revert, so reject the permit before anything is sent
+  if (provider && await isPermit2NonceUsed(provider, permitData.owner, permitData.nonce)) {
+    throw new AuthorizationError(
+      'PERMIT_NONCE_USED',
+      `Permit2 nonce ${permitData.nonce} of ${permitData.owner} has already been used or invalidated`
+    );
+  }
+
+  logger.info(`Permit2 signature verified successfully`);
+}
+
+/**
+ * Verifies that a Permit2 PermitBatch lets the spender draw `amount` of `token` from the user wallet
+ *
+ * One PermitBatch signature serves several transfers: it is submitted once,
+ * then every transfer draws from the allowance it set. With a provider, a
+ * batch that was already submitted is checked against the remaining on-chain
+ * allowance instead of its signature deadline.
+ * @param fromAddress - User's wallet address
+ * @param token - Token the transfer draws (USDC on the source chain)
+ * @param amount - Transfer amount in smallest units
+ * @param signature - Owner's Permit2 signature of the batch
+ * @param permitBatch - Signed PermitBatch
+ * @param chainId - Chain ID for Permit2 domain verification
+ * @param logger - Optional logger for diagnostics (silent by default)
+ * @param provider - Optional provider for the permit's chain, to read the on-chain allowance
+ * @returns Whether the batch still has to be submitted before drawing from it
+ * @throws AuthorizationError with a specific code if authorization is invalid
+ */
+export async function verifyPermitBatchAuthorization(
+  fromAddress: string,
+  token: string,
+  amount: bigint,
+  signature: string,
+  permitBatch: Permit2AllowanceBatch,
+  chainId: number,
+  logger: Logger = silentLogger,
+  provider?: ethers.Provider
+): Promise<{ submitted: boolean }> {
+  if (permitBatch.owner.toLowerCase() !== fromAddress.toLowerCase()) {
+    throw new AuthorizationError(
+      'AUTH_OWNER_MISMATCH',
+      `Permit batch owner (${permitBatch.owner}) does not match fromAddress (${fromAddress})`
+    );
+  }
+
+  const detail = permitBatch.details.find((entry) => entry.token.toLowerCase() === token.toLowerCase());
+  if (!detail) {
+    throw new AuthorizationError('AUTH_TOKEN_MISMATCH', `Permit batch has no allowance for ${token}`);
+  }
+
+  const isValid = await verifyPermit2BatchSignature(permitBatch, signature, chainId, fromAddress, logger, provider);
+  if (!isValid) {
+    throw new AuthorizationError('AUTH_INVALID_SIGNATURE', `Permit2 batch signature verification failed`);
+  }
+
+  const currentTime = Math.floor(Date.now() / 1000);
+  const onChain = provider ? await getPermit2Allowance(provider, fromAddress, token, permitBatch.spender) : undefined;
+  const submitted = !!onChain && onChain.nonce > detail.nonce;
+
+  if (onChain && onChain.nonce < detail.nonce) {
+    throw new AuthorizationError(
+      'AUTH_INVALID_SIGNATURE',
+      `Permit batch was signed with nonce ${detail.nonce}, but Permit2 expects nonce ${onChain.nonce} for ${token}`
+    );
+  }
+
+  // Once submitted, the on-chain allowance is what is left of the batch
+  const remaining = submitted ? onChain!.amount : detail.amount;
+  const expiration = submitted ? onChain!.expiration : detail.expiration;
+  if (!submitted && permitBatch.sigDeadline < BigInt(currentTime)) {
+    throw new AuthorizationError(
+      'PERMIT_EXPIRED',
+      `Permit batch signature deadline (${permitBatch.sigDeadline}) has expired (current time: ${currentTime})`
+    );
+  }
+  // Permit2 treats an expiration of 0 as "the block of the permit"
+  if (expiration !== 0 && expiration < currentTime) {
+    throw new AuthorizationError(
+      'PERMIT_EXPIRED',
+      `Permit batch allowance for ${token} expired at ${expiration} (current time: ${currentTime})`
+    );
+  }
+  if (remaining < amount) {
+    throw new AuthorizationError(
+      'AUTH_AMOUNT_MISMATCH',
+      `Permit batch allowance for ${token} has ${remaining} left, ${amount} needed`
+    );
+  }
+
+  logger.info(`Permit2 batch signature verified${submitted ? ` (already submitted, ${remaining} left)` : ""}`);
+  return { submitted };
+}
+
+/**
+ * Verifies that an EIP-2612 permit lets the spender pull `amount` from the user wallet
+ *
+ * The signature is checked against the token's own EIP-712 domain, read from
+ * chain. A permit whose nonce is already spent is only accepted when the
+ * transfer resumes its own pull (the replay store records the permit as
+ * consumed by `transferId`) and the allowance it set still covers the amount.
+ * @param fromAddress - User's wallet address
+ * @param amount - Transfer amount in smallest units
+ * @param signature - Owner's EIP-2612 signature
+ * @param permit - Signed permit
+ * @param provider - Provider for the token's chain
+ * @param logger - Optional logger for diagnostics (silent by default)
+ * @param signatureStore - Optional store of consumed signatures, to recognize a resumed pull
+ * @param transferId - Optional transfer presenting the permit
+ * @returns EIP-712 digest of the permit
+ * @throws AuthorizationError with a specific code if authorization is invalid
+ */
+export async function verifyEip2612Authorization(
+  fromAddress: string,
+  amount: bigint,
+  signature: string,
+  permit: Eip2612Permit,
+  provider: ethers.Provider,
+  logger: Logger = silentLogger,
+  signatureStore?: SignatureReplayStore,
+  transferId?: string
+): Promise<string> {
+  if (permit.owner.toLowerCase() !== fromAddress.toLowerCase()) {
+    throw new AuthorizationError(
+      'AUTH_OWNER_MISMATCH',
+      `Permit owner (${permit.owner}) does not match fromAddress (${fromAddress})`
+    );
+  }
+  if (permit.value !== amount) {
+    throw new AuthorizationError(
+      'AUTH_AMOUNT_MISMATCH',
+      `Permit amount (${permit.value}) does not match transfer amount (${amount})`
+    );
+  }
+  const currentTime = BigInt(Math.floor(Date.now() / 1000));
+  if (permit.deadline < currentTime) {
+    throw new AuthorizationError(
+      'PERMIT_EXPIRED',
+      `Permit deadline (${permit.deadline}) has expired (current time: ${currentTime})`
+    );
+  }
+
+  const domain = await readEip2612Domain(provider, permit.token);
+  if (!verifyEip2612Signature(permit, signature, domain, logger)) {
+    throw new AuthorizationError('AUTH_INVALID_SIGNATURE', `EIP-2612 signature verification failed`);
+  }
+
+  const token = new ethers.Contract(permit.token, EIP2612_ABI, provider);
+  const nonce: bigint = await token.nonces(permit.owner);
+  if (nonce < permit.nonce) {
+    throw new AuthorizationError(
+      'AUTH_INVALID_SIGNATURE',
+      `EIP-2612 permit was signed with nonce ${permit.nonce}, but the token expects nonce ${nonce}`
+    );
+  }
+  const digest = hashEip2612Permit(permit, domain);
+  if (nonce > permit.nonce) {
+    // Whatever allowance is left may come from another permit: only the transfer that submitted this one may use it
+    const consumed = signatureStore && transferId !== undefined ? await signatureStore.get(digest) : undefined;
+    const allowance: bigint = consumed?.transferId === transferId ? await token.allowance(permit.owner, permit.spender) : 0n;
+    if (allowance < amount) {
+      throw new AuthorizationError(
+        'PERMIT_NONCE_USED',
+        `EIP-2612 nonce ${permit.nonce} of ${permit.owner} has already been used`
+      );
+    }
+  }
+
+  logger.info(`EIP-2612 signature verified successfully`);
+  return digest;
+}
+
+/**
+ * Check that a permit's witness names the transfer's recipient and destination chain
+ * @throws AuthorizationError (AUTH_WITNESS_MISMATCH)
+ */
+export function assertWitnessDestination(permit: Permit2Permit, destination: AuthorizedDestination): void {
+  const witness = permit.witness!;
+  if (witness.recipient.toLowerCase() !== witnessRecipientOf(destination.recipient)) {
+    throw new AuthorizationError(
+      'AUTH_WITNESS_MISMATCH',
+      `Permit witness recipient (${witness.recipient}) does not match the transfer recipient (${destination.recipient})`
+    );
+  }
+  if (witness.destinationDomain !== destination.destinationDomain) {
+    throw new AuthorizationError(
+      'AUTH_WITNESS_MISMATCH',
+      `Permit witness destination domain (${witness.destinationDomain}) does not match the transfer destination (${destination.destinationDomain})`
+    );
+  }
+}
+
+/**
+ * Check that the fee deducted from a transfer is within its permit's witness
+ * @param permit - Verified permit (permits without a witness pass)
+ * @param fee - USDC smallest units deducted on the way (e.g., the relayer fee)
+ * @throws AuthorizationError (AUTH_WITNESS_MISMATCH)
+ */
+export function assertWitnessFee(permit: Permit2Permit, fee: bigint): void {
+  if (permit.witness && fee > permit.witness.maxFee) {
+    throw new AuthorizationError(
+      'AUTH_WITNESS_MISMATCH',
+      `Transfer fee (${fee} USDC units) exceeds the permit's maxFee (${permit.witness.maxFee})`
+    );
+  }
+}
+
+function witnessRecipientOf(address: string): string | undefined {
+  try {
+    return toWitnessRecipient(address);
+  } catch {
+    return undefined; // Malformed recipients never match
+  }
+}
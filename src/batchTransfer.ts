@@ -0,0 +1,214 @@
+/**
+ * Batch Transfers
+ *
+ * Sends many transfers (e.g. payouts to Aptos recipients) in one call. The
+ * batch shares one transfer context, so Wormhole and the sponsor signers are
+ * initialized once, and the sponsor's NonceManager lets burns of later items
+ * go out while earlier ones wait for their attestation.
+ *
+ * A batch can also draw from a user wallet with one Permit2 PermitBatch
+ * signature: the first transfer submits it and every transfer pulls its own
+ * amount from the allowance it set.
+ */
+
+import { randomUUID } from "crypto";
+import { transferUsdcViaCctp, CctpTransferRequest } from "./cctpTransfer";
+import { createTransferContext, TransferContext } from "./context";
+import { toFluidError } from "./errors";
+import { Logger, silentLogger } from "./logger";
+import { TransferResult } from "./types";
+
+/**
+ * Default number of transfers in flight at once
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * One transfer of a batch
+ */
+export interface BatchTransferItem {
+  amount: string; // Amount in USDC (e.g., "1.0")
+  destAddress?: string; // Recipient on the destination chain (defaults to the sponsor wallet)
+  transferId?: string; // Optional: ID for the transfer record (generated if not provided)
+  createRecipientAccount?: boolean; // Optional: Overrides the batch option for this item
+  recipientAptFunding?: string; // Optional: Overrides the batch option for this item
+}
+
+/**
+ * Options shared by every transfer of a batch
+ */
+export interface BatchTransferOptions
+  extends Pick<
+    CctpTransferRequest,
+    | 'direction'
+    | 'automatic'
+    | 'nativeGas'
+    | 'fromAddress'
+    | 'signature'
+    | 'permitBatch'
+    | 'requester'
+    | 'createRecipientAccount'
+    | 'recipientAptFunding'
+    | 'config'
+    | 'store'
+    | 'onProgress'
+    | 'webhooks'
+    | 'logger'
+    | 'dryRun'
+  > {
+  concurrency?: number; // Optional: Transfers in flight at once (default: 4)
+  context?: TransferContext; // Optional: Reuse an already-initialized transfer context
+}
+
+/**
+ * Result of one transfer of a batch
+ */
+export interface BatchTransferItemResult extends TransferResult {
+  index: number; // Position of the item in the batch
+  amount: string;
+  destAddress?: string;
+}
+
+/**
+ * Totals over a batch
+ */
+export interface BatchTransferSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  amount: string; // USDC smallest units requested by all items
+  deliveredAmount: string; // USDC smallest units of the items that succeeded (before relayer fees)
+  relayerFees: string; // USDC smallest units (automatic transfers only)
+  durationMs: number;
+}
+
+export interface BatchTransferResult {
+  results: BatchTransferItemResult[]; // In the same order as the items
+  summary: BatchTransferSummary;
+}
+
+/**
+ * Transfer USDC to many recipients with one shared context
+ *
+ * Items run `concurrency` at a time. A failing item never stops the others;
+ * its error is reported in its result, like transferUsdcViaCctp.
+ * @param items - Transfers to send
+ * @param options - Options shared by every item, and the concurrency
+ * @returns Per-item results and a summary
+ */
+export async function transferBatch(
+  items: BatchTransferItem[],
+  options: BatchTransferOptions = {}
+): Promise<BatchTransferResult> {
+  const startedAt = Date.now();
+  const logger = options.logger ?? options.context?.logger ?? silentLogger;
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY));
+  const results: BatchTransferItemResult[] = new Array(items.length);
+
+  let context: TransferContext | undefined;
+  try {
+    context = options.context ?? await createTransferContext(options.config, logger, options.direction);
+  } catch (error) {
+    // Without a context nothing can be sent: every item fails with the same error
+    const fluidError = toFluidError(error);
+    logger.error(`Batch setup failed [${fluidError.code}]:`, fluidError.message);
+    items.forEach((item, index) => {
+      results[index] = {
+        index,
+        amount: item.amount,
+        destAddress: item.destAddress,
+        success: false,
+        transferId: item.transferId ?? randomUUID(),
+        error: fluidError.message,
+        errorCode: fluidError.code,
+        retryable: fluidError.retryable,
+      };
+    });
+    return { results, summary: summarize(items, results, startedAt) };
+  }
+
+  logger.info(`Sending ${items.length} transfer(s), ${concurrency} at a time...`);
+
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await transferItem(items[index], index, options, context!, logger);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  const summary = summarize(items, results, startedAt);
+  logger.info(`Batch finished: ${summary.succeeded} succeeded, ${summary.failed} failed`);
+  return { results, summary };
+}
+
+/**
+ * Run one item of a batch; never throws
+ */
+async function transferItem(
+  item: BatchTransferItem,
+  index: number,
+  options: BatchTransferOptions,
+  context: TransferContext,
+  logger: Logger
+): Promise<BatchTransferItemResult> {
+  const request: CctpTransferRequest = {
+    amount: item.amount,
+    destAddress: item.destAddress,
+    transferId: item.transferId,
+    direction: options.direction ?? context.direction,
+    automatic: options.automatic,
+    nativeGas: options.nativeGas,
+    fromAddress: options.fromAddress,
+    signature: options.signature,
+    permitBatch: options.permitBatch,
+    requester: options.requester,
+    createRecipientAccount: item.createRecipientAccount ?? options.createRecipientAccount,
+    recipientAptFunding: item.recipientAptFunding ?? options.recipientAptFunding,
+    store: options.store,
+    onProgress: options.onProgress,
+    webhooks: options.webhooks,
+    logger,
+    dryRun: options.dryRun,
+  };
+
+  let result: TransferResult;
+  try {
+    result = await transferUsdcViaCctp(request, context);
+  } catch (error) {
+    // transferUsdcViaCctp reports failures on its result; this only catches the unexpected
+    const fluidError = toFluidError(error);
+    result = {
+      success: false,
+      transferId: item.transferId,
+      error: fluidError.message,
+      errorCode: fluidError.code,
+      retryable: fluidError.retryable,
+    };
+  }
+
+  if (!result.success) {
+    logger.warn(`Batch item ${index} (${item.amount} USDC to ${item.destAddress ?? "sponsor"}) failed [${result.errorCode}]: ${result.error}`);
+  }
+  return { index, amount: item.amount, destAddress: item.destAddress, ...result };
+}
+
+function summarize(
+  items: BatchTransferItem[],
+  results: BatchTransferItemResult[],
+  startedAt: number
+): BatchTransferSummary {
+  const toUnits = (amount: string) => BigInt(Math.floor(parseFloat(amount) * 1_000_000) || 0);
+  const succeeded = results.filter((result) => result.success);
+
+  return {
+    total: items.length,
+    succeeded: succeeded.length,
+    failed: items.length - succeeded.length,
+    amount: items.reduce((total, item) => total + toUnits(item.amount), 0n).toString(),
+    deliveredAmount: succeeded.reduce((total, result) => total + toUnits(result.amount), 0n).toString(),
+    relayerFees: succeeded.reduce((total, result) => total + BigInt(result.relayerFee ?? 0), 0n).toString(),
+    durationMs: Date.now() - startedAt,
+  };
+}
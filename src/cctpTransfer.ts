@@ -1,355 +1,194 @@
 /**
  * CCTP (Circle Cross-Chain Transfer Protocol) Transfer Implementation
  * 
- * This file implements USDC transfers from Base Sepolia to Aptos using
- * Circle CCTP via Wormhole SDK. This is the method that Portal Bridge uses
- * and is the only method that works for Base Sepolia → Aptos transfers.
+ * This file implements USDC transfers between Base Sepolia and Aptos (in
+ * either direction) using Circle CCTP via Wormhole SDK. This is the method that
+ * Portal Bridge uses and is the only method that works for Base Sepolia ↔ Aptos transfers.
  */
 
-import { wormhole, CircleTransfer, Network, Wormhole } from "@wormhole-foundation/sdk";
-import evm from "@wormhole-foundation/sdk/evm";
-import aptos from "@wormhole-foundation/sdk/aptos";
-import { ethers } from "ethers";
-import { config } from "./config";
-import { getEvmSigner, getAptosSigner, toEvmSdkSigner, toAptosSdkSigner } from "./helper";
-import { TransferResult } from "./types";
-import { verifyPermit2Signature, createPermit, getPermit2Address, type Permit2Permit } from "./permit2";
-import { Config, createConfig } from "./config";
-
-// Base Sepolia USDC address (testnet)
-// TODO: Get this from SDK or make it configurable
-const BASE_SEPOLIA_USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
-
+import { randomUUID } from "crypto";
+import { TransferResult, CctpTransferReceipt, TransferDirection } from "./types";
+import { type Permit2Permit, type Permit2AllowanceBatch } from "./permit2";
+import type { TransferAuthorization } from "./authorization";
+import type { SignatureReplayStore } from "./signatureReplay";
+import { Config } from "./config";
+import { createTransferContext, TransferContext } from "./context";
+import { TransferStore } from "./transferStore";
+import { Logger, silentLogger } from "./logger";
+import { ProgressListener } from "./events";
+import { WebhookEndpoint } from "./webhooks";
+import { toFluidError } from "./errors";
+import { runPreflight } from "./preflight";
+import {
+  IdempotencyStore,
+  IdempotencyRecord,
+  getDefaultIdempotencyStore,
+  claimIdempotencyKey,
+  updateIdempotencyKey,
+  settleIdempotencyKey,
+  idempotentResult,
+} from "./idempotency";
+import {
+  initiateCctpTransfer,
+  awaitCctpAttestation,
+  completeCctpTransfer,
+  DEFAULT_ATTESTATION_TIMEOUT_MS,
+} from "./transferStages";
 
 export interface CctpTransferRequest {
   amount: string; // Amount in USDC (e.g., "1.0")
-  destAddress?: string; // Aptos recipient address (hex format)
-  fromAddress?: string; // Optional: User's Base wallet address (if not provided, uses sponsor wallet)
+  automatic?: boolean; // Optional: Relay through the Wormhole CCTP relayer (fee is deducted from the amount)
+  nativeGas?: string; // Optional: USDC (e.g., "0.5") to swap for native gas on the destination (automatic only)
+  direction?: TransferDirection; // Optional: "base-to-aptos" (default) or "aptos-to-base"
+  destAddress?: string; // Recipient address on the destination chain (Aptos hex or Base 0x address)
+  createRecipientAccount?: boolean; // Optional: Let the sponsor create the Aptos recipient account if it doesn't exist
+  recipientAptFunding?: string; // Optional: APT (e.g., "0.05") the sponsor sends to a newly created recipient account
+  fromAddress?: string; // Optional: User's Base wallet address (if not provided, uses sponsor wallet; base-to-aptos only)
   signature?: string; // Optional: User authorization signature
   // If signature is "dummy", uses placeholder validation
   // If signature is a valid Permit2 signature, uses real Permit2 verification
   // Permit data should be encoded in signature or provided separately
   permitData?: Permit2Permit; // Optional: Permit2 permit data for verification
+  permitBatch?: Permit2AllowanceBatch; // Optional: Permit2 PermitBatch signed by `signature` instead, shared by several transfers
+  requester?: string; // Optional: Who asks for the transfer (e.g. the API client); a PermitBatch only serves the requester that first drew from it
+  authorization?: TransferAuthorization; // Optional: { kind: "permit2" } (default) or { kind: "eip2612", permit } signed by `signature`
   config?: Partial<Config>; // Optional: Override default config (uses env vars if not provided)
+  store?: TransferStore; // Optional: Record the request and every stage transition in this store
+  transferId?: string; // Optional: ID for the transfer record (generated if not provided)
+  onProgress?: ProgressListener; // Optional: Receive typed progress events (authorized, source-sent, ...)
+  webhooks?: WebhookEndpoint[]; // Optional: Post signed lifecycle events to these endpoints (on top of the global ones)
+  logger?: Logger; // Optional: Logger for diagnostics (silent by default)
+  dryRun?: boolean; // Optional: Only run the preflight checks and return their report; nothing is sent
+  idempotencyKey?: string; // Optional: Run at most one transfer per key; repeats get the first transfer's result
+  idempotencyStore?: IdempotencyStore; // Optional: Where keys are kept (default: in memory, shared by the process)
+  idempotencyTtlMs?: number; // Optional: How long a key is remembered (default: 24 hours)
+  signatureStore?: SignatureReplayStore; // Optional: Where consumed signatures are recorded (default: in memory, shared by the process)
 }
 
 /**
- * Verifies user authorization for the transfer
- * @param fromAddress - User's wallet address
- * @param amount - Transfer amount in smallest units
- * @param signature - Authorization signature (placeholder "dummy" for testing, or real Permit2 signature)
- * @param permitData - Optional Permit2 permit data for real signature verification
- * @param chainId - Chain ID for Permit2 domain verification
- * @returns true if authorization is valid
+ * Transfers USDC between Base Sepolia and Aptos using Circle CCTP
+ * @param request - Transfer request with amount, direction and optional destination address
+ * @param context - Optional already-initialized transfer context (e.g. shared by a batch)
+ * @returns Transfer result with transaction hashes and attestation IDs
  */
-async function verifyUserAuthorization(
-  fromAddress: string,
-  amount: bigint,
-  signature: string,
-  permitData?: Permit2Permit,
-  chainId?: number
-): Promise<boolean> {
-  // Placeholder validation for testing
-  if (signature === "dummy") {
-    console.log(`⚠️  Using placeholder signature. In production, this must be replaced with Permit2 EIP-712 validation.`);
-    return true;
-  }
-  
-  if (!chainId) {
-    console.error(`❌ Chain ID is required for Permit2 signature verification.`);
-    return false;
-  }
-  
-  // If permit data is not provided, reconstruct it from available parameters
-  // This allows CLI usage without needing to pass full permit data
-  let actualPermitData: Permit2Permit;
-  
-  if (permitData) {
-    // Use provided permit data
-    actualPermitData = permitData;
-    
-    // Verify that permit data matches expected values
-    if (actualPermitData.owner.toLowerCase() !== fromAddress.toLowerCase()) {
-      console.error(`❌ Permit owner (${actualPermitData.owner}) does not match fromAddress (${fromAddress})`);
-      return false;
-    }
-    
-    if (actualPermitData.value !== amount) {
-      console.error(`❌ Permit amount (${actualPermitData.value}) does not match transfer amount (${amount})`);
-      return false;
-    }
-    
-    // Check if deadline has expired
-    const currentTime = BigInt(Math.floor(Date.now() / 1000));
-    if (actualPermitData.deadline < currentTime) {
-      console.error(`❌ Permit deadline (${actualPermitData.deadline}) has expired (current time: ${currentTime})`);
-      return false;
-    }
-  } else {
-    // Reconstruct permit data from available parameters
-    // Note: This uses defaults that may not match the actual permit
-    // For production, permit data should be passed explicitly
-    console.log(`⚠️  Reconstructing permit data from parameters (using defaults for nonce/deadline)`);
-    
-    // Reconstruct permit data - note that nonce and deadline may not match the actual signature
-    // This is only for verification attempts - full permit data should be passed for accuracy
-    actualPermitData = createPermit(
-      fromAddress,
-      getPermit2Address(), // Spender: Permit2 contract
-      BASE_SEPOLIA_USDC, // Token: USDC on Base Sepolia
-      amount,
-      0n, // Nonce: default to 0 (may not match actual permit)
-      3600 // Deadline offset: default 1 hour from now (in seconds)
-    );
-    
-    console.log(`⚠️  Using reconstructed permit data. In production, pass permit data explicitly.`);
+export async function transferUsdcViaCctp(
+  request: CctpTransferRequest,
+  context?: TransferContext
+): Promise<TransferResult> {
+  const transferId = request.transferId ?? randomUUID();
+  const logger = request.logger ?? silentLogger;
+
+  // Dry run: report every check without sending anything
+  if (request.dryRun) {
+    const preflight = await runPreflight(request, context);
+    const failed = preflight.checks.find((check) => check.status === 'failed');
+    return {
+      success: preflight.passed,
+      transferId,
+      error: failed?.message,
+      errorCode: failed?.code,
+      preflight,
+    };
   }
-  
-  // Verify the Permit2 EIP-712 signature
-  const isValid = verifyPermit2Signature(actualPermitData, signature, chainId, fromAddress);
-  
-  if (isValid) {
-    console.log(`✅ Permit2 signature verified successfully`);
-  } else {
-    console.error(`❌ Permit2 signature verification failed`);
-    if (!permitData) {
-      console.error(`   Note: Permit data was reconstructed. The nonce/deadline may not match the signature.`);
-      console.error(`   Please pass full permit data for accurate verification.`);
-    }
+
+  if (request.idempotencyKey) {
+    return transferIdempotently(request, transferId, logger, context);
   }
-  
-  return isValid;
+
+  return runTransfer(request, transferId, logger, context);
 }
 
 /**
- * Transfers USDC from Base Sepolia to Aptos using Circle CCTP
- * @param request - Transfer request with amount and optional destination address
- * @returns Transfer result with transaction hashes and attestation IDs
+ * Run a transfer unless its idempotency key is already taken
  */
-export async function transferUsdcViaCctp(
-  request: CctpTransferRequest
+async function transferIdempotently(
+  request: CctpTransferRequest,
+  transferId: string,
+  logger: Logger,
+  context?: TransferContext
 ): Promise<TransferResult> {
+  const store = request.idempotencyStore ?? getDefaultIdempotencyStore();
+  let record: IdempotencyRecord;
   try {
-    // Use provided config or fall back to default (env-based) config
-    const transferConfig = request.config ? createConfig(request.config) : config;
-    
-    const network: Network = transferConfig.networkType === "Mainnet" ? "Mainnet" : "Testnet";
-    
-    console.log(`🔑 Initializing Wormhole SDK with ${network} network...`);
-    
-    // For testnet, use "BaseSepolia" chain name; for mainnet use "Base"
-    const srcChainName = network === "Testnet" ? "BaseSepolia" : "Base";
-    
-    // Initialize Wormhole SDK with EVM and Aptos platforms
-    const wh = await wormhole(network, [evm, aptos], {
-      chains: {
-        [srcChainName]: {
-          rpc: transferConfig.baseRpcUrl,
-        },
-        Aptos: {
-          rpc: transferConfig.aptosRpcUrl,
-        },
-      },
-    });
-
-    console.log(`✅ Wormhole SDK initialized`);
-
-    // Get signers
-    console.log(`🔑 Initializing signers...`);
-    const baseSigner = getEvmSigner(transferConfig.baseRpcUrl, transferConfig.baseSponsorPrivateKey);
-    const aptosSigner = await getAptosSigner(transferConfig.aptosRpcUrl, transferConfig.aptosSponsorPrivateKey);
-    
-    console.log(`✅ Base signer: ${baseSigner.address}`);
-    console.log(`✅ Aptos signer: ${aptosSigner.address}`);
-
-    // Get chain contexts (srcChainName already defined above)
-    const srcChain = wh.getChain(srcChainName);
-    const dstChain = wh.getChain("Aptos");
-
-    // Parse amount - USDC has 6 decimals
-    const amountBigInt = BigInt(Math.floor(parseFloat(request.amount) * 1_000_000));
-
-    // Determine source address (user wallet or sponsor wallet)
-    const useUserWallet = !!request.fromAddress && !!request.signature;
-    let sourceAddress: string;
-    
-    if (useUserWallet && request.fromAddress) {
-      sourceAddress = request.fromAddress;
-      
-      // Get chain ID for Permit2 verification
-      const network = await baseSigner.provider.getNetwork();
-      const chainId = Number(network.chainId);
-      
-      // Validate user authorization
-      if (!request.signature) {
-        throw new Error("Signature is required when using user wallet");
-      }
-      
-      const isValid = await verifyUserAuthorization(
-        sourceAddress,
-        amountBigInt,
-        request.signature,
-        request.permitData,
-        chainId
-      );
-      
-      if (!isValid) {
-        throw new Error("User authorization verification failed");
-      }
-      
-      console.log(`👤 User Wallet (Source): ${sourceAddress}`);
-      if (request.signature === "dummy") {
-        console.log(`🧾 Authorization: Placeholder signature accepted`);
-      } else {
-        console.log(`🧾 Authorization: Permit2 signature verified`);
-      }
-      console.log(`🏦 Sponsor Wallet is paying all gas`);
-    } else {
-      sourceAddress = baseSigner.address;
-      console.log(`💼 Using sponsor wallet as source`);
+    const claim = await claimIdempotencyKey(store, request.idempotencyKey!, request, transferId, request.idempotencyTtlMs);
+    if (!claim.claimed) {
+      logger.info(`Idempotency key ${request.idempotencyKey} belongs to transfer ${claim.record.transferId} (${claim.record.status})`);
+      return idempotentResult(claim.record, request);
     }
-    console.log(`💰 Amount: ${request.amount} USDC (${amountBigInt.toString()} smallest units)`);
+    record = claim.record;
+  } catch (error) {
+    const fluidError = toFluidError(error);
+    logger.error(`Idempotency key ${request.idempotencyKey} could not be claimed:`, fluidError.message);
+    return { success: false, transferId, error: fluidError.message, errorCode: fluidError.code, retryable: true };
+  }
 
-    // Use destination address if provided, otherwise use sponsor wallet
-    const recipientAddress = request.destAddress || aptosSigner.address;
-    console.log(`📬 Recipient: ${recipientAddress}`);
+  // Keep the key's in-progress state current so repeats can report it
+  const onProgress: ProgressListener = (event) => {
+    if (event.type === "source-sent" || event.type === "attestation-received") {
+      const changes = event.type === "source-sent" ? { sourceTx: event.txHash } : { attestationId: event.attestationId };
+      updateIdempotencyKey(store, record, changes)
+        .catch((error) => logger.warn(`Idempotency key ${record.key} could not be updated:`, error?.message ?? error));
+    }
+    request.onProgress?.(event);
+  };
 
-    // Create Circle CCTP transfer
-    console.log(`🚀 Starting CCTP Transfer...`);
-    
-    // Create ChainAddress objects using Wormhole static method
-    // Note: sourceAddress is user wallet if provided, otherwise sponsor wallet
-    const senderAddress = Wormhole.chainAddress(srcChainName, sourceAddress);
-    const receiverAddress = Wormhole.chainAddress("Aptos", recipientAddress);
-    
-    const circleTransfer = await wh.circleTransfer(
-      amountBigInt,
-      senderAddress,
-      receiverAddress,
-      false, // manual mode (not automatic)
-      undefined, // no payload
-      0n // no native gas (BigInt literal as per user instruction)
-    );
+  const result = await runTransfer({ ...request, onProgress }, transferId, logger, context);
+  try {
+    await settleIdempotencyKey(store, record, result);
+  } catch (error: any) {
+    logger.error(`Result of idempotency key ${record.key} could not be stored:`, error?.message ?? error);
+  }
+  return result;
+}
 
-    // Get transfer quote (optional, for informational purposes)
-    try {
-      const quote = await CircleTransfer.quoteTransfer(
-        srcChain,
-        dstChain,
-        circleTransfer.transfer
-      );
-      console.log(`📊 Transfer quote:`, quote);
-    } catch (quoteError: any) {
-      console.log(`⚠️  Could not get transfer quote (non-critical):`, quoteError.message);
-      // Continue anyway - quote is optional
-    }
+async function runTransfer(
+  request: CctpTransferRequest,
+  transferId: string,
+  logger: Logger,
+  context?: TransferContext
+): Promise<TransferResult> {
+  let receipt: CctpTransferReceipt | undefined;
+  try {
+    const ctx = context ?? await createTransferContext(request.config, logger, request.direction);
+    const stageOptions = { context: ctx, store: request.store, onProgress: request.onProgress, webhooks: request.webhooks };
 
-    // Step 1: Initiate transfer on Base Sepolia
-    console.log(`📤 Initiating transfer on Base Sepolia...`);
-    
-    // Check for pending transactions and wait for them to clear
-    const pendingNonce = await baseSigner.provider.getTransactionCount(baseSigner.address, 'pending');
-    const latestNonce = await baseSigner.provider.getTransactionCount(baseSigner.address, 'latest');
-    console.log(`📊 Latest confirmed nonce: ${latestNonce}, Pending nonce: ${pendingNonce}`);
-    
-    if (pendingNonce > latestNonce) {
-      const pendingCount = pendingNonce - latestNonce;
-      console.log(`⚠️  There ${pendingCount === 1 ? 'is' : 'are'} ${pendingCount} pending transaction(s) at nonce ${latestNonce + 1} and above. Waiting for them to clear...`);
-      console.log(`💡 Tip: If transactions are stuck, you may need to cancel them in your wallet or wait for them to expire.`);
-      
-      const maxWaitTime = 180000; // 3 minutes
-      const startTime = Date.now();
-      let lastPendingNonce = pendingNonce;
-      let lastLatestNonce = latestNonce;
-      
-      while ((Date.now() - startTime) < maxWaitTime) {
-        await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
-        
-        const newPendingNonce = await baseSigner.provider.getTransactionCount(baseSigner.address, 'pending');
-        const newLatestNonce = await baseSigner.provider.getTransactionCount(baseSigner.address, 'latest');
-        
-        if (newPendingNonce === newLatestNonce) {
-          console.log(`✅ Pending transactions cleared! Ready to send.`);
-          break;
-        }
-        
-        // Show progress if nonces changed
-        if (newPendingNonce !== lastPendingNonce || newLatestNonce !== lastLatestNonce) {
-          console.log(`⏳ Progress... Latest confirmed: ${newLatestNonce}, Pending: ${newPendingNonce}`);
-          lastPendingNonce = newPendingNonce;
-          lastLatestNonce = newLatestNonce;
-        } else {
-          console.log(`⏳ Still waiting... (${Math.floor((Date.now() - startTime) / 1000)}s elapsed)`);
-        }
-      }
-      
-      // Final check before proceeding
-      const finalPendingNonce = await baseSigner.provider.getTransactionCount(baseSigner.address, 'pending');
-      const finalLatestNonce = await baseSigner.provider.getTransactionCount(baseSigner.address, 'latest');
-      
-      if (finalPendingNonce > finalLatestNonce) {
-        throw new Error(
-          `❌ Timeout: ${finalPendingNonce - finalLatestNonce} pending transaction(s) still not cleared after 3 minutes.\n` +
-          `   Latest confirmed nonce: ${finalLatestNonce}\n` +
-          `   Pending nonce: ${finalPendingNonce}\n` +
-          `   Please wait for pending transactions to confirm, or cancel them in your wallet before retrying.`
-        );
-      }
-    }
-    
-    // Wrap EVM signer into SDK Signer wrapper
-    const baseSdkSigner = await toEvmSdkSigner(baseSigner.signer);
-    const srcTxids = await circleTransfer.initiateTransfer(baseSdkSigner);
-    const sourceTx = Array.isArray(srcTxids) ? srcTxids[0] : srcTxids;
-    console.log(`✅ Sent Base transaction: ${sourceTx}`);
+    // Step 1: Initiate transfer on the source chain
+    receipt = await initiateCctpTransfer({ ...request, transferId }, ctx);
 
     // Step 2: Wait for Circle attestation
-    console.log(`🕒 Waiting for Circle attestation (this may take 1-3 minutes)...`);
-    
-    // Fetch attestation with 180 second timeout (per user instruction)
-    let attestationIds: string[] | undefined;
-    try {
-      attestationIds = await circleTransfer.fetchAttestation(180000); // 180 seconds timeout
-      if (attestationIds && attestationIds.length > 0) {
-        console.log(`📜 Attestation received: ${attestationIds[0]}`);
-      } else {
-        throw new Error('Attestation not received after timeout');
-      }
-    } catch (error: any) {
-      throw new Error(
-        `Attestation not received after 180 seconds. ` +
-        `This can happen if Circle's attestation service is slow. ` +
-        `Please check the transaction on Base Sepolia explorer and try again later. ` +
-        `Error: ${error.message}`
-      );
-    }
+    receipt = await awaitCctpAttestation(receipt, {
+      ...stageOptions,
+      attestationTimeoutMs: DEFAULT_ATTESTATION_TIMEOUT_MS,
+    });
 
-    // Step 3: Complete transfer on Aptos
-    console.log(`💸 Completing transfer on Aptos...`);
-    // Wrap Aptos account into SDK Signer wrapper
-    const aptosSdkSigner = toAptosSdkSigner(
-      aptosSigner.account,
-      aptosSigner.client,
-      "Aptos"
-    );
-    const dstTxids = await circleTransfer.completeTransfer(aptosSdkSigner);
-    const destinationTx = Array.isArray(dstTxids) ? dstTxids[0] : dstTxids;
-    console.log(`✅ Completed Aptos transaction: ${destinationTx}`);
+    // Step 3: Complete transfer on the destination chain
+    receipt = await completeCctpTransfer(receipt, stageOptions);
 
-    console.log(`🎉 Finalized! USDC delivered to Aptos.`);
+    logger.info(`Finalized! USDC delivered to ${ctx.dstChainName}.`);
 
     return {
       success: true,
-      sourceTx,
-      attestationId: attestationIds[0],
-      destinationTx,
+      transferId,
+      sourceTx: receipt.sourceTx,
+      attestationId: receipt.attestationId,
+      destinationTx: receipt.destinationTx,
+      relayerFee: receipt.relayerFee,
+      receipt,
     };
-  } catch (error: any) {
-    console.error(`❌ CCTP transfer failed:`, error.message);
+  } catch (error) {
+    const fluidError = toFluidError(error, undefined, receipt?.sourceTx);
+    logger.error(`CCTP transfer failed [${fluidError.code}]:`, fluidError.message);
     return {
       success: false,
-      error: error.message || String(error),
+      transferId,
+      sourceTx: receipt?.sourceTx ?? fluidError.sourceTx,
+      permitTx: receipt ? undefined : fluidError.permitTx,
+      attestationId: receipt?.attestationId,
+      error: fluidError.message,
+      errorCode: fluidError.code,
+      failedStage: fluidError.stage,
+      retryable: fluidError.retryable,
+      receipt,
     };
   }
 }
-
@@ -0,0 +1,294 @@
+/**
+ * Chain Registry
+ *
+ * Static data for every CCTP-enabled EVM chain the SDK can move USDC from or
+ * to, plus Aptos. Values match the Wormhole SDK's Circle configuration, so the
+ * registry and the SDK always agree on which USDC contract is burned.
+ */
+
+import type { TransferNetwork } from "./types";
+
+/**
+ * Registry key of an EVM chain
+ *
+ * Wormhole reuses some chain names across networks (e.g. "Avalanche" is also
+ * Fuji on Testnet), so keys are unique per network instead.
+ */
+export type EvmChainKey =
+  | 'Ethereum'
+  | 'Sepolia'
+  | 'Arbitrum'
+  | 'ArbitrumSepolia'
+  | 'Optimism'
+  | 'OptimismSepolia'
+  | 'Avalanche'
+  | 'AvalancheFuji'
+  | 'Polygon'
+  | 'PolygonTestnet'
+  | 'Base'
+  | 'BaseSepolia';
+
+/**
+ * Wormhole chain names used by the registry
+ */
+export type EvmWormholeChain =
+  | 'Ethereum'
+  | 'Sepolia'
+  | 'Arbitrum'
+  | 'ArbitrumSepolia'
+  | 'Optimism'
+  | 'OptimismSepolia'
+  | 'Avalanche'
+  | 'Polygon'
+  | 'Base'
+  | 'BaseSepolia';
+
+/**
+ * Registry entry for a chain
+ */
+export interface ChainInfo {
+  network: TransferNetwork;
+  displayName: string; // Human readable name (e.g., "Base Sepolia")
+  circleDomain: number; // Circle CCTP domain
+  usdcAddress: string;
+  explorerUrl: string; // Block explorer home page
+  explorerTxUrl: string; // Transaction page, with "{txHash}" as placeholder
+}
+
+/**
+ * Registry entry for an EVM chain
+ */
+export interface EvmChainInfo extends ChainInfo {
+  key: EvmChainKey;
+  wormholeChain: EvmWormholeChain;
+  chainId: number; // EVM chain ID
+}
+
+/**
+ * Registry entry for Aptos
+ */
+export interface AptosChainInfo extends ChainInfo {
+  wormholeChain: 'Aptos';
+}
+
+/**
+ * CCTP-enabled EVM chains, by registry key
+ */
+export const EVM_CHAINS: Record<EvmChainKey, EvmChainInfo> = {
+  Ethereum: {
+    key: 'Ethereum',
+    wormholeChain: 'Ethereum',
+    network: 'Mainnet',
+    displayName: 'Ethereum',
+    chainId: 1,
+    circleDomain: 0,
+    usdcAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    explorerUrl: 'https://etherscan.io',
+    explorerTxUrl: 'https://etherscan.io/tx/{txHash}',
+  },
+  Sepolia: {
+    key: 'Sepolia',
+    wormholeChain: 'Sepolia',
+    network: 'Testnet',
+    displayName: 'Ethereum Sepolia',
+    chainId: 11155111,
+    circleDomain: 0,
+    usdcAddress: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    explorerTxUrl: 'https://sepolia.etherscan.io/tx/{txHash}',
+  },
+  Arbitrum: {
+    key: 'Arbitrum',
+    wormholeChain: 'Arbitrum',
+    network: 'Mainnet',
+    displayName: 'Arbitrum',
+    chainId: 42161,
+    circleDomain: 3,
+    usdcAddress: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    explorerUrl: 'https://arbiscan.io',
+    explorerTxUrl: 'https://arbiscan.io/tx/{txHash}',
+  },
+  ArbitrumSepolia: {
+    key: 'ArbitrumSepolia',
+    wormholeChain: 'ArbitrumSepolia',
+    network: 'Testnet',
+    displayName: 'Arbitrum Sepolia',
+    chainId: 421614,
+    circleDomain: 3,
+    usdcAddress: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+    explorerUrl: 'https://sepolia.arbiscan.io',
+    explorerTxUrl: 'https://sepolia.arbiscan.io/tx/{txHash}',
+  },
+  Optimism: {
+    key: 'Optimism',
+    wormholeChain: 'Optimism',
+    network: 'Mainnet',
+    displayName: 'Optimism',
+    chainId: 10,
+    circleDomain: 2,
+    usdcAddress: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+    explorerUrl: 'https://optimistic.etherscan.io',
+    explorerTxUrl: 'https://optimistic.etherscan.io/tx/{txHash}',
+  },
+  OptimismSepolia: {
+    key: 'OptimismSepolia',
+    wormholeChain: 'OptimismSepolia',
+    network: 'Testnet',
+    displayName: 'Optimism Sepolia',
+    chainId: 11155420,
+    circleDomain: 2,
+    usdcAddress: '0x5fd84259d66Cd46123540766Be93DFE6D43130D7',
+    explorerUrl: 'https://sepolia-optimism.etherscan.io',
+    explorerTxUrl: 'https://sepolia-optimism.etherscan.io/tx/{txHash}',
+  },
+  Avalanche: {
+    key: 'Avalanche',
+    wormholeChain: 'Avalanche',
+    network: 'Mainnet',
+    displayName: 'Avalanche C-Chain',
+    chainId: 43114,
+    circleDomain: 1,
+    usdcAddress: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+    explorerUrl: 'https://snowtrace.io',
+    explorerTxUrl: 'https://snowtrace.io/tx/{txHash}',
+  },
+  AvalancheFuji: {
+    key: 'AvalancheFuji',
+    wormholeChain: 'Avalanche',
+    network: 'Testnet',
+    displayName: 'Avalanche Fuji',
+    chainId: 43113,
+    circleDomain: 1,
+    usdcAddress: '0x5425890298aed601595a70AB815c96711a31Bc65',
+    explorerUrl: 'https://testnet.snowtrace.io',
+    explorerTxUrl: 'https://testnet.snowtrace.io/tx/{txHash}',
+  },
+  Polygon: {
+    key: 'Polygon',
+    wormholeChain: 'Polygon',
+    network: 'Mainnet',
+    displayName: 'Polygon PoS',
+    chainId: 137,
+    circleDomain: 7,
+    usdcAddress: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+    explorerUrl: 'https://polygonscan.com',
+    explorerTxUrl: 'https://polygonscan.com/tx/{txHash}',
+  },
+  // Wormhole's Polygon testnet is Mumbai
+  PolygonTestnet: {
+    key: 'PolygonTestnet',
+    wormholeChain: 'Polygon',
+    network: 'Testnet',
+    displayName: 'Polygon Mumbai',
+    chainId: 80001,
+    circleDomain: 7,
+    usdcAddress: '0x9999f7Fea5938fD3b1E26A12c3f2fb024e194f97',
+    explorerUrl: 'https://mumbai.polygonscan.com',
+    explorerTxUrl: 'https://mumbai.polygonscan.com/tx/{txHash}',
+  },
+  Base: {
+    key: 'Base',
+    wormholeChain: 'Base',
+    network: 'Mainnet',
+    displayName: 'Base',
+    chainId: 8453,
+    circleDomain: 6,
+    usdcAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    explorerUrl: 'https://basescan.org',
+    explorerTxUrl: 'https://basescan.org/tx/{txHash}',
+  },
+  BaseSepolia: {
+    key: 'BaseSepolia',
+    wormholeChain: 'BaseSepolia',
+    network: 'Testnet',
+    displayName: 'Base Sepolia',
+    chainId: 84532,
+    circleDomain: 6,
+    usdcAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    explorerUrl: 'https://sepolia.basescan.org',
+    explorerTxUrl: 'https://sepolia.basescan.org/tx/{txHash}',
+  },
+};
+
+/**
+ * Aptos, by network
+ */
+export const APTOS_CHAINS: Record<TransferNetwork, AptosChainInfo> = {
+  Mainnet: {
+    wormholeChain: 'Aptos',
+    network: 'Mainnet',
+    displayName: 'Aptos',
+    circleDomain: 9,
+    usdcAddress: '0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b',
+    explorerUrl: 'https://explorer.aptoslabs.com/?network=mainnet',
+    explorerTxUrl: 'https://explorer.aptoslabs.com/txn/{txHash}?network=mainnet',
+  },
+  Testnet: {
+    wormholeChain: 'Aptos',
+    network: 'Testnet',
+    displayName: 'Aptos Testnet',
+    circleDomain: 9,
+    usdcAddress: '0x69091fbab5f7d635ee7ac5098cf0c1efbe31d68fec0f2cd565e8d168daf52832',
+    explorerUrl: 'https://explorer.aptoslabs.com/?network=testnet',
+    explorerTxUrl: 'https://explorer.aptoslabs.com/txn/{txHash}?network=testnet',
+  },
+};
+
+/**
+ * EVM chain used when the config doesn't set one
+ */
+export const DEFAULT_EVM_CHAIN: Record<TransferNetwork, EvmChainKey> = {
+  Mainnet: 'Base',
+  Testnet: 'BaseSepolia',
+};
+
+/**
+ * Check whether a string is a registry key
+ */
+export function isEvmChainKey(key: string): key is EvmChainKey {
+  return Object.prototype.hasOwnProperty.call(EVM_CHAINS, key);
+}
+
+/**
+ * Get an EVM chain by registry key
+ * @throws if the key is unknown or the chain belongs to another network
+ */
+export function getEvmChain(key: string, network?: TransferNetwork): EvmChainInfo {
+  if (!isEvmChainKey(key)) {
+    throw new Error(`Unknown EVM chain "${key}". Supported chains: ${Object.keys(EVM_CHAINS).join(', ')}`);
+  }
+  const chain = EVM_CHAINS[key];
+  if (network && chain.network !== network) {
+    throw new Error(`Chain ${key} is a ${chain.network} chain, but the network is ${network}`);
+  }
+  return chain;
+}
+
+/**
+ * Find an EVM chain by EVM chain ID
+ */
+export function getEvmChainById(chainId: number): EvmChainInfo | undefined {
+  return Object.values(EVM_CHAINS).find((chain) => chain.chainId === chainId);
+}
+
+/**
+ * Find a registry entry by Wormhole chain name (EVM chains and Aptos)
+ */
+export function getChainByWormholeName(
+  wormholeChain: string,
+  network: TransferNetwork
+): EvmChainInfo | AptosChainInfo | undefined {
+  if (wormholeChain === 'Aptos') {
+    return APTOS_CHAINS[network];
+  }
+  return Object.values(EVM_CHAINS).find(
+    (chain) => chain.wormholeChain === wormholeChain && chain.network === network
+  );
+}
+
+/**
+ * Build the explorer link for a transaction
+ */
+export function getExplorerTxUrl(chain: ChainInfo, txHash: string): string {
+  return chain.explorerTxUrl.replace('{txHash}', txHash);
+}
@@ -1,15 +1,28 @@
 import dotenv from 'dotenv';
+import { DEFAULT_EVM_CHAIN, EvmChainKey, getEvmChain } from './chains';
 
 // Load .env.local first (if exists), then .env
 dotenv.config({ path: '.env.local' });
 dotenv.config(); // This will override with .env if it exists
 
 export interface Config {
-  baseRpcUrl: string;
+  sourceChain: EvmChainKey; // EVM chain USDC moves from/to (default: Base on Mainnet, BaseSepolia on Testnet)
+  evmRpcUrl: string; // RPC endpoint of sourceChain
+  baseRpcUrl?: string; // Deprecated: alias of evmRpcUrl, kept for existing configs
   aptosRpcUrl: string;
-  baseSponsorPrivateKey: string;
+  baseSponsorPrivateKey: string; // Sponsor key for the EVM chain (any sourceChain)
   aptosSponsorPrivateKey: string;
   networkType: 'Mainnet' | 'Testnet';
+  // Sponsor nonce management (optional, see NonceManager)
+  nonceStuckAfterMs?: number; // Pending time after which a sponsor transaction is replaced (default: 60000)
+  feeBumpPercent?: number; // Fee increase per replacement (default: 20)
+  maxFeePerGasGwei?: string; // Cap on maxFeePerGas (or gasPrice) of replacements
+  maxPriorityFeePerGasGwei?: string; // Cap on maxPriorityFeePerGas of replacements
+  cancelForeignNonces?: boolean; // Cancel stuck sponsor transactions sent by another process (default: false, the transfer fails)
+  maxRecipientAptFunding?: string; // Highest recipientAptFunding a request may ask for, in APT (default: 0.1)
+  // ERC-6492 smart accounts (optional; without factories, accounts that aren't deployed are rejected)
+  erc6492Factories?: string[]; // Factories the sponsor may call to deploy a user's smart account
+  erc6492DeployGasLimit?: number; // Gas limit of a deployment (default: 1000000)
   // Circle CCTP contract addresses (optional, defaults provided by SDK)
   baseUsdcAddress?: string;
   baseTokenMessengerAddress?: string;
@@ -28,12 +41,52 @@ function getOptionalEnv(key: string): string | undefined {
   return process.env[key];
 }
 
+function getOptionalNumberEnv(key: string): number | undefined {
+  const value = getOptionalEnv(key);
+  return value ? Number(value) : undefined;
+}
+
+function getOptionalBooleanEnv(key: string): boolean | undefined {
+  const value = getOptionalEnv(key);
+  return value ? value === 'true' : undefined;
+}
+
+function getOptionalListEnv(key: string): string[] | undefined {
+  const value = getOptionalEnv(key);
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : undefined;
+}
+
+/**
+ * EVM RPC URL from EVM_RPC_URL, falling back to the older BASE_RPC_URL
+ */
+function getEvmRpcUrlEnv(): string {
+  return getOptionalEnv('EVM_RPC_URL') || getRequiredEnv('BASE_RPC_URL');
+}
+
+/**
+ * Resolve the source chain, checking it belongs to the configured network
+ */
+function resolveSourceChain(sourceChain: string | undefined, networkType: 'Mainnet' | 'Testnet'): EvmChainKey {
+  return getEvmChain(sourceChain || DEFAULT_EVM_CHAIN[networkType], networkType).key;
+}
+
+const networkType = (getOptionalEnv('NETWORK_TYPE') || 'Testnet') as 'Mainnet' | 'Testnet';
+
 export const config: Config = {
-  baseRpcUrl: getRequiredEnv('BASE_RPC_URL'),
+  sourceChain: resolveSourceChain(getOptionalEnv('SOURCE_CHAIN'), networkType),
+  evmRpcUrl: getEvmRpcUrlEnv(),
   aptosRpcUrl: getRequiredEnv('APTOS_RPC_URL'),
   baseSponsorPrivateKey: getRequiredEnv('BASE_SPONSOR_PRIVATE_KEY'),
   aptosSponsorPrivateKey: getRequiredEnv('APTOS_SPONSOR_PRIVATE_KEY'),
-  networkType: (getOptionalEnv('NETWORK_TYPE') || 'Testnet') as 'Mainnet' | 'Testnet',
+  networkType,
+  nonceStuckAfterMs: getOptionalNumberEnv('NONCE_STUCK_AFTER_MS'),
+  feeBumpPercent: getOptionalNumberEnv('FEE_BUMP_PERCENT'),
+  maxFeePerGasGwei: getOptionalEnv('MAX_FEE_PER_GAS_GWEI'),
+  maxPriorityFeePerGasGwei: getOptionalEnv('MAX_PRIORITY_FEE_PER_GAS_GWEI'),
+  cancelForeignNonces: getOptionalBooleanEnv('CANCEL_FOREIGN_NONCES'),
+  maxRecipientAptFunding: getOptionalEnv('MAX_RECIPIENT_APT_FUNDING'),
+  erc6492Factories: getOptionalListEnv('ERC6492_FACTORIES'),
+  erc6492DeployGasLimit: getOptionalNumberEnv('ERC6492_DEPLOY_GAS_LIMIT'),
   baseUsdcAddress: getOptionalEnv('BASE_USDC_ADDRESS'),
   baseTokenMessengerAddress: getOptionalEnv('BASE_TOKEN_MESSENGER_ADDRESS'),
   baseMessageTransmitterAddress: getOptionalEnv('BASE_MESSAGE_TRANSMITTER_ADDRESS'),
@@ -48,13 +101,24 @@ export function createConfig(override: Partial<Config>): Config {
   // Try to load from env first, then override with provided values
   dotenv.config({ path: '.env.local' });
   dotenv.config();
+
+  const networkType = override.networkType || (getOptionalEnv('NETWORK_TYPE') || 'Testnet') as 'Mainnet' | 'Testnet';
   
   return {
-    baseRpcUrl: override.baseRpcUrl || getRequiredEnv('BASE_RPC_URL'),
+    sourceChain: resolveSourceChain(override.sourceChain || getOptionalEnv('SOURCE_CHAIN'), networkType),
+    evmRpcUrl: override.evmRpcUrl || override.baseRpcUrl || getEvmRpcUrlEnv(),
     aptosRpcUrl: override.aptosRpcUrl || getRequiredEnv('APTOS_RPC_URL'),
     baseSponsorPrivateKey: override.baseSponsorPrivateKey || getRequiredEnv('BASE_SPONSOR_PRIVATE_KEY'),
     aptosSponsorPrivateKey: override.aptosSponsorPrivateKey || getRequiredEnv('APTOS_SPONSOR_PRIVATE_KEY'),
-    networkType: override.networkType || (getOptionalEnv('NETWORK_TYPE') || 'Testnet') as 'Mainnet' | 'Testnet',
+    networkType,
+    nonceStuckAfterMs: override.nonceStuckAfterMs ?? getOptionalNumberEnv('NONCE_STUCK_AFTER_MS'),
+    feeBumpPercent: override.feeBumpPercent ?? getOptionalNumberEnv('FEE_BUMP_PERCENT'),
+    maxFeePerGasGwei: override.maxFeePerGasGwei || getOptionalEnv('MAX_FEE_PER_GAS_GWEI'),
+    maxPriorityFeePerGasGwei: override.maxPriorityFeePerGasGwei || getOptionalEnv('MAX_PRIORITY_FEE_PER_GAS_GWEI'),
+    cancelForeignNonces: override.cancelForeignNonces ?? getOptionalBooleanEnv('CANCEL_FOREIGN_NONCES'),
+    maxRecipientAptFunding: override.maxRecipientAptFunding || getOptionalEnv('MAX_RECIPIENT_APT_FUNDING'),
+    erc6492Factories: override.erc6492Factories ?? getOptionalListEnv('ERC6492_FACTORIES'),
+    erc6492DeployGasLimit: override.erc6492DeployGasLimit ?? getOptionalNumberEnv('ERC6492_DEPLOY_GAS_LIMIT'),
     baseUsdcAddress: override.baseUsdcAddress || getOptionalEnv('BASE_USDC_ADDRESS'),
     baseTokenMessengerAddress: override.baseTokenMessengerAddress || getOptionalEnv('BASE_TOKEN_MESSENGER_ADDRESS'),
     baseMessageTransmitterAddress: override.baseMessageTransmitterAddress || getOptionalEnv('BASE_MESSAGE_TRANSMITTER_ADDRESS'),
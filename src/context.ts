@@ -0,0 +1,113 @@
+/**
+ * Transfer Context
+ *
+ * Builds everything a transfer stage needs to talk to both chains: the
+ * Wormhole SDK instance, the chain contexts and the sponsor signers.
+ * The same sponsors serve both directions; the direction only decides which
+ * chain burns and which one mints.
+ */
+
+import { wormhole, Network, Wormhole } from "@wormhole-foundation/sdk";
+import evm from "@wormhole-foundation/sdk/evm";
+import aptos from "@wormhole-foundation/sdk/aptos";
+import { config, Config, createConfig } from "./config";
+import { getEvmSigner, getAptosSigner } from "./helper";
+import { EvmSignerResult, AptosSignerResult, TransferDirection, CctpTransferReceipt } from "./types";
+import { EvmChainInfo, EvmWormholeChain, getEvmChain } from "./chains";
+import { NonceManager, getSponsorNonceManager } from "./nonceManager";
+import { ethers } from "ethers";
+import { Logger, silentLogger } from "./logger";
+
+/**
+ * Initialized SDK state shared by the transfer stages
+ */
+export interface TransferContext {
+  config: Config;
+  network: Network;
+  wh: Wormhole<Network>;
+  direction: TransferDirection;
+  evmChain: EvmChainInfo; // Registry entry of the configured EVM chain
+  srcChainName: EvmWormholeChain | "Aptos";
+  dstChainName: EvmWormholeChain | "Aptos";
+  baseSigner: EvmSignerResult;
+  nonceManager: NonceManager; // Nonces of the EVM sponsor, shared by every context with the same sponsor and chain
+  aptosSigner: AptosSignerResult;
+  logger: Logger;
+}
+
+/**
+ * Initializes the Wormhole SDK and sponsor signers
+ * @param override - Optional config override (uses env vars if not provided)
+ * @param logger - Optional logger for diagnostics (silent by default)
+ * @param direction - Transfer direction (default: base-to-aptos)
+ * @returns Transfer context ready to be passed to the transfer stages
+ */
+export async function createTransferContext(
+  override?: Partial<Config>,
+  logger: Logger = silentLogger,
+  direction: TransferDirection = "base-to-aptos"
+): Promise<TransferContext> {
+  // Use provided config or fall back to default (env-based) config
+  const transferConfig = override ? createConfig(override) : config;
+
+  const network: Network = transferConfig.networkType === "Mainnet" ? "Mainnet" : "Testnet";
+
+  logger.info(`Initializing Wormhole SDK with ${network} network...`);
+
+  const evmChain = getEvmChain(transferConfig.sourceChain, network);
+  const evmChainName = evmChain.wormholeChain;
+
+  // Initialize Wormhole SDK with EVM and Aptos platforms
+  const wh = await wormhole(network, [evm, aptos], {
+    chains: {
+      [evmChainName]: {
+        rpc: transferConfig.evmRpcUrl,
+      },
+      Aptos: {
+        rpc: transferConfig.aptosRpcUrl,
+      },
+    },
+  });
+
+  logger.info(`Wormhole SDK initialized`);
+
+  // Get signers
+  logger.info(`Initializing signers...`);
+  const baseSigner = getEvmSigner(transferConfig.evmRpcUrl, transferConfig.baseSponsorPrivateKey);
+  const aptosSigner = await getAptosSigner(transferConfig.aptosRpcUrl, transferConfig.aptosSponsorPrivateKey);
+
+  const nonceManager = getSponsorNonceManager(baseSigner.signer, evmChain.key, {
+    stuckAfterMs: transferConfig.nonceStuckAfterMs,
+    feeBumpPercent: transferConfig.feeBumpPercent,
+    maxFeePerGasCap: transferConfig.maxFeePerGasGwei ? ethers.parseUnits(transferConfig.maxFeePerGasGwei, "gwei") : undefined,
+    maxPriorityFeePerGasCap: transferConfig.maxPriorityFeePerGasGwei
+      ? ethers.parseUnits(transferConfig.maxPriorityFeePerGasGwei, "gwei")
+      : undefined,
+    cancelForeignNonces: transferConfig.cancelForeignNonces,
+    logger,
+  });
+
+  logger.info(`${evmChain.displayName} signer: ${baseSigner.address}`);
+  logger.info(`Aptos signer: ${aptosSigner.address}`);
+
+  return {
+    config: transferConfig,
+    network,
+    wh,
+    direction,
+    evmChain,
+    srcChainName: direction === "aptos-to-base" ? "Aptos" : evmChainName,
+    dstChainName: direction === "aptos-to-base" ? evmChainName : "Aptos",
+    baseSigner,
+    nonceManager,
+    aptosSigner,
+    logger,
+  };
+}
+
+/**
+ * Direction of the transfer a receipt belongs to
+ */
+export function directionOfReceipt(receipt: CctpTransferReceipt): TransferDirection {
+  return receipt.sourceChain === "Aptos" ? "aptos-to-base" : "base-to-aptos";
+}
@@ -0,0 +1,245 @@
+/**
+ * Smart Contract Wallet Signatures (EIP-1271 and ERC-6492)
+ *
+ * An EOA's signature is checked with ecrecover. A smart account (a Safe, an
+ * ERC-4337 account, ...) has no key of its own: its contract decides whether a
+ * signature is valid through EIP-1271 `isValidSignature(hash, signature)`,
+ * which is also what Permit2 calls when the permit's owner has code.
+ *
+ * A counterfactual account (not deployed yet) signs with an ERC-6492 wrapper:
+ * `abi.encode(factory, factoryCalldata, signature) ++ magicBytes`. It is
+ * verified with one `eth_call` of ERC-6492's ValidateSigOffchain contract,
+ * which deploys the account in the simulation and then asks it. The account
+ * must be deployed (`deployErc6492Account`) before Permit2 can use the signature.
+ */
+
+import { ethers } from "ethers";
+import { AuthorizationError } from "./errors";
+import { Logger, silentLogger } from "./logger";
+
+/**
+ * Return value of `isValidSignature` for a valid signature
+ */
+export const EIP1271_MAGIC_VALUE = "0x1626ba7e";
+
+/**
+ * Suffix of ERC-6492 wrapped signatures
+ */
+export const ERC6492_MAGIC_BYTES = "0x6492649264926492649264926492649264926492649264926492649264926492";
+
+/**
+ * Default gas limit of a smart account deployment
+ */
+export const DEFAULT_ERC6492_DEPLOY_GAS_LIMIT = 1_000_000n;
+
+/**
+ * Minimal EIP-1271 ABI
+ */
+export const EIP1271_ABI = [
+  "function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)",
+];
+
+/**
+ * Creation code of ERC-6492's ValidateSigOffchain reference contract
+ * (constructor(address signer, bytes32 hash, bytes signature), returns 0x01 if valid)
+ */
+const ERC6492_VALIDATOR_BYTECODE =
+  "0x608060405234801561001057600080fd5b5060405161069438038061069483398101604081905261002f9161051e565b600061003c848484610048565b9050806000526001601ff35b60007f64926492649264926492649264926492649264926492649264926492649264926100748361040c565b036101e7576000606080848060200190518101906100929190610577565b60405192955090935091506000906001600160a01b038516906100b69085906105dd565b6000604051808303816000865af19150503d80600081146100f3576040519150601f19603f3d011682016040523d82523d6000602084013e6100f8565b606091505b50509050876001600160a01b03163b60000361016057806101605760405162461bcd60e51b815260206004820152601e60248201527f5369676e617475726556616c696461746f723a206465706c6f796d656e74000060448201526064015b60405180910390fd5b604051630b135d3f60e11b808252906001600160a01b038a1690631626ba7e90610190908b9087906004016105f9565b602060405180830381865afa1580156101ad573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906101d19190610633565b6001600160e01b03191614945050505050610405565b6001600160a01b0384163b1561027a57604051630b135d3f60e11b808252906001600160a01b03861690631626ba7e9061022790879087906004016105f9565b602060405180830381865afa158015610244573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906102689190610633565b6001600160e01b031916149050610405565b81516041146102df5760405162461bcd60e51b815260206004820152603a602482015260008051602061067483398151915260448201527f3a20696e76616c6964207369676e6174757265206c656e6774680000000000006064820152608401610157565b6102e7610425565b5060208201516040808401518451859392600091859190811061030c5761030c61065d565b016020015160f81c9050601b811480159061032b57508060ff16601c14155b1561038c5760405162461bcd60e51b815260206004820152603b602482015260008051602061067483398151915260448201527f3a20696e76616c6964207369676e617475726520762076616c756500000000006064820152608401610157565b60408051600081526020810180835289905260ff83169181019190915260608101849052608081018390526001600160a01b0389169060019060a0016020604051602081039080840390855afa1580156103ea573d6000803e3d6000fd5b505050602060405103516001600160a01b0316149450505050505b9392505050565b600060208251101561041d57600080fd5b508051015190565b60405180606001604052806003906020820280368337509192915050565b6001600160a01b038116811461045857600080fd5b50565b634e487b7160e01b600052604160045260246000fd5b60005b8381101561048c578181015183820152602001610474565b50506000910152565b600082601f8301126104a657600080fd5b81516001600160401b038111156104bf576104bf61045b565b604051601f8201601f19908116603f011681016001600160401b03811182821017156104ed576104ed61045b565b60405281815283820160200185101561050557600080fd5b610516826020830160208701610471565b949350505050565b60008060006060848603121561053357600080fd5b835161053e81610443565b6020850151604086015191945092506001600160401b0381111561056157600080fd5b61056d86828701610495565b9150509250925092565b60008060006060848603121561058c57600080fd5b835161059781610443565b60208501519093506001600160401b038111156105b357600080fd5b6105bf86828701610495565b604086015190935090506001600160401b0381111561056157600080fd5b600082516105ef818460208701610471565b9190910192915050565b828152604060208201526000825180604084015261061e816060850160208701610471565b601f01601f1916919091016060019392505050565b60006020828403121561064557600080fd5b81516001600160e01b03198116811461040557600080fd5b634e487b7160e01b600052603260045260246000fdfe5369676e617475726556616c696461746f72237265636f7665725369676e6572";
+
+/**
+ * The provider calls signature verification needs (an ethers.Provider, or a mock of one)
+ */
+export interface SignatureProvider {
+  getCode(address: string): Promise<string>;
+  call(tx: { to?: string | null; data: string }): Promise<string>;
+}
+
+/**
+ * ERC-6492 signature of a counterfactual account, unwrapped
+ */
+export interface Erc6492Signature {
+  factory: string; // Contract that deploys the account
+  factoryCalldata: string; // Call to the factory that deploys the account
+  signature: string; // Signature the deployed account validates with EIP-1271
+}
+
+/**
+ * Whether a signature is ERC-6492 wrapped
+ */
+export function isErc6492Signature(signature: string): boolean {
+  return signature.toLowerCase().endsWith(ERC6492_MAGIC_BYTES.slice(2));
+}
+
+/**
+ * Unwrap an ERC-6492 signature
+ * @throws Error if the signature isn't ERC-6492 wrapped
+ */
+export function parseErc6492Signature(signature: string): Erc6492Signature {
+  if (!isErc6492Signature(signature)) {
+    throw new Error(`Signature is not an ERC-6492 signature`);
+  }
+  const encoded = ethers.dataSlice(signature, 0, ethers.dataLength(signature) - 32);
+  const [factory, factoryCalldata, inner] = ethers.AbiCoder.defaultAbiCoder().decode(["address", "bytes", "bytes"], encoded);
+  return { factory, factoryCalldata, signature: inner };
+}
+
+/**
+ * Wrap a counterfactual account's signature in the ERC-6492 format
+ */
+export function wrapErc6492Signature({ factory, factoryCalldata, signature }: Erc6492Signature): string {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes", "bytes"], [factory, factoryCalldata, signature]);
+  return ethers.concat([encoded, ERC6492_MAGIC_BYTES]);
+}
+
+/**
+ * The signature a deployed account validates (the inner signature of an ERC-6492 wrapper, or the signature itself)
+ */
+export function unwrapErc6492Signature(signature: string): string {
+  return isErc6492Signature(signature) ? parseErc6492Signature(signature).signature : signature;
+}
+
+/**
+ * Verify that `signer` signed an EIP-712 digest
+ *
+ * Tries ecrecover first, then EIP-1271 `isValidSignature` if the signer has
+ * code. An ERC-6492 signature of an account that isn't deployed yet is
+ * checked by simulating its deployment.
+ * @param provider - Provider for the signer's chain
+ * @param signer - Expected signer (EOA or smart account)
+ * @param digest - EIP-712 digest
+ * @param signature - Hex-encoded signature (65-byte ECDSA, any EIP-1271 format, or ERC-6492 wrapped)
+ * @param logger - Optional logger for diagnostics (silent by default)
+ * @returns true if the signature is valid for `signer`
+ */
+export async function verifyTypedDataSignature(
+  provider: SignatureProvider,
+  signer: string,
+  digest: string,
+  signature: string,
+  logger: Logger = silentLogger
+): Promise<boolean> {
+  try {
+    const code = await provider.getCode(signer);
+    const deployed = code !== "0x";
+
+    if (isErc6492Signature(signature)) {
+      if (!deployed) {
+        return await validateCounterfactualSignature(provider, signer, digest, signature, logger);
+      }
+      signature = parseErc6492Signature(signature).signature;
+    }
+
+    if (ethers.dataLength(signature) === 65) {
+      const recovered = ethers.recoverAddress(digest, signature);
+      if (recovered.toLowerCase() === signer.toLowerCase()) {
+        return true;
+      }
+      if (!deployed) {
+        logger.error(`Signature verification failed: recovered ${recovered}, expected ${signer}`);
+        return false;
+      }
+    } else if (!deployed) {
+      logger.error(`Signature of ${signer} is not a 65-byte ECDSA signature and ${signer} has no code`);
+      return false;
+    }
+
+    return await isValidEip1271Signature(provider, signer, digest, signature, logger);
+  } catch (error: any) {
+    logger.error(`Error verifying signature of ${signer}:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Ask a smart account whether it signed a digest (EIP-1271)
+ * @returns true if `isValidSignature` returns the magic value; false if it returns anything else or reverts
+ */
+export async function isValidEip1271Signature(
+  provider: SignatureProvider,
+  account: string,
+  digest: string,
+  signature: string,
+  logger: Logger = silentLogger
+): Promise<boolean> {
+  const iface = new ethers.Interface(EIP1271_ABI);
+  try {
+    const result = await provider.call({ to: account, data: iface.encodeFunctionData("isValidSignature", [digest, signature]) });
+    const [magicValue] = iface.decodeFunctionResult("isValidSignature", result);
+    const matches = magicValue.toLowerCase() === EIP1271_MAGIC_VALUE;
+    if (!matches) {
+      logger.error(`EIP-1271 signature rejected by ${account} (returned ${magicValue})`);
+    }
+    return matches;
+  } catch (error: any) {
+    logger.error(`EIP-1271 isValidSignature call to ${account} failed:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Deploy the counterfactual account of an ERC-6492 signature, if it isn't deployed yet
+ *
+ * Permit2 checks a contract owner's signature with EIP-1271, so the account
+ * must exist before its permit is submitted. The signature names the contract
+ * the sender calls, so only allowed factories are called, with a gas limit.
+ * @param sender - Signer that pays for the deployment (the sponsor)
+ * @param account - Address of the account
+ * @param signature - ERC-6492 signature
+ * @param allowedFactories - Factories the sender may call
+ * @param gasLimit - Gas limit of the deployment (default: DEFAULT_ERC6492_DEPLOY_GAS_LIMIT)
+ * @returns The signature the deployed account validates, and the deployment tx (if one was sent)
+ * @throws AuthorizationError (AUTH_INVALID_SIGNATURE) if the account needs a factory that isn't allowed
+ */
+export async function deployErc6492Account(
+  sender: ethers.Signer,
+  account: string,
+  signature: string,
+  allowedFactories: string[],
+  gasLimit: bigint = DEFAULT_ERC6492_DEPLOY_GAS_LIMIT
+): Promise<{ signature: string; deployTx?: string }> {
+  const { factory, factoryCalldata, signature: inner } = parseErc6492Signature(signature);
+  const provider = sender.provider;
+  if (!provider) {
+    throw new Error(`Signer has no provider to deploy ${account}`);
+  }
+  if ((await provider.getCode(account)) !== "0x") {
+    return { signature: inner };
+  }
+  if (!allowedFactories.some((allowed) => allowed.toLowerCase() === factory.toLowerCase())) {
+    throw new AuthorizationError(
+      'AUTH_INVALID_SIGNATURE',
+      `Smart account ${account} isn't deployed and its ERC-6492 factory ${factory} is not allowed`
+    );
+  }
+
+  const tx = await sender.sendTransaction({ to: factory, data: factoryCalldata, gasLimit });
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) {
+    throw new Error(`Deployment of ${account} (${tx.hash}) reverted`);
+  }
+  if ((await provider.getCode(account)) === "0x") {
+    throw new Error(`Factory call ${tx.hash} did not deploy ${account}`);
+  }
+  return { signature: inner, deployTx: tx.hash };
+}
+
+async function validateCounterfactualSignature(
+  provider: SignatureProvider,
+  signer: string,
+  digest: string,
+  signature: string,
+  logger: Logger
+): Promise<boolean> {
+  const args = ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32", "bytes"], [signer, digest, signature]);
+  try {
+    const result = await provider.call({ data: ethers.concat([ERC6492_VALIDATOR_BYTECODE, args]) });
+    const valid = result !== "0x" && ethers.toBigInt(result) === 1n;
+    if (!valid) {
+      logger.error(`ERC-6492 signature of counterfactual account ${signer} is not valid`);
+    }
+    return valid;
+  } catch (error: any) {
+    logger.error(`ERC-6492 validation of ${signer} failed:`, error.message);
+    return false;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * EIP-2612 Permit Signature Generation and Verification
+ *
+ * USDC implements EIP-2612 `permit` itself: the owner signs an allowance for
+ * the sponsor, which submits it to the token and then pulls the USDC with
+ * `transferFrom`. Unlike Permit2, the user needs no prior approval
+ * transaction. The EIP-712 domain is the token's own (its name and version,
+ * e.g. "USDC" and "2"), and nonces are sequential per owner.
+ */
+
+import { ethers, TypedDataEncoder } from "ethers";
+import { Logger, silentLogger } from "./logger";
+import type { TypedDataPayload } from "./permit2";
+
+/**
+ * EIP-712 domain of an EIP-2612 token
+ */
+export interface Eip2612Domain {
+  name: string; // Token's EIP-712 name (e.g., "USDC" on Base Sepolia, "USD Coin" on Base)
+  version: string; // Token's EIP-712 version (e.g., "2")
+  chainId: number;
+  verifyingContract: string; // The token
+}
+
+/**
+ * EIP-2612 permit of a token allowance
+ */
+export interface Eip2612Permit {
+  owner: string;
+  spender: string; // Address the allowance is given to (the sponsor wallet)
+  token: string; // Token contract (not signed directly: it is the domain's verifyingContract)
+  value: bigint;
+  nonce: bigint; // Owner's current token nonce, see getEip2612Nonce
+  deadline: bigint;
+}
+
+/**
+ * Get the EIP-712 domain of an EIP-2612 token
+ * @param token - Token contract address
+ * @param chainId - Chain ID
+ * @param name - Token's EIP-712 name (see readEip2612Domain to read it from chain)
+ * @param version - Token's EIP-712 version
+ */
+export function getEip2612Domain(token: string, chainId: number, name: string, version: string): Eip2612Domain {
+  return { name, version, chainId, verifyingContract: token };
+}
+
+/**
+ * Get EIP-2612 EIP-712 types for signing
+ * Note: EIP712Domain is not included - ethers.js handles it automatically
+ */
+export function getEip2612Types() {
+  return {
+    Permit: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  };
+}
+
+/**
+ * Build the Permit message signed for a permit
+ */
+function getEip2612Message(permit: Eip2612Permit) {
+  return {
+    owner: permit.owner,
+    spender: permit.spender,
+    value: permit.value.toString(),
+    nonce: permit.nonce.toString(),
+    deadline: permit.deadline.toString(),
+  };
+}
+
+/**
+ * EIP-712 digest of a permit (what its owner signs)
+ * @param permit - Permit details
+ * @param domain - Token's EIP-712 domain
+ * @returns Hex-encoded bytes32 digest
+ */
+export function hashEip2612Permit(permit: Eip2612Permit, domain: Eip2612Domain): string {
+  return TypedDataEncoder.hash(domain, getEip2612Types(), getEip2612Message(permit));
+}
+
+/**
+ * Build the `eth_signTypedData_v4` payload of a permit
+ * @param permit - Permit details
+ * @param domain - Token's EIP-712 domain
+ */
+export function buildEip2612TypedData(permit: Eip2612Permit, domain: Eip2612Domain): TypedDataPayload {
+  return TypedDataEncoder.getPayload(domain, getEip2612Types(), getEip2612Message(permit));
+}
+
+/**
+ * Generate an EIP-2612 permit signature
+ * @param signer - Any ethers signer of the user's wallet
+ * @param permit - Permit details
+ * @param domain - Token's EIP-712 domain (its verifyingContract must be permit.token)
+ * @returns Hex-encoded signature string
+ */
+export async function generateEip2612Signature(
+  signer: ethers.Signer,
+  permit: Eip2612Permit,
+  domain: Eip2612Domain
+): Promise<string> {
+  return signer.signTypedData(domain, getEip2612Types(), getEip2612Message(permit));
+}
+
+/**
+ * Verify an EIP-2612 permit signature
+ * @param permit - Permit details
+ * @param signature - Hex-encoded signature string
+ * @param domain - Token's EIP-712 domain
+ * @param logger - Optional logger for diagnostics (silent by default)
+ * @returns true if the signature recovers to permit.owner for permit.token
+ */
+export function verifyEip2612Signature(
+  permit: Eip2612Permit,
+  signature: string,
+  domain: Eip2612Domain,
+  logger: Logger = silentLogger
+): boolean {
+  try {
+    if (domain.verifyingContract.toLowerCase() !== permit.token.toLowerCase()) {
+      logger.error(`EIP-2612 domain is for ${domain.verifyingContract}, but the permit is for ${permit.token}`);
+      return false;
+    }
+
+    const digest = hashEip2612Permit(permit, domain);
+    const recoveredAddress = ethers.recoverAddress(digest, signature);
+
+    const matches = recoveredAddress.toLowerCase() === permit.owner.toLowerCase();
+    if (!matches) {
+      logger.error(`EIP-2612 signature verification failed: recovered ${recoveredAddress}, expected ${permit.owner}`);
+    }
+    return matches;
+  } catch (error: any) {
+    logger.error(`Error verifying EIP-2612 signature:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Helper to create an EIP-2612 permit with default deadline (1 hour from now)
+ * The spender must be the sponsor wallet that will submit the permit.
+ */
+export function createEip2612Permit(
+  owner: string,
+  spender: string,
+  token: string,
+  value: bigint,
+  nonce: bigint,
+  deadlineOffsetSeconds: number = 3600 // 1 hour default
+): Eip2612Permit {
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineOffsetSeconds);
+  return { owner, spender, token, value, nonce, deadline };
+}
+
+/**
+ * Eip2612Permit in JSON form (uint256 fields as decimal strings)
+ */
+export type SerializedEip2612Permit = Omit<Eip2612Permit, 'value' | 'nonce' | 'deadline'> & {
+  value: string;
+  nonce: string;
+  deadline: string;
+};
+
+/**
+ * Convert a permit to its JSON form
+ */
+export function serializeEip2612Permit(permit: Eip2612Permit): SerializedEip2612Permit {
+  return {
+    ...permit,
+    value: permit.value.toString(),
+    nonce: permit.nonce.toString(),
+    deadline: permit.deadline.toString(),
+  };
+}
+
+/**
+ * Convert a permit from its JSON form
+ */
+export function parseEip2612Permit(permit: SerializedEip2612Permit): Eip2612Permit {
+  return {
+    ...permit,
+    value: BigInt(permit.value),
+    nonce: BigInt(permit.nonce),
+    deadline: BigInt(permit.deadline),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * EIP-2612 On-Chain Execution
+ *
+ * Reads the state an EIP-2612 permit is signed against (the token's domain
+ * and the owner's nonce) and submits a user's signed permit so the sponsor
+ * can move the user's USDC and pay the gas for it.
+ */
+
+import { ethers } from "ethers";
+import { FluidError } from "./errors";
+import { getEip2612Domain, type Eip2612Domain, type Eip2612Permit } from "./eip2612";
+
+/**
+ * Minimal EIP-2612 token ABI
+ */
+export const EIP2612_ABI = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function transferFrom(address from, address to, uint256 value) returns (bool)",
+];
+
+/**
+ * Read the EIP-2612 nonce an owner's next permit must be signed with
+ * @param provider - Provider for the token's chain
+ * @param token - Token contract address
+ * @param owner - Token owner
+ */
+export async function getEip2612Nonce(provider: ethers.Provider, token: string, owner: string): Promise<bigint> {
+  const erc20 = new ethers.Contract(token, EIP2612_ABI, provider);
+  return erc20.nonces(owner) as Promise<bigint>;
+}
+
+/**
+ * Read the EIP-712 domain of an EIP-2612 token (its name, version and chain)
+ * @param provider - Provider for the token's chain
+ * @param token - Token contract address
+ */
+export async function readEip2612Domain(provider: ethers.Provider, token: string): Promise<Eip2612Domain> {
+  const erc20 = new ethers.Contract(token, EIP2612_ABI, provider);
+  const [name, version, network] = await Promise.all([
+    erc20.name() as Promise<string>,
+    erc20.version() as Promise<string>,
+    provider.getNetwork(),
+  ]);
+  return getEip2612Domain(token, Number(network.chainId), name, version);
+}
+
+/**
+ * Submit a signed EIP-2612 permit and move the tokens from its owner to `to`
+ *
+ * Both transactions are sent by `permit.spender`, which pays the gas. If the
+ * permit was already submitted (its nonce is spent) and the allowance still
+ * covers the value, only the transfer is sent, so a failed pull can be retried.
+ * @param spender - Signer of the permit's spender (the sponsor)
+ * @param permit - Signed permit
+ * @param signature - Owner's EIP-2612 signature
+ * @param to - Recipient of the tokens (defaults to the spender)
+ * @returns Hash of the mined transfer
+ */
+export async function executeEip2612Permit(
+  spender: ethers.Signer,
+  permit: Eip2612Permit,
+  signature: string,
+  to?: string
+): Promise<string> {
+  const token = new ethers.Contract(permit.token, EIP2612_ABI, spender);
+  const recipient = to ?? await spender.getAddress();
+
+  const [nonce, allowance]: [bigint, bigint] = await Promise.all([
+    token.nonces(permit.owner),
+    token.allowance(permit.owner, permit.spender),
+  ]);
+  if (nonce !== permit.nonce && allowance < permit.value) {
+    throw new Error(`EIP-2612 nonce ${permit.nonce} of ${permit.owner} is already used and the allowance (${allowance}) doesn't cover ${permit.value}`);
+  }
+  if (nonce === permit.nonce) {
+    const { v, r, s } = ethers.Signature.from(signature);
+    const permitTx: ethers.TransactionResponse = await token.permit(
+      permit.owner,
+      permit.spender,
+      permit.value,
+      permit.deadline,
+      v,
+      r,
+      s
+    );
+    await waitForTokenTx(permitTx, "permit");
+  }
+
+  const tx: ethers.TransactionResponse = await token.transferFrom(permit.owner, recipient, permit.value);
+  return waitForTokenTx(tx, "transfer");
+}
+
+/**
+ * Wait for a permit or transfer to be mined
+ * @throws FluidError (SOURCE_FAILED) with the transaction as `permitTx`; not
+ *   retryable unless it reverted, since a transaction whose receipt couldn't be
+ *   read may still be mined
+ */
+async function waitForTokenTx(tx: ethers.TransactionResponse, kind: string): Promise<string> {
+  let receipt: ethers.TransactionReceipt | null;
+  try {
+    receipt = await tx.wait();
+  } catch (error) {
+    if (ethers.isError(error, "CALL_EXCEPTION") && error.receipt) {
+      throw new FluidError('SOURCE_FAILED', `EIP-2612 ${kind} ${tx.hash} reverted`, { permitTx: tx.hash, cause: error });
+    }
+    throw new FluidError(
+      'SOURCE_FAILED',
+      `EIP-2612 ${kind} ${tx.hash} was sent but its receipt could not be read; check whether it was mined before retrying. ` +
+      `Error: ${(error as any)?.message ?? error}`,
+      { permitTx: tx.hash, retryable: false, cause: error }
+    );
+  }
+  if (!receipt || receipt.status !== 1) {
+    throw new FluidError('SOURCE_FAILED', `EIP-2612 ${kind} ${tx.hash} reverted`, { permitTx: tx.hash });
+  }
+  return tx.hash;
+}
@@ -0,0 +1,199 @@
+/**
+ * Fluid Error Taxonomy
+ *
+ * Every failure surfaced by the SDK is a FluidError with a stable `code`, the
+ * transfer stage that failed and whether it is safe to retry, so callers can
+ * branch on data instead of matching error message substrings.
+ */
+
+import { TransferStage } from "./types";
+
+/**
+ * Stable error codes
+ */
+export type FluidErrorCode =
+  | 'INVALID_REQUEST'         // Malformed request (amount, addresses, ...)
+  | 'RECEIPT_INVALID'         // Receipt doesn't match the configured network/chains or can't be parsed
+  | 'AUTH_MISSING_SIGNATURE'  // User wallet given without a signature
+  | 'AUTH_INVALID_SIGNATURE'  // Signature doesn't recover to the user wallet
+  | 'AUTH_OWNER_MISMATCH'     // Permit owner is not the user wallet
+  | 'AUTH_AMOUNT_MISMATCH'    // Permit amount is not the transfer amount
+  | 'AUTH_SPENDER_MISMATCH'   // Permit spender is not the sponsor wallet that must submit it
+  | 'AUTH_TOKEN_MISMATCH'     // Permit token is not USDC on the source chain
+  | 'AUTH_WITNESS_MISMATCH'   // Permit witness doesn't match the recipient, destination or fee of the transfer
+  | 'PERMIT2_NOT_APPROVED'    // User wallet hasn't approved the Permit2 contract on USDC
+  | 'PERMIT_EXPIRED'          // Permit deadline has passed
+  | 'PERMIT_NONCE_USED'       // Permit2 nonce was already used or invalidated on-chain
+  | 'SIGNATURE_REPLAYED'      // Signature was already consumed by another transfer
+  | 'NONCE_STUCK'             // Sponsor has pending transactions that didn't clear
+  | 'RELAY_UNSUPPORTED'       // Automatic relaying isn't available between the two chains
+  | 'RECIPIENT_INVALID'       // Recipient is malformed, has no account or can't receive USDC
+  | 'INSUFFICIENT_BALANCE'    // Not enough USDC, or not enough gas token for the sponsor
+  | 'SOURCE_FAILED'           // Burn transaction on the source chain failed
+  | 'ATTESTATION_TIMEOUT'     // Circle attestation not received in time
+  | 'DESTINATION_FAILED'      // Mint transaction on the destination chain failed
+  | 'TRANSFER_IN_PROGRESS'    // A transfer with the same idempotency key is still running
+  | 'IDEMPOTENCY_CONFLICT'    // Idempotency key was already used for a different request
+  | 'UNKNOWN';
+
+/**
+ * Whether each code is safe to retry without changing the request
+ */
+const RETRYABLE: Record<FluidErrorCode, boolean> = {
+  INVALID_REQUEST: false,
+  RECEIPT_INVALID: false,
+  AUTH_MISSING_SIGNATURE: false,
+  AUTH_INVALID_SIGNATURE: false,
+  AUTH_OWNER_MISMATCH: false,
+  AUTH_AMOUNT_MISMATCH: false,
+  AUTH_SPENDER_MISMATCH: false,
+  AUTH_TOKEN_MISMATCH: false,
+  AUTH_WITNESS_MISMATCH: false,
+  PERMIT2_NOT_APPROVED: false,
+  PERMIT_EXPIRED: false,
+  PERMIT_NONCE_USED: false,
+  SIGNATURE_REPLAYED: false,
+  NONCE_STUCK: true,
+  RELAY_UNSUPPORTED: false,
+  RECIPIENT_INVALID: false,
+  INSUFFICIENT_BALANCE: false,
+  SOURCE_FAILED: true,
+  ATTESTATION_TIMEOUT: true,
+  DESTINATION_FAILED: true,
+  TRANSFER_IN_PROGRESS: true,
+  IDEMPOTENCY_CONFLICT: false,
+  UNKNOWN: false,
+};
+
+export interface FluidErrorOptions {
+  stage?: TransferStage; // Stage that was being attempted
+  retryable?: boolean; // Override the code's default
+  sourceTx?: string; // Source tx, if the burn already happened
+  permitTx?: string; // Transaction that pulled the user's USDC, if it was sent
+  cause?: unknown;
+}
+
+/**
+ * Base class for all SDK errors
+ */
+export class FluidError extends Error {
+  readonly code: FluidErrorCode;
+  readonly stage?: TransferStage;
+  readonly retryable: boolean;
+  readonly sourceTx?: string;
+  readonly permitTx?: string;
+  readonly cause?: unknown;
+
+  constructor(code: FluidErrorCode, message: string, options: FluidErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.stage = options.stage;
+    this.retryable = options.retryable ?? RETRYABLE[code];
+    this.sourceTx = options.sourceTx;
+    this.permitTx = options.permitTx;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * User authorization (signature or permit) was rejected
+ */
+export class AuthorizationError extends FluidError {
+  constructor(
+    code:
+      | 'AUTH_MISSING_SIGNATURE'
+      | 'AUTH_INVALID_SIGNATURE'
+      | 'AUTH_OWNER_MISMATCH'
+      | 'AUTH_AMOUNT_MISMATCH'
+      | 'AUTH_SPENDER_MISMATCH'
+      | 'AUTH_TOKEN_MISMATCH'
+      | 'AUTH_WITNESS_MISMATCH'
+      | 'PERMIT2_NOT_APPROVED'
+      | 'PERMIT_EXPIRED'
+      | 'PERMIT_NONCE_USED'
+      | 'SIGNATURE_REPLAYED',
+    message: string,
+    options: FluidErrorOptions = {}
+  ) {
+    super(code, message, { stage: "initiated", ...options });
+  }
+}
+
+/**
+ * Sponsor nonce could not be used (pending transactions didn't clear)
+ */
+export class NonceError extends FluidError {
+  constructor(message: string, options: FluidErrorOptions = {}) {
+    super('NONCE_STUCK', message, { stage: "initiated", ...options });
+  }
+}
+
+/**
+ * Not enough USDC or gas token to pay for the transfer
+ */
+export class InsufficientBalanceError extends FluidError {
+  constructor(message: string, options: FluidErrorOptions = {}) {
+    super('INSUFFICIENT_BALANCE', message, options);
+  }
+}
+
+/**
+ * Circle attestation was not received in time
+ */
+export class AttestationTimeoutError extends FluidError {
+  constructor(message: string, options: FluidErrorOptions = {}) {
+    super('ATTESTATION_TIMEOUT', message, { stage: "attested", ...options });
+  }
+}
+
+/**
+ * Mint on the destination chain failed
+ */
+export class DestinationError extends FluidError {
+  constructor(message: string, options: FluidErrorOptions = {}) {
+    super('DESTINATION_FAILED', message, { stage: "completed", ...options });
+  }
+}
+
+/**
+ * Normalize any thrown value into a FluidError
+ * @param error - Thrown value
+ * @param stage - Stage that was being attempted
+ * @param sourceTx - Source tx, if the burn already happened
+ */
+export function toFluidError(error: unknown, stage?: TransferStage, sourceTx?: string): FluidError {
+  if (error instanceof FluidError) {
+    return error;
+  }
+
+  const message = (error as any)?.message || String(error);
+  const options = { stage, sourceTx, cause: error };
+
+  if (isInsufficientFunds(error)) {
+    return new InsufficientBalanceError(message, options);
+  }
+
+  switch (stage) {
+    case "initiated":
+      // Once the burn was sent, repeating the stage would burn twice
+      return new FluidError('SOURCE_FAILED', message, { ...options, retryable: !sourceTx });
+    case "attested":
+      return new AttestationTimeoutError(message, options);
+    case "completed":
+      return new DestinationError(message, options);
+    default:
+      return new FluidError('UNKNOWN', message, options);
+  }
+}
+
+function isInsufficientFunds(error: unknown): boolean {
+  const code = (error as any)?.code;
+  const message = String((error as any)?.message ?? "").toLowerCase();
+  return (
+    code === "INSUFFICIENT_FUNDS" ||
+    message.includes("insufficient funds") ||
+    message.includes("exceeds balance") ||
+    message.includes("insufficient_balance")
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Transfer Progress Events
+ *
+ * Typed events emitted at every step of a transfer, so callers can drive UIs,
+ * metrics or notifications without parsing log output.
+ */
+
+import { Logger } from "./logger";
+import { CctpTransferReceipt, TransferStage } from "./types";
+import { FluidErrorCode } from "./errors";
+
+/**
+ * User authorization was verified
+ */
+export interface AuthorizedEvent {
+  type: 'authorized';
+  fromAddress: string;
+  method: 'placeholder' | 'permit2' | 'permit2-batch' | 'eip2612';
+}
+
+/**
+ * The sponsor pulled the user's USDC with their Permit2 signature
+ */
+export interface FundsPulledEvent {
+  type: 'funds-pulled';
+  chain: string;
+  txHash: string;
+  owner: string; // User wallet the USDC was pulled from
+  amount: string; // Smallest units
+}
+
+/**
+ * The sponsor created the recipient's Aptos account
+ */
+export interface RecipientCreatedEvent {
+  type: 'recipient-created';
+  chain: 'Aptos';
+  address: string;
+  txHash: string;
+  funding: string; // APT sent to the new account, in octas
+}
+
+/**
+ * The sponsor has pending transactions and the transfer is waiting for them to clear
+ */
+export interface NonceWaitEvent {
+  type: 'nonce-wait';
+  address: string;
+  latestNonce: number;
+  pendingNonce: number;
+  elapsedMs: number;
+}
+
+/**
+ * A stuck sponsor transaction was replaced with higher fees, or cancelled
+ */
+export interface NonceReplacedEvent {
+  type: 'nonce-replaced';
+  address: string;
+  nonce: number;
+  action: 'speed-up' | 'cancel';
+  replacedHash?: string; // Replaced transaction, if this process sent it
+  txHash: string; // Replacement transaction
+  maxFeePerGas?: string; // wei
+  maxPriorityFeePerGas?: string; // wei
+  gasPrice?: string; // wei (legacy chains)
+}
+
+/**
+ * The burn transaction was sent on the source chain
+ */
+export interface SourceSentEvent {
+  type: 'source-sent';
+  chain: string;
+  txHash: string;
+  amount: string; // Smallest units
+  senderAddress: string;
+  recipientAddress: string;
+  automatic: boolean;
+  relayerFee?: string; // Smallest units, automatic transfers only
+}
+
+/**
+ * Waiting for the Circle attestation started
+ */
+export interface AttestationWaitEvent {
+  type: 'attestation-wait';
+  sourceTx: string;
+  timeoutMs: number;
+}
+
+/**
+ * The Circle attestation was received
+ */
+export interface AttestationReceivedEvent {
+  type: 'attestation-received';
+  sourceTx: string;
+  attestationId: string;
+}
+
+/**
+ * Waiting for the relayer to deliver an automatic transfer
+ */
+export interface RelayWaitEvent {
+  type: 'relay-wait';
+  sourceTx: string;
+  elapsedMs: number;
+}
+
+/**
+ * The mint transaction was sent on the destination chain
+ */
+export interface DestinationSentEvent {
+  type: 'destination-sent';
+  chain: string;
+  txHash: string;
+}
+
+/**
+ * The transfer is complete (USDC delivered)
+ */
+export interface CompletedEvent {
+  type: 'completed';
+  receipt: CctpTransferReceipt;
+  alreadyCompleted: boolean; // true if the mint had already happened and nothing was sent
+}
+
+/**
+ * A stage failed
+ */
+export interface FailedEvent {
+  type: 'failed';
+  stage: TransferStage; // Stage that was being attempted
+  code: FluidErrorCode;
+  retryable: boolean;
+  error: string;
+}
+
+/**
+ * Event payloads, without the fields common to every event
+ */
+export type TransferProgressPayload =
+  | AuthorizedEvent
+  | FundsPulledEvent
+  | RecipientCreatedEvent
+  | NonceWaitEvent
+  | NonceReplacedEvent
+  | SourceSentEvent
+  | AttestationWaitEvent
+  | AttestationReceivedEvent
+  | RelayWaitEvent
+  | DestinationSentEvent
+  | CompletedEvent
+  | FailedEvent;
+
+/**
+ * Progress event passed to onProgress listeners
+ */
+export type TransferProgressEvent = TransferProgressPayload & {
+  transferId?: string;
+  timestamp: string; // ISO timestamp
+};
+
+export type TransferProgressEventType = TransferProgressEvent['type'];
+
+/**
+ * Listener for progress events (e.g. `(event) => emitter.emit(event.type, event)`)
+ */
+export type ProgressListener = (event: TransferProgressEvent) => void;
+
+/**
+ * Bind a listener to a transfer, returning a function that emits its events
+ *
+ * Listener errors are logged and swallowed so they can never break a transfer.
+ */
+export function createProgressEmitter(
+  listener: ProgressListener | undefined,
+  transferId: string | undefined,
+  logger: Logger
+): (payload: TransferProgressPayload) => void {
+  return (payload) => {
+    if (!listener) {
+      return;
+    }
+    try {
+      listener({ ...payload, transferId, timestamp: new Date().toISOString() });
+    } catch (error: any) {
+      logger.warn(`Progress listener threw on "${payload.type}" event:`, error?.message ?? error);
+    }
+  };
+}
@@ -5,13 +5,21 @@
  * In production, this would be done on the frontend/client side with the user's wallet.
  * 
  * Usage:
- *   npx tsx src/generatePermit2.ts --from <user_private_key> --amount <amount> --token <token_address> --spender <spender_address>
+ *   npx tsx src/generatePermit2.ts --from <user_private_key> --amount <amount> --token <token_address> --spender <spender_address> [--recipient <aptos_address>]
  */
 
 import { ethers } from "ethers";
-import { generatePermit2Signature, createPermit, getPermit2Address } from "./permit2";
+import {
+  generatePermit2Signature,
+  createPermit,
+  createCctpTransferWitness,
+  serializePermit2Permit,
+  getPermit2Address,
+} from "./permit2";
+import { findUnusedPermit2Nonce, isPermit2NonceUsed } from "./permit2Contract";
 import { getEvmSigner } from "./helper";
 import { config } from "./config";
+import { getEvmChainById, APTOS_CHAINS } from "./chains";
 import dotenv from "dotenv";
 
 dotenv.config({ path: ".env.local" });
@@ -24,12 +32,14 @@ interface Permit2GenerationArgs {
   spenderAddress?: string;
   nonce?: string;
   deadlineHours?: number;
+  recipient?: string;
+  maxFee?: string;
 }
 
 async function generateSignature(args: Permit2GenerationArgs) {
   try {
     // Get chain ID
-    const provider = new ethers.JsonRpcProvider(config.baseRpcUrl);
+    const provider = new ethers.JsonRpcProvider(config.evmRpcUrl);
     const network = await provider.getNetwork();
     const chainId = Number(network.chainId);
     
@@ -46,19 +56,25 @@ async function generateSignature(args: Permit2GenerationArgs) {
     
     console.log(`User Address: ${userAddress}`);
     
-    // Get token address (default to USDC if not provided)
-    // Note: You may need to update this with the actual USDC address on Base Sepolia
-    const tokenAddress = args.tokenAddress || "0x036CbD53842c5426634e7929541eC2318f3dCF7e"; // Base Sepolia USDC (verify this)
+    // Get token address (default to the chain's USDC from the chain registry)
+    const chain = getEvmChainById(chainId);
+    if (!args.tokenAddress && !chain) {
+      throw new Error(`Chain ID ${chainId} is not in the chain registry. Pass --token explicitly.`);
+    }
+    const tokenAddress = args.tokenAddress || chain!.usdcAddress;
     
-    // Get spender address (Circle TokenMessenger or Permit2 contract)
-    // For Permit2, we authorize Permit2 contract, which then authorizes the TokenMessenger
-    const spenderAddress = args.spenderAddress || getPermit2Address();
+    // Get spender address: the sponsor wallet submits the permit to Permit2 and pays the gas
+    const spenderAddress = args.spenderAddress ||
+      getEvmSigner(config.evmRpcUrl, config.baseSponsorPrivateKey).address;
     
     // Parse amount
     const amountBigInt = BigInt(Math.floor(parseFloat(args.amount) * 1_000_000)); // USDC has 6 decimals
     
-    // Get nonce (0 for testing, or fetch from Permit2 contract in production)
-    const nonce = args.nonce ? BigInt(args.nonce) : 0n;
+    // Get nonce: Permit2 nonces are unordered, so any unused value works (default: lowest unused on-chain nonce)
+    const nonce = args.nonce ? BigInt(args.nonce) : await findUnusedPermit2Nonce(provider, userAddress);
+    if (args.nonce && await isPermit2NonceUsed(provider, userAddress, nonce)) {
+      throw new Error(`Permit2 nonce ${nonce} has already been used by ${userAddress}`);
+    }
     
     // Set deadline (default 1 hour from now)
     const deadlineHours = args.deadlineHours || 1;
@@ -69,6 +85,15 @@ async function generateSignature(args: Permit2GenerationArgs) {
     console.log(`Nonce: ${nonce.toString()}`);
     console.log(`Deadline: ${deadlineHours} hour(s) from now\n`);
     
+    // Bind the permit to the Aptos recipient if one is given
+    const witness = args.recipient
+      ? createCctpTransferWitness(
+          args.recipient,
+          APTOS_CHAINS[chain?.network ?? "Testnet"].circleDomain,
+          BigInt(Math.floor(parseFloat(args.maxFee ?? "0") * 1_000_000))
+        )
+      : undefined;
+
     // Create permit
     const permit = createPermit(
       userAddress,
@@ -76,7 +101,8 @@ async function generateSignature(args: Permit2GenerationArgs) {
       tokenAddress,
       amountBigInt,
       nonce,
-      deadlineHours * 3600
+      deadlineHours * 3600,
+      witness
     );
     
     console.log(`Permit Details:`);
@@ -85,7 +111,12 @@ async function generateSignature(args: Permit2GenerationArgs) {
     console.log(`  Token: ${permit.token}`);
     console.log(`  Value: ${permit.value.toString()}`);
     console.log(`  Nonce: ${permit.nonce.toString()}`);
-    console.log(`  Deadline: ${new Date(Number(permit.deadline) * 1000).toISOString()}\n`);
+    console.log(`  Deadline: ${new Date(Number(permit.deadline) * 1000).toISOString()}`);
+    if (permit.witness) {
+      console.log(`  Witness recipient: ${permit.witness.recipient} (CCTP domain ${permit.witness.destinationDomain})`);
+      console.log(`  Witness max fee: ${permit.witness.maxFee.toString()}`);
+    }
+    console.log();
     
     // Generate signature
     console.log(`Signing Permit2 authorization...`);
@@ -96,17 +127,11 @@ async function generateSignature(args: Permit2GenerationArgs) {
     console.log(`\n📋 Use this signature in your transfer command:\n`);
     console.log(`Signature: ${signature}\n`);
     console.log(`Permit Data (JSON):`);
-    console.log(JSON.stringify({
-      owner: permit.owner,
-      spender: permit.spender,
-      token: permit.token,
-      value: permit.value.toString(),
-      nonce: permit.nonce.toString(),
-      deadline: permit.deadline.toString(),
-    }, null, 2));
+    const permitJson = JSON.stringify(serializePermit2Permit(permit));
+    console.log(JSON.stringify(JSON.parse(permitJson), null, 2));
     console.log(`\n📝 Example CLI command:`);
-    console.log(`npx tsx src/runCctp.ts --amount ${args.amount} --from ${userAddress} --sig "${signature}"`);
-    console.log(`\nNote: In production, you'll need to pass the permit data separately or encode it.`);
+    console.log(`npx tsx src/runCctp.ts --amount ${args.amount} --from ${userAddress} --sig "${signature}" --permit-data '${permitJson}'${args.recipient ? ` --to ${args.recipient}` : ""}`);
+    console.log(`\nNote: The wallet must have approved the Permit2 contract (${getPermit2Address()}) on USDC once.`);
     console.log(`═══════════════════════════════════════════════\n`);
     
   } catch (error: any) {
@@ -124,6 +149,8 @@ function parseArgs(): Permit2GenerationArgs | null {
   let spenderAddress: string | undefined;
   let nonce: string | undefined;
   let deadlineHours: number | undefined;
+  let recipient: string | undefined;
+  let maxFee: string | undefined;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--from" && i + 1 < args.length) {
@@ -144,6 +171,12 @@ function parseArgs(): Permit2GenerationArgs | null {
     } else if (args[i] === "--deadline-hours" && i + 1 < args.length) {
       deadlineHours = parseInt(args[i + 1], 10);
       i++;
+    } else if (args[i] === "--recipient" && i + 1 < args.length) {
+      recipient = args[i + 1];
+      i++;
+    } else if (args[i] === "--max-fee" && i + 1 < args.length) {
+      maxFee = args[i + 1];
+      i++;
     } else if (args[i] === "--help" || args[i] === "-h") {
       console.log(`
 Permit2 Signature Generation Helper
@@ -156,14 +189,17 @@ Required:
   --amount <amount>         Amount of USDC to authorize (e.g., "1.0")
 
 Optional:
-  --token <address>         Token contract address (default: Base Sepolia USDC)
-  --spender <address>       Spender contract address (default: Permit2 contract)
-  --nonce <number>          Nonce for the permit (default: 0)
+  --token <address>         Token contract address (default: USDC on the RPC's chain)
+  --spender <address>       Address that submits the permit (default: sponsor wallet from BASE_SPONSOR_PRIVATE_KEY)
+  --nonce <number>          Unused Permit2 nonce for the permit (default: lowest unused nonce on-chain)
   --deadline-hours <hours>  Hours until signature expires (default: 1)
+  --recipient <address>     Aptos recipient the permit is bound to (signs a PermitWitnessTransferFrom)
+  --max-fee <amount>        Most USDC the relayer fee may take, with --recipient (default: 0)
 
 Examples:
   npx tsx src/generatePermit2.ts --from 0x... --amount 5.0
   npx tsx src/generatePermit2.ts --from 0x... --amount 1.0 --deadline-hours 24
+  npx tsx src/generatePermit2.ts --from 0x... --amount 1.0 --recipient 0x<aptos_address>
       `);
       process.exit(0);
     }
@@ -182,6 +218,8 @@ Examples:
     spenderAddress,
     nonce,
     deadlineHours,
+    recipient,
+    maxFee,
   };
 }
 
@@ -1,6 +1,6 @@
 import { ethers } from 'ethers';
 import { EvmSignerResult, AptosSignerResult } from './types';
-import { getEvmSignerForSigner } from '@wormhole-foundation/sdk-evm';
+import { getEvmSignerForSigner, EvmNativeSigner, type EvmChains } from '@wormhole-foundation/sdk-evm';
 import { AptosSigner } from '@wormhole-foundation/sdk-aptos';
 import type { Signer, Network } from '@wormhole-foundation/sdk-connect';
 
@@ -100,13 +100,19 @@ export async function getAptosSigner(rpcUrl: string, privateKey: string): Promis
 }
 
 /**
- * Wraps an EVM signer (ethers.Wallet) into a Wormhole SDK Signer
- * @param wallet - ethers.Wallet instance (must have provider attached)
+ * Wraps an EVM signer into a Wormhole SDK Signer
+ * @param wallet - ethers Signer (must have provider attached)
+ * @param chain - Optional chain name; when given, the signer's own nonces are used
+ *   (e.g. a NonceManager signer) instead of the SDK's nonce tracking
  * @returns SDK Signer wrapper
  */
 export async function toEvmSdkSigner<N extends Network>(
-  wallet: ethers.Wallet
+  wallet: ethers.Signer,
+  chain?: EvmChains
 ): Promise<Signer<N, any>> {
+  if (chain) {
+    return new EvmNativeSigner<N>(chain, await wallet.getAddress(), wallet);
+  }
   // getEvmSignerForSigner only needs the signer, provider is attached to the wallet
   return await getEvmSignerForSigner(wallet);
 }
@@ -0,0 +1,269 @@
+/**
+ * JSON Schemas of the HTTP API
+ *
+ * Request bodies of the HTTP server are the SDK request types in JSON form:
+ * CctpTransferRequest without its callbacks and stores, with the Permit2
+ * permit's uint256 fields as decimal strings (see QueuedTransferRequest).
+ * The schemas are plain JSON Schema (draft-07) objects so they can be served
+ * to API clients as-is, and `validateJsonSchema` checks bodies against them.
+ */
+
+/**
+ * The subset of JSON Schema used by the API schemas
+ */
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'boolean' | 'integer' | 'number' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  enum?: readonly string[];
+  pattern?: string;
+  minimum?: number;
+  items?: JsonSchema;
+}
+
+const EVM_ADDRESS_PATTERN = "^0x[0-9a-fA-F]{40}$";
+const USDC_AMOUNT_PATTERN = "^[0-9]+(\\.[0-9]{1,6})?$";
+const APT_AMOUNT_PATTERN = "^[0-9]+(\\.[0-9]{1,8})?$";
+const UINT256_PATTERN = "^[0-9]+$";
+
+/**
+ * Permit2Permit with its uint256 fields as decimal strings (SerializedPermit2Permit)
+ */
+export const PERMIT2_PERMIT_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Permit2 PermitTransferFrom signed by the user",
+  properties: {
+    owner: { type: "string", pattern: EVM_ADDRESS_PATTERN },
+    spender: { type: "string", pattern: EVM_ADDRESS_PATTERN, description: "Sponsor wallet that submits the permit" },
+    token: { type: "string", pattern: EVM_ADDRESS_PATTERN },
+    value: { type: "string", pattern: UINT256_PATTERN, description: "USDC smallest units" },
+    nonce: { type: "string", pattern: UINT256_PATTERN },
+    deadline: { type: "string", pattern: UINT256_PATTERN, description: "Unix timestamp in seconds" },
+    witness: {
+      type: "object",
+      description: "CctpTransferWitness the permit is bound to (signed as PermitWitnessTransferFrom)",
+      properties: {
+        recipient: { type: "string", pattern: "^0x[0-9a-fA-F]{64}$", description: "Recipient as bytes32" },
+        destinationDomain: { type: "integer", minimum: 0, description: "Circle CCTP domain of the destination chain" },
+        maxFee: { type: "string", pattern: UINT256_PATTERN, description: "USDC smallest units" },
+      },
+      required: ["recipient", "destinationDomain", "maxFee"],
+      additionalProperties: false,
+    },
+  },
+  required: ["owner", "spender", "token", "value", "nonce", "deadline"],
+  additionalProperties: false,
+};
+
+/**
+ * Permit2AllowanceBatch with its amounts and deadline as decimal strings (SerializedPermit2AllowanceBatch)
+ */
+export const PERMIT2_PERMIT_BATCH_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Permit2 PermitBatch signed by the user, shared by several transfers",
+  properties: {
+    owner: { type: "string", pattern: EVM_ADDRESS_PATTERN },
+    spender: { type: "string", pattern: EVM_ADDRESS_PATTERN, description: "Sponsor wallet that draws from the allowances" },
+    details: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          token: { type: "string", pattern: EVM_ADDRESS_PATTERN },
+          amount: { type: "string", pattern: UINT256_PATTERN, description: "Allowance in smallest units" },
+          expiration: { type: "integer", minimum: 0, description: "Unix timestamp in seconds" },
+          nonce: { type: "integer", minimum: 0, description: "AllowanceTransfer nonce" },
+        },
+        required: ["token", "amount", "expiration", "nonce"],
+        additionalProperties: false,
+      },
+    },
+    sigDeadline: { type: "string", pattern: UINT256_PATTERN, description: "Unix timestamp in seconds" },
+  },
+  required: ["owner", "spender", "details", "sigDeadline"],
+  additionalProperties: false,
+};
+
+/**
+ * Eip2612Permit with its uint256 fields as decimal strings (SerializedEip2612Permit)
+ */
+export const EIP2612_PERMIT_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "EIP-2612 Permit of the USDC token signed by the user",
+  properties: {
+    owner: { type: "string", pattern: EVM_ADDRESS_PATTERN },
+    spender: { type: "string", pattern: EVM_ADDRESS_PATTERN, description: "Sponsor wallet that submits the permit" },
+    token: { type: "string", pattern: EVM_ADDRESS_PATTERN },
+    value: { type: "string", pattern: UINT256_PATTERN, description: "USDC smallest units" },
+    nonce: { type: "string", pattern: UINT256_PATTERN, description: "Owner's token nonce" },
+    deadline: { type: "string", pattern: UINT256_PATTERN, description: "Unix timestamp in seconds" },
+  },
+  required: ["owner", "spender", "token", "value", "nonce", "deadline"],
+  additionalProperties: false,
+};
+
+/**
+ * TransferAuthorization of a request (SerializedTransferAuthorization)
+ */
+export const TRANSFER_AUTHORIZATION_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "How the signature authorizes the sponsor (default: permit2)",
+  properties: {
+    kind: { type: "string", enum: ["permit2", "eip2612"] },
+    permit: EIP2612_PERMIT_SCHEMA,
+  },
+  required: ["kind"],
+  additionalProperties: false,
+};
+
+/**
+ * WebhookEndpoint of a request's `webhooks`
+ */
+export const WEBHOOK_ENDPOINT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    url: { type: "string", pattern: "^https?://" },
+    secret: { type: "string", description: "Shared secret of the HMAC-SHA256 signature" },
+    events: {
+      type: "array",
+      items: { type: "string", enum: ["transfer.source_confirmed", "transfer.attested", "transfer.completed", "transfer.failed"] },
+    },
+  },
+  required: ["url", "secret"],
+  additionalProperties: false,
+};
+
+const TRANSFER_REQUEST_PROPERTIES: Record<string, JsonSchema> = {
+  amount: { type: "string", pattern: USDC_AMOUNT_PATTERN, description: "Amount in USDC (e.g., \"1.0\")" },
+  automatic: { type: "boolean", description: "Relay through the Wormhole CCTP relayer" },
+  nativeGas: { type: "string", pattern: USDC_AMOUNT_PATTERN, description: "USDC to swap for destination gas (automatic only)" },
+  direction: { type: "string", enum: ["base-to-aptos", "aptos-to-base"] },
+  destAddress: { type: "string", description: "Recipient on the destination chain (defaults to the sponsor wallet)" },
+  createRecipientAccount: { type: "boolean", description: "Let the sponsor create the Aptos recipient account" },
+  recipientAptFunding: { type: "string", pattern: APT_AMOUNT_PATTERN, description: "APT sent to a newly created recipient account" },
+  fromAddress: { type: "string", pattern: EVM_ADDRESS_PATTERN, description: "User wallet the USDC is pulled from" },
+  signature: { type: "string", description: "User authorization signature" },
+  permitData: PERMIT2_PERMIT_SCHEMA,
+  permitBatch: PERMIT2_PERMIT_BATCH_SCHEMA,
+  authorization: TRANSFER_AUTHORIZATION_SCHEMA,
+};
+
+/**
+ * Body of POST /transfers
+ */
+export const TRANSFER_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "CctpTransferRequest",
+  properties: {
+    ...TRANSFER_REQUEST_PROPERTIES,
+    transferId: { type: "string", description: "ID of the transfer (generated if not provided)" },
+    idempotencyKey: { type: "string", description: "Run at most one transfer per key (also read from the Idempotency-Key header)" },
+    webhooks: {
+      type: "array",
+      description: "Endpoints that receive the signed lifecycle events of this transfer",
+      items: WEBHOOK_ENDPOINT_SCHEMA,
+    },
+  },
+  required: ["amount"],
+  additionalProperties: false,
+};
+
+/**
+ * Body of POST /quotes (the request that would be sent to POST /transfers)
+ */
+export const QUOTE_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "CctpTransferRequest to quote",
+  properties: TRANSFER_REQUEST_PROPERTIES,
+  required: ["amount"],
+  additionalProperties: false,
+};
+
+/**
+ * Body of POST /permits/verify
+ */
+export const PERMIT_VERIFY_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    permit: PERMIT2_PERMIT_SCHEMA,
+    signature: { type: "string", pattern: "^0x[0-9a-fA-F]+$" },
+    chainId: { type: "integer", minimum: 1, description: "Defaults to the configured EVM chain" },
+  },
+  required: ["permit", "signature"],
+  additionalProperties: false,
+};
+
+/**
+ * Check a value against a schema
+ * @param schema - Schema to check against
+ * @param value - Parsed JSON value
+ * @param path - Name of the value in error messages
+ * @returns Validation errors (empty if the value is valid)
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path: string = "body"): string[] {
+  if (value === undefined || value === null) {
+    return [`${path} is required`];
+  }
+
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, field] of Object.entries(record)) {
+        const property = schema.properties?.[key];
+        if (!property) {
+          if (schema.additionalProperties === false) {
+            errors.push(`${path}.${key} is not allowed`);
+          }
+        } else if (field !== undefined) {
+          errors.push(...validateJsonSchema(property, field, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      return schema.items
+        ? value.flatMap((item, index) => validateJsonSchema(schema.items!, item, `${path}[${index}]`))
+        : [];
+    }
+    case "string": {
+      if (typeof value !== "string") {
+        return [`${path} must be a string`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of: ${schema.enum.join(", ")}`];
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return [`${path} must match ${schema.pattern}`];
+      }
+      return [];
+    }
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path} must be a boolean`];
+    case "integer":
+    case "number": {
+      if (typeof value !== "number" || (schema.type === "integer" && !Number.isInteger(value))) {
+        return [`${path} must be ${schema.type === "integer" ? "an integer" : "a number"}`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${path} must be at least ${schema.minimum}`];
+      }
+      return [];
+    }
+    default:
+      return [];
+  }
+}
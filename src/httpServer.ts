@@ -0,0 +1,466 @@
+/**
+ * Embeddable HTTP API
+ *
+ * Serves transfers, quotes and Permit2 checks over HTTP with only Node's http
+ * module. `createTransferHandler` returns a plain (req, res) handler that can be
+ * mounted in an existing server (Express, Fastify's raw handler, ...), and
+ * `createTransferServer` wraps it in an http.Server.
+ *
+ * Routes:
+ * - POST /transfers: start a transfer, returns 202 with its id right away
+ *   (200 with the original id for a repeated Idempotency-Key)
+ * - GET /transfers/:id: status and tx hashes of a transfer
+ * - POST /quotes: fee and ETA quote of a transfer
+ * - POST /permits/verify: check a Permit2 signature
+ * - GET /schemas: JSON Schemas of the request bodies
+ *
+ * Every route requires an API key (`Authorization: Bearer <key>`) or passes
+ * the `authenticate` hook. The caller (its API key, or the ID the hook returns)
+ * is the transfer's `requester`, so a PermitBatch only serves the caller that
+ * first drew from it. Transfers the sponsor would fund (no user wallet,
+ * the "dummy" signature, from Aptos, or creating the recipient account) are rejected unless the server opts in
+ * with `allowSponsorFunded`. A request's own `webhooks` are only accepted for
+ * URLs in `webhookUrlAllowList`.
+ */
+
+import http from "http";
+import { ethers } from "ethers";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { transferUsdcViaCctp, CctpTransferRequest } from "./cctpTransfer";
+import { config as defaultConfig, Config, createConfig } from "./config";
+import { createTransferContext, TransferContext } from "./context";
+import { FluidError, toFluidError } from "./errors";
+import { ProgressListener } from "./events";
+import { Logger, silentLogger } from "./logger";
+import { verifyPermit2Signature, hashPermit2Permit, parsePermit2Permit, SerializedPermit2Permit } from "./permit2";
+import { isPermit2NonceUsed } from "./permit2Contract";
+import { EVM_CHAINS } from "./chains";
+import { quoteCctpTransfer } from "./quote";
+import {
+  TransferQueue,
+  TransferJob,
+  QueuedTransferRequest,
+  fromQueuedTransferRequest,
+} from "./jobQueue";
+import {
+  TransferStore,
+  TransferRecord,
+  InMemoryTransferStore,
+  recordTransferRequest,
+  recordTransferFailure,
+} from "./transferStore";
+import {
+  validateJsonSchema,
+  JsonSchema,
+  TRANSFER_REQUEST_SCHEMA,
+  QUOTE_REQUEST_SCHEMA,
+  PERMIT_VERIFY_REQUEST_SCHEMA,
+} from "./httpSchemas";
+import {
+  IdempotencyStore,
+  IdempotencyRecord,
+  getDefaultIdempotencyStore,
+  claimIdempotencyKey,
+  settleIdempotencyKey,
+  idempotentResult,
+} from "./idempotency";
+import { TransferDirection, TransferResult } from "./types";
+import { SignatureReplayStore, getDefaultSignatureReplayStore } from "./signatureReplay";
+import { isAllowedWebhookUrl } from "./webhooks";
+
+/**
+ * Default limit of a request body
+ */
+export const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+
+export interface TransferServerOptions {
+  store?: TransferStore; // Optional: Where transfers are recorded and read back by GET /transfers/:id (default: in memory)
+  queue?: TransferQueue; // Optional: Enqueue transfers for a worker instead of running them in this process
+  config?: Partial<Config>; // Optional: Override default config (uses env vars if not provided)
+  context?: TransferContext; // Optional: Reuse an already-initialized context (requests of other directions get their own)
+  onProgress?: ProgressListener; // Optional: Receive the progress events of every transfer run by the server
+  logger?: Logger; // Optional: Logger for diagnostics (silent by default)
+  idempotencyStore?: IdempotencyStore; // Optional: Where idempotency keys are kept (default: in memory, shared by the process)
+  signatureStore?: SignatureReplayStore; // Optional: Where consumed signatures are recorded (default: in memory, shared by the process)
+  maxBodyBytes?: number; // Optional: Largest accepted request body (default: 64 KiB)
+  apiKeys?: string[]; // API keys accepted as `Authorization: Bearer <key>` (required unless `authenticate` is given)
+  authenticate?: (req: http.IncomingMessage) => boolean | string | Promise<boolean | string>; // Optional: Custom credentials check, instead of apiKeys; return the caller's ID (or true) to accept the request
+  allowSponsorFunded?: boolean; // Optional: Accept transfers funded by the sponsor wallet (default: false)
+  webhookUrlAllowList?: string[]; // Optional: URL prefixes a request's `webhooks` may post to (default: per-request webhooks are rejected)
+}
+
+/**
+ * Body of GET /transfers/:id
+ */
+export interface TransferStatusResponse {
+  id: string;
+  status: TransferRecord["status"] | TransferJob["status"];
+  sourceChain?: string;
+  destinationChain?: string;
+  amount?: string; // USDC smallest units, once known
+  requestedAmount?: string; // As requested, in USDC
+  recipientAddress?: string;
+  sourceTx?: string;
+  attestationId?: string;
+  destinationTx?: string;
+  error?: string;
+  errorCode?: string;
+  job?: Pick<TransferJob, "status" | "stage" | "attempts" | "nextRunAt">; // Queue state, when the server uses a queue
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Error returned by a route
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code: string,
+    readonly details?: string[]
+  ) {
+    super(message);
+  }
+}
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>;
+
+/**
+ * Create a request handler serving the transfer API
+ */
+export function createTransferHandler(options: TransferServerOptions): Handler {
+  const apiKeys = options.apiKeys ?? [];
+  if (!options.authenticate && apiKeys.length === 0) {
+    throw new Error(`The transfer API needs apiKeys or an authenticate hook`);
+  }
+  const store = options.store ?? new InMemoryTransferStore();
+  const logger = options.logger ?? silentLogger;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const idempotencyStore = options.idempotencyStore ?? getDefaultIdempotencyStore();
+  const signatureStore = options.signatureStore ?? getDefaultSignatureReplayStore();
+  const contexts = new Map<TransferDirection, Promise<TransferContext>>();
+  if (options.context) {
+    contexts.set(options.context.direction, Promise.resolve(options.context));
+  }
+
+  const contextFor = (direction: TransferDirection): Promise<TransferContext> => {
+    let context = contexts.get(direction);
+    if (!context) {
+      context = createTransferContext(options.config, logger, direction);
+      // Don't cache a failed initialization; the next request tries again
+      context.catch(() => contexts.delete(direction));
+      contexts.set(direction, context);
+    }
+    return context;
+  };
+
+  // The caller's ID (undefined for a hook that only returns true), or false if it isn't authenticated
+  const authenticatedCaller = async (req: http.IncomingMessage): Promise<string | undefined | false> => {
+    if (options.authenticate) {
+      const caller = await options.authenticate(req);
+      return caller === true ? undefined : caller || false;
+    }
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+    const key = match && apiKeys.find((candidate) => secretsEqual(candidate, match[1]));
+    return key ? `api-key:${createHash("sha256").update(key).digest("hex").slice(0, 16)}` : false;
+  };
+
+  const submitTransfer = async (body: QueuedTransferRequest & { transferId?: string }, requester: string | undefined) => {
+    const { transferId, ...fields } = body;
+    const queued: QueuedTransferRequest = { ...fields, requester };
+    const id = transferId ?? randomUUID();
+
+    const webhookUrls = queued.webhooks?.map((endpoint) => endpoint.url) ?? [];
+    if (webhookUrls.length > 0 && !options.webhookUrlAllowList) {
+      throw new HttpError(403, `Per-request webhooks are not accepted by this server`, "FORBIDDEN");
+    }
+    const disallowed = webhookUrls.find((url) => !isAllowedWebhookUrl(url, options.webhookUrlAllowList!));
+    if (disallowed) {
+      throw new HttpError(403, `Webhook URL ${disallowed} is not in the server's allow-list`, "FORBIDDEN");
+    }
+
+    if (!options.allowSponsorFunded && isSponsorFunded(queued)) {
+      throw new HttpError(
+        403,
+        `Transfers funded by the sponsor wallet (without fromAddress and a real signature, from Aptos, or creating the recipient account) are not accepted by this server`,
+        "FORBIDDEN"
+      );
+    }
+
+    if (options.queue) {
+      const existing = queued.idempotencyKey ? await options.queue.findByIdempotencyKey(queued.idempotencyKey) : undefined;
+      if (!existing && (await options.queue.get(id))) {
+        throw new HttpError(409, `Transfer ${id} already exists`, "CONFLICT");
+      }
+      // Returns the key's job for a repeated idempotency key (or throws IDEMPOTENCY_CONFLICT)
+      const job = await options.queue.enqueue(fromQueuedTransferRequest(queued), { jobId: id });
+      return existing
+        ? { status: 200, body: { id: job.id, status: job.status, idempotentReplay: true } }
+        : { status: 202, body: { id, status: job.status } };
+    }
+
+    const request: CctpTransferRequest = { ...fromQueuedTransferRequest(queued), transferId: id };
+    let claim: IdempotencyRecord | undefined;
+    if (request.idempotencyKey) {
+      const { claimed, record } = await claimIdempotencyKey(idempotencyStore, request.idempotencyKey, request, id);
+      if (!claimed) {
+        const repeat = idempotentResult(record, request);
+        if (repeat.errorCode === 'IDEMPOTENCY_CONFLICT') {
+          throw new HttpError(422, repeat.error!, repeat.errorCode);
+        }
+        const existing = await store.get(record.transferId);
+        return { status: 200, body: { id: record.transferId, status: existing?.status ?? record.status, idempotentReplay: true } };
+      }
+      claim = record;
+    }
+    if (await store.get(id)) {
+      if (claim) {
+        await idempotencyStore.delete(claim.key);
+      }
+      throw new HttpError(409, `Transfer ${id} already exists`, "CONFLICT");
+    }
+
+    const record = await recordTransferRequest(store, request, id);
+    runTransfer(request, claim).catch((error) => logger.error(`Transfer ${id} could not be recorded:`, error));
+    return { status: 202, body: { id, status: record.status } };
+  };
+
+  // Runs in the background; the stages record their progress in the store
+  const runTransfer = async (request: CctpTransferRequest, claim?: IdempotencyRecord) => {
+    const id = request.transferId!;
+    let result: TransferResult;
+    try {
+      const context = await contextFor(request.direction ?? "base-to-aptos");
+      // The key was claimed on submission; the transfer itself must not claim it again
+      result = await transferUsdcViaCctp(
+        { ...request, idempotencyKey: undefined, store, signatureStore, onProgress: options.onProgress, logger },
+        context
+      );
+    } catch (error) {
+      const fluidError = toFluidError(error);
+      result = {
+        success: false,
+        transferId: id,
+        sourceTx: fluidError.sourceTx,
+        permitTx: fluidError.permitTx,
+        error: fluidError.message,
+        errorCode: fluidError.code,
+        failedStage: fluidError.stage,
+        retryable: fluidError.retryable,
+      };
+    }
+    if (claim) {
+      await settleIdempotencyKey(idempotencyStore, claim, result);
+    }
+    // Failures before the first stage (e.g. the context) aren't recorded by the stages
+    if (!result.success && (await store.get(id))?.status !== "failed") {
+      await recordTransferFailure(store, id, result.error ?? "Transfer failed", result.errorCode);
+    }
+  };
+
+  const getTransfer = async (id: string): Promise<TransferStatusResponse> => {
+    const [record, job] = await Promise.all([store.get(id), options.queue?.get(id)]);
+    if (!record && !job) {
+      throw new HttpError(404, `Transfer ${id} not found`, "NOT_FOUND");
+    }
+    return {
+      id,
+      status: transferStatus(record, job),
+      sourceChain: record?.sourceChain ?? job?.receipt?.sourceChain,
+      destinationChain: record?.destinationChain ?? job?.receipt?.destinationChain,
+      amount: record?.amount ?? job?.receipt?.amount,
+      requestedAmount: record?.requestedAmount ?? job?.request.amount,
+      recipientAddress: record?.recipientAddress ?? job?.receipt?.recipientAddress ?? job?.request.destAddress,
+      sourceTx: record?.sourceTx ?? job?.sourceTx,
+      attestationId: record?.attestationId ?? job?.receipt?.attestationId,
+      destinationTx: record?.destinationTx ?? job?.receipt?.destinationTx,
+      error: job?.lastError ?? record?.error,
+      errorCode: job?.lastErrorCode ?? record?.errorCode,
+      job: job && { status: job.status, stage: job.stage, attempts: job.attempts, nextRunAt: job.nextRunAt },
+      createdAt: record?.createdAt ?? job!.createdAt,
+      updatedAt: [record?.updatedAt, job?.updatedAt].filter(Boolean).sort().pop()!,
+    };
+  };
+
+  const quote = async (body: QueuedTransferRequest) => {
+    const request = fromQueuedTransferRequest(body);
+    return quoteCctpTransfer(request, await contextFor(request.direction ?? "base-to-aptos"));
+  };
+
+  // Permit checks only read EVM state, so they don't need a full (Wormhole and Aptos) context
+  let evmProvider: ethers.Provider | undefined;
+  const configuredEvmChain = () => {
+    if (options.context) {
+      return { chainId: options.context.evmChain.chainId, provider: options.context.baseSigner.provider };
+    }
+    const transferConfig = options.config ? createConfig(options.config) : defaultConfig;
+    evmProvider ??= new ethers.JsonRpcProvider(transferConfig.evmRpcUrl);
+    return { chainId: EVM_CHAINS[transferConfig.sourceChain].chainId, provider: evmProvider };
+  };
+
+  const verifyPermit = async (body: { permit: SerializedPermit2Permit; signature: string; chainId?: number }) => {
+    const permit = parsePermit2Permit(body.permit);
+    const evmChain = configuredEvmChain();
+    const chainId = body.chainId ?? evmChain.chainId;
+    const digest = hashPermit2Permit(permit, chainId);
+    const expired = permit.deadline < BigInt(Math.floor(Date.now() / 1000));
+    // Smart account signatures and the nonce can only be checked on the configured chain
+    const onConfiguredChain = evmChain.chainId === chainId;
+    const validSignature = await verifyPermit2Signature(
+      permit, body.signature, chainId, permit.owner, logger, onConfiguredChain ? evmChain.provider : undefined
+    );
+    const nonceUsed = onConfiguredChain
+      ? await isPermit2NonceUsed(evmChain.provider, permit.owner, permit.nonce)
+      : undefined;
+    const replayed = !!(await signatureStore.get(digest));
+    return {
+      valid: validSignature && !expired && !nonceUsed && !replayed,
+      validSignature,
+      expired,
+      nonceUsed,
+      replayed,
+      owner: permit.owner,
+      chainId,
+    };
+  };
+
+  return async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const route = `${req.method} ${url.pathname.replace(/\/+$/, "")}`;
+      const transferMatch = /^GET \/transfers\/([^/]+)$/.exec(route);
+
+      const caller = await authenticatedCaller(req);
+      if (caller === false) {
+        throw new HttpError(401, `Missing or invalid API key`, "UNAUTHORIZED");
+      }
+
+      if (route === "POST /transfers") {
+        const body = await readJson(req, maxBodyBytes, TRANSFER_REQUEST_SCHEMA);
+        const idempotencyKey = req.headers["idempotency-key"];
+        if (typeof idempotencyKey === "string" && !body.idempotencyKey) {
+          body.idempotencyKey = idempotencyKey;
+        }
+        const submitted = await submitTransfer(body, caller);
+        sendJson(res, submitted.status, submitted.body);
+      } else if (transferMatch) {
+        sendJson(res, 200, await getTransfer(decodeURIComponent(transferMatch[1])));
+      } else if (route === "POST /quotes") {
+        sendJson(res, 200, await quote(await readJson(req, maxBodyBytes, QUOTE_REQUEST_SCHEMA)));
+      } else if (route === "POST /permits/verify") {
+        sendJson(res, 200, await verifyPermit(await readJson(req, maxBodyBytes, PERMIT_VERIFY_REQUEST_SCHEMA)));
+      } else if (route === "GET /schemas") {
+        sendJson(res, 200, {
+          transferRequest: TRANSFER_REQUEST_SCHEMA,
+          quoteRequest: QUOTE_REQUEST_SCHEMA,
+          permitVerifyRequest: PERMIT_VERIFY_REQUEST_SCHEMA,
+        });
+      } else {
+        throw new HttpError(404, `No route for ${req.method} ${url.pathname}`, "NOT_FOUND");
+      }
+    } catch (error) {
+      const httpError = toHttpError(error);
+      if (httpError.status >= 500) {
+        logger.error(`${req.method} ${req.url} failed [${httpError.code}]:`, httpError.message);
+      }
+      sendJson(res, httpError.status, { error: httpError.message, code: httpError.code, details: httpError.details });
+    }
+  };
+}
+
+/**
+ * Create an http.Server serving the transfer API (call `listen` to start it)
+ */
+export function createTransferServer(options: TransferServerOptions): http.Server {
+  const handler = createTransferHandler(options);
+  return http.createServer((req, res) => void handler(req, res));
+}
+
+/**
+ * Whether the sponsor wallet would pay for a transfer's USDC, or for a recipient account and its APT
+ */
+function isSponsorFunded(request: QueuedTransferRequest): boolean {
+  return (
+    request.direction === "aptos-to-base" ||
+    !request.fromAddress ||
+    !request.signature ||
+    request.signature === "dummy" ||
+    !!request.createRecipientAccount ||
+    !!request.recipientAptFunding
+  );
+}
+
+/**
+ * Compare two secrets in constant time
+ */
+function secretsEqual(expected: string, actual: string): boolean {
+  const hash = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(hash(expected), hash(actual));
+}
+
+/**
+ * Status of a transfer from its record and, with a queue, its job
+ *
+ * A job's record says how far its transfer got (initiated, attested), but
+ * only the job knows whether a failed stage will be retried.
+ */
+function transferStatus(record?: TransferRecord, job?: TransferJob): TransferStatusResponse["status"] {
+  if (!job) {
+    return record!.status;
+  }
+  if (job.status !== "completed" && job.status !== "dead" && (record?.status === "initiated" || record?.status === "attested")) {
+    return record.status;
+  }
+  return job.status;
+}
+
+/**
+ * Read, parse and validate a JSON body
+ */
+async function readJson(req: http.IncomingMessage, maxBytes: number, schema: JsonSchema): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`, "PAYLOAD_TOO_LARGE");
+    }
+    chunks.push(chunk);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, `Request body is not valid JSON`, "INVALID_REQUEST");
+  }
+
+  const errors = validateJsonSchema(schema, body);
+  if (errors.length > 0) {
+    throw new HttpError(400, `Invalid request body: ${errors[0]}`, "INVALID_REQUEST", errors);
+  }
+  return body;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body, (_key, value) => typeof value === "bigint" ? value.toString() : value);
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(json);
+}
+
+/**
+ * Map an error to its HTTP response: request errors are 4xx, retryable SDK errors 503
+ */
+function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+  const fluidError = error instanceof FluidError ? error : toFluidError(error);
+  const status =
+    fluidError.code === 'INVALID_REQUEST' ? 400 :
+    fluidError.code === 'UNKNOWN' ? 500 :
+    fluidError.retryable ? 503 :
+    422;
+  return new HttpError(status, fluidError.message, fluidError.code);
+}
@@ -0,0 +1,324 @@
+/**
+ * Idempotency Keys
+ *
+ * A transfer sent with an `idempotencyKey` runs at most once per key: a
+ * repeated request (e.g. a client retrying after a network blip) gets the
+ * original TransferResult, or the in-progress state while the first run is
+ * still going, instead of burning the user's USDC again. Keys live in a
+ * pluggable store and expire after a TTL.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { CctpTransferRequest } from "./cctpTransfer";
+import { serializeTransferAuthorization } from "./authorization";
+import { serializePermit2BatchPermit } from "./permit2";
+import { TransferResult } from "./types";
+import { APT_DECIMALS, USDC_DECIMALS, parseDecimalAmount } from "./amounts";
+
+/**
+ * Default time a key is remembered
+ */
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * State of an idempotency key
+ */
+export interface IdempotencyRecord {
+  key: string;
+  fingerprint: string; // Hash of the request the key was first used with
+  transferId: string;
+  status: 'in-progress' | 'completed' | 'failed';
+  result?: TransferResult; // Final result, once completed or failed
+  sourceTx?: string; // Burn transaction, as soon as it is sent
+  attestationId?: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp after which the key can be used again
+}
+
+/**
+ * Storage backend for idempotency keys
+ *
+ * Expired records must be treated as absent.
+ */
+export interface IdempotencyStore {
+  /** Get the record of a key, unless it expired */
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  /** Insert the record if its key is absent or expired; false if the key is taken */
+  create(record: IdempotencyRecord): Promise<boolean>;
+  /** Insert or replace a record */
+  put(record: IdempotencyRecord): Promise<void>;
+  /** Forget a key */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Keeps keys in memory (lost when the process exits)
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    const record = this.records.get(key);
+    if (record && isExpired(record)) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record ? structuredClone(record) : undefined;
+  }
+
+  async create(record: IdempotencyRecord): Promise<boolean> {
+    if (await this.get(record.key)) {
+      return false;
+    }
+    this.records.set(record.key, structuredClone(record));
+    return true;
+  }
+
+  async put(record: IdempotencyRecord): Promise<void> {
+    this.records.set(record.key, structuredClone(record));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Keeps keys in a JSON file (one object keyed by idempotency key)
+ *
+ * Writes are serialized within the process, so `create` is atomic for every
+ * caller sharing the store instance. Expired keys are dropped on every write.
+ */
+export class JsonFileIdempotencyStore implements IdempotencyStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    const record = (await this.load())[key];
+    return record && !isExpired(record) ? record : undefined;
+  }
+
+  async create(record: IdempotencyRecord): Promise<boolean> {
+    return this.write((records) => {
+      const existing = records[record.key];
+      if (existing && !isExpired(existing)) {
+        return false;
+      }
+      records[record.key] = record;
+      return true;
+    });
+  }
+
+  async put(record: IdempotencyRecord): Promise<void> {
+    await this.write((records) => {
+      records[record.key] = record;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.write((records) => {
+      delete records[key];
+    });
+  }
+
+  private write<T>(update: (records: Record<string, IdempotencyRecord>) => T): Promise<T> {
+    const write = this.writeQueue.then(async () => {
+      const records = await this.load();
+      const result = update(records);
+      for (const [key, record] of Object.entries(records)) {
+        if (isExpired(record)) {
+          delete records[key];
+        }
+      }
+      await this.save(records);
+      return result;
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.then(() => undefined, () => undefined);
+    return write;
+  }
+
+  private async load(): Promise<Record<string, IdempotencyRecord>> {
+    try {
+      const json = await fs.readFile(this.filePath, "utf8");
+      return JSON.parse(json) as Record<string, IdempotencyRecord>;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async save(records: Record<string, IdempotencyRecord>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(records, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+let defaultStore: IdempotencyStore | undefined;
+
+/**
+ * Store used by requests that have an idempotencyKey but no idempotencyStore
+ * (in memory, shared by the whole process)
+ */
+export function getDefaultIdempotencyStore(): IdempotencyStore {
+  defaultStore ??= new InMemoryIdempotencyStore();
+  return defaultStore;
+}
+
+/**
+ * Hash of the fields that define what a request does
+ *
+ * A key reused with a different amount, recipient (or recipient account funding),
+ * source or authorization is rejected rather than answered with the result of
+ * another transfer. Amounts are compared in smallest units.
+ */
+export function idempotencyFingerprint(request: CctpTransferRequest): string {
+  const permit = request.permitData;
+  const fields = [
+    smallestUnits(request.amount, USDC_DECIMALS),
+    request.direction ?? "base-to-aptos",
+    request.destAddress?.toLowerCase() ?? "",
+    request.fromAddress?.toLowerCase() ?? "",
+    request.signature ?? "",
+    !!request.automatic,
+    smallestUnits(request.nativeGas, USDC_DECIMALS),
+    !!request.createRecipientAccount,
+    smallestUnits(request.recipientAptFunding, APT_DECIMALS),
+    permit ? `${permit.owner}:${permit.spender}:${permit.token}:${permit.value}:${permit.nonce}:${permit.deadline}`.toLowerCase() : "",
+    permit?.witness ? `${permit.witness.recipient}:${permit.witness.destinationDomain}:${permit.witness.maxFee}`.toLowerCase() : "",
+    request.permitBatch ? JSON.stringify(serializePermit2BatchPermit(request.permitBatch)).toLowerCase() : "",
+    request.authorization ? JSON.stringify(serializeTransferAuthorization(request.authorization)).toLowerCase() : "",
+  ];
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+}
+
+/**
+ * Claim a key for a new transfer
+ * @returns `claimed: true` with the new record, or `claimed: false` with the
+ *   record of the transfer that already holds the key
+ */
+export async function claimIdempotencyKey(
+  store: IdempotencyStore,
+  key: string,
+  request: CctpTransferRequest,
+  transferId: string,
+  ttlMs: number = DEFAULT_IDEMPOTENCY_TTL_MS
+): Promise<{ claimed: boolean; record: IdempotencyRecord }> {
+  const now = new Date();
+  const record: IdempotencyRecord = {
+    key,
+    fingerprint: idempotencyFingerprint(request),
+    transferId,
+    status: "in-progress",
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+  };
+
+  // Another caller may claim the key between a failed create and the get; try again then
+  for (let attempt = 0; attempt < 3; attempt++) {
+    if (await store.create(record)) {
+      return { claimed: true, record };
+    }
+    const existing = await store.get(key);
+    if (existing) {
+      return { claimed: false, record: existing };
+    }
+  }
+  throw new Error(`Idempotency key ${key} could not be claimed`);
+}
+
+/**
+ * Record the progress of the transfer holding a key
+ */
+export async function updateIdempotencyKey(
+  store: IdempotencyStore,
+  record: IdempotencyRecord,
+  changes: Pick<IdempotencyRecord, 'sourceTx' | 'attestationId'>
+): Promise<void> {
+  Object.assign(record, changes, { updatedAt: new Date().toISOString() });
+  await store.put(record);
+}
+
+/**
+ * Record the final result of the transfer holding a key
+ *
+ * A retryable failure that happened before any transaction was signed
+ * releases the key, so the same request can be retried with it. Any other
+ * result is kept (as failed once the user's USDC was pulled, a burn may have
+ * been sent, or the failure isn't safe to retry) and returned to every repeat
+ * of the request until the key expires.
+ */
+export async function settleIdempotencyKey(
+  store: IdempotencyStore,
+  record: IdempotencyRecord,
+  result: TransferResult
+): Promise<void> {
+  // e.g. an Aptos burn that failed non-retryably may still have been submitted
+  if (!result.success && !result.sourceTx && !result.permitTx && result.retryable !== false) {
+    await store.delete(record.key);
+    return;
+  }
+  // Results are kept as JSON; the receipt is enough to resume the transfer
+  const { preflight, ...stored } = result;
+  Object.assign(record, {
+    status: result.success ? "completed" : "failed",
+    result: stored,
+    sourceTx: result.sourceTx,
+    attestationId: result.attestationId,
+    updatedAt: new Date().toISOString(),
+  });
+  await store.put(record);
+}
+
+/**
+ * Result returned to a repeat of a request whose key is taken
+ */
+export function idempotentResult(record: IdempotencyRecord, request: CctpTransferRequest): TransferResult {
+  if (record.fingerprint !== idempotencyFingerprint(request)) {
+    return {
+      success: false,
+      transferId: record.transferId,
+      error: `Idempotency key ${record.key} was already used for a different transfer request`,
+      errorCode: 'IDEMPOTENCY_CONFLICT',
+      retryable: false,
+    };
+  }
+  if (record.status !== "in-progress" && record.result) {
+    return record.result;
+  }
+  return {
+    success: false,
+    transferId: record.transferId,
+    sourceTx: record.sourceTx,
+    attestationId: record.attestationId,
+    error: `Transfer ${record.transferId} with idempotency key ${record.key} is still in progress`,
+    errorCode: 'TRANSFER_IN_PROGRESS',
+    retryable: true,
+    inProgress: true,
+  };
+}
+
+/**
+ * A decimal amount in smallest units, so "1", "1.0" and "1.000000" fingerprint
+ * the same (an amount that doesn't parse is kept as given)
+ */
+function smallestUnits(amount: string | undefined, decimals: number): string {
+  try {
+    return amount ? parseDecimalAmount(amount, decimals, "amount").toString() : "";
+  } catch {
+    return amount!;
+  }
+}
+
+function isExpired(record: IdempotencyRecord): boolean {
+  return new Date(record.expiresAt).getTime() <= Date.now();
+}
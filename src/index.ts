@@ -2,39 +2,341 @@
  * CCTP Wormhole Transfer SDK
  * 
  * Main entry point for the SDK. Exports all public APIs for cross-chain
- * USDC transfers from Base to Aptos using Circle CCTP via Wormhole.
+ * USDC transfers between Base and Aptos using Circle CCTP via Wormhole.
  */
 
 // Core transfer functionality
 export { transferUsdcViaCctp } from './cctpTransfer';
 export type { CctpTransferRequest } from './cctpTransfer';
 
+// Batch transfers
+export { transferBatch, DEFAULT_BATCH_CONCURRENCY } from './batchTransfer';
+export type {
+  BatchTransferItem,
+  BatchTransferOptions,
+  BatchTransferItemResult,
+  BatchTransferSummary,
+  BatchTransferResult,
+} from './batchTransfer';
+
+// Durable job queue and worker
+export {
+  TransferQueue,
+  InMemoryJobStore,
+  JsonFileJobStore,
+  filterTransferJobs,
+  toQueuedTransferRequest,
+  fromQueuedTransferRequest,
+  DEFAULT_RETRY_POLICIES,
+  DEFAULT_POLL_INTERVAL_MS,
+} from './jobQueue';
+export type {
+  TransferJob,
+  TransferJobStage,
+  TransferJobStatus,
+  TransferJobEvent,
+  TransferJobQuery,
+  JobStore,
+  RetryPolicy,
+  QueuedTransferRequest,
+  TransferQueueOptions,
+  EnqueueOptions,
+  WorkOptions,
+} from './jobQueue';
+
+// HTTP API
+export { createTransferHandler, createTransferServer, DEFAULT_MAX_BODY_BYTES } from './httpServer';
+export type { TransferServerOptions, TransferStatusResponse } from './httpServer';
+export {
+  TRANSFER_REQUEST_SCHEMA,
+  QUOTE_REQUEST_SCHEMA,
+  PERMIT_VERIFY_REQUEST_SCHEMA,
+  PERMIT2_PERMIT_SCHEMA,
+  PERMIT2_PERMIT_BATCH_SCHEMA,
+  EIP2612_PERMIT_SCHEMA,
+  TRANSFER_AUTHORIZATION_SCHEMA,
+  WEBHOOK_ENDPOINT_SCHEMA,
+  validateJsonSchema,
+} from './httpSchemas';
+export type { JsonSchema } from './httpSchemas';
+
+// Staged (resumable) transfer API
+export {
+  initiateCctpTransfer,
+  awaitCctpAttestation,
+  completeCctpTransfer,
+  serializeTransferReceipt,
+  parseTransferReceipt,
+  DEFAULT_ATTESTATION_TIMEOUT_MS,
+} from './transferStages';
+export type { TransferStageOptions, VerifiedAuthorization } from './transferStages';
+export { receiptFromSourceTx } from './transferStages';
+export { createTransferContext, directionOfReceipt } from './context';
+
+// Fee and ETA quotes
+export { quoteCctpTransfer, DEFAULT_GAS_UNITS } from './quote';
+export type { CctpTransferQuote, GasEstimate, EvmGasEstimate, AptosGasEstimate } from './quote';
+
+// Dry run preflight checks
+export { runPreflight } from './preflight';
+export type { PreflightReport, PreflightCheck, PreflightCheckName } from './preflight';
+
+// Errors
+export {
+  FluidError,
+  AuthorizationError,
+  NonceError,
+  InsufficientBalanceError,
+  AttestationTimeoutError,
+  DestinationError,
+  toFluidError,
+} from './errors';
+export type { FluidErrorCode, FluidErrorOptions } from './errors';
+
+// Progress events and logging
+export { silentLogger, consoleLogger } from './logger';
+export type { Logger } from './logger';
+export type {
+  TransferProgressEvent,
+  TransferProgressEventType,
+  TransferProgressPayload,
+  ProgressListener,
+  AuthorizedEvent,
+  FundsPulledEvent,
+  RecipientCreatedEvent,
+  NonceWaitEvent,
+  NonceReplacedEvent,
+  SourceSentEvent,
+  AttestationWaitEvent,
+  AttestationReceivedEvent,
+  RelayWaitEvent,
+  DestinationSentEvent,
+  CompletedEvent,
+  FailedEvent,
+} from './events';
+
+// Idempotency keys
+export {
+  InMemoryIdempotencyStore,
+  JsonFileIdempotencyStore,
+  getDefaultIdempotencyStore,
+  claimIdempotencyKey,
+  updateIdempotencyKey,
+  settleIdempotencyKey,
+  idempotentResult,
+  idempotencyFingerprint,
+  DEFAULT_IDEMPOTENCY_TTL_MS,
+} from './idempotency';
+export type { IdempotencyStore, IdempotencyRecord } from './idempotency';
+
+// Signature replay protection
+export {
+  InMemorySignatureReplayStore,
+  JsonFileSignatureReplayStore,
+  getDefaultSignatureReplayStore,
+  assertSignatureUnused,
+  consumeSignature,
+  releaseSignature,
+  assertPermitBatchRequester,
+  claimPermitBatch,
+} from './signatureReplay';
+export type { SignatureReplayStore, ConsumedSignature } from './signatureReplay';
+
+// Signed webhooks
+export {
+  WebhookDispatcher,
+  getWebhookDispatcher,
+  setWebhookDispatcher,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookEventType,
+  isAllowedWebhookUrl,
+  InMemoryWebhookDeliveryLog,
+  JsonFileWebhookDeliveryLog,
+  filterWebhookDeliveries,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_SIGNATURE_HEADER,
+  DEFAULT_WEBHOOK_RETRY_POLICY,
+  DEFAULT_WEBHOOK_TIMEOUT_MS,
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+} from './webhooks';
+export type {
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookPayload,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryQuery,
+  WebhookDeliveryLog,
+  WebhookDispatcherOptions,
+} from './webhooks';
+
+// Transfer history persistence
+export {
+  InMemoryTransferStore,
+  JsonFileTransferStore,
+  filterTransferRecords,
+  recordTransferRequest,
+  recordTransferReceipt,
+  recordTransferFailure,
+} from './transferStore';
+export type {
+  TransferStore,
+  TransferRecord,
+  TransferStatus,
+  TransferStatusChange,
+  TransferQuery,
+} from './transferStore';
+
+// Recovery of stranded transfers
+export { recoverTransfer } from './recovery';
+export type { RecoveryResult } from './recovery';
+export type { TransferContext } from './context';
+
 // Transfer results
-export type { TransferResult } from './types';
+export type { TransferResult, TransferStage, TransferDirection, TransferNetwork, CctpTransferReceipt } from './types';
 
 // Permit2 utilities
 export {
   generatePermit2Signature,
+  requestPermit2Signature,
+  buildPermit2TypedData,
   verifyPermit2Signature,
   createPermit,
   splitSignature,
   getPermit2Domain,
   getPermit2Types,
+  getPermit2WitnessTypes,
   getPermit2Address,
+  hashPermit2Permit,
+  createCctpTransferWitness,
+  toWitnessRecipient,
+  hashCctpTransferWitness,
+  serializePermit2Permit,
+  parsePermit2Permit,
+  CCTP_TRANSFER_WITNESS_TYPE_STRING,
+  getPermit2BatchTransferTypes,
+  getPermit2AllowanceBatchTypes,
+  isPermit2AllowanceBatch,
+  createPermitBatchTransfer,
+  createPermitBatch,
+  generatePermit2BatchSignature,
+  buildPermit2BatchTypedData,
+  verifyPermit2BatchSignature,
+  hashPermit2BatchPermit,
+  serializePermit2BatchPermit,
+  parsePermit2BatchPermit,
 } from './permit2';
 
 export type {
   Permit2Permit,
+  TypedDataPayload,
+  CctpTransferWitness,
+  SerializedPermit2Permit,
+  Permit2TokenPermissions,
+  Permit2BatchTransferPermit,
+  Permit2AllowanceDetails,
+  Permit2AllowanceBatch,
+  Permit2BatchPermit,
+  SerializedPermit2BatchTransferPermit,
+  SerializedPermit2AllowanceBatch,
+  SerializedPermit2BatchPermit,
   Permit2Domain,
   Permit2Signature,
   Permit2Authorization,
 } from './permit2';
 
+// EIP-2612 permits
+export {
+  generateEip2612Signature,
+  verifyEip2612Signature,
+  hashEip2612Permit,
+  buildEip2612TypedData,
+  createEip2612Permit,
+  getEip2612Domain,
+  getEip2612Types,
+  serializeEip2612Permit,
+  parseEip2612Permit,
+} from './eip2612';
+export type { Eip2612Permit, Eip2612Domain, SerializedEip2612Permit } from './eip2612';
+export { executeEip2612Permit, getEip2612Nonce, readEip2612Domain, EIP2612_ABI } from './eip2612Contract';
+
+// User wallet authorization
+export { serializeTransferAuthorization, parseTransferAuthorization } from './authorization';
+export type { TransferAuthorization, AuthorizationKind, SerializedTransferAuthorization } from './authorization';
+
+// Smart contract wallet signatures (EIP-1271, ERC-6492)
+export {
+  verifyTypedDataSignature,
+  isValidEip1271Signature,
+  isErc6492Signature,
+  parseErc6492Signature,
+  wrapErc6492Signature,
+  unwrapErc6492Signature,
+  deployErc6492Account,
+  DEFAULT_ERC6492_DEPLOY_GAS_LIMIT,
+  EIP1271_ABI,
+  EIP1271_MAGIC_VALUE,
+  ERC6492_MAGIC_BYTES,
+} from './eip1271';
+export type { SignatureProvider, Erc6492Signature } from './eip1271';
+
+// Aptos recipient accounts
+export { getAptosRecipientStatus, createAptosAccount, isAptosAddress, DEFAULT_MAX_RECIPIENT_APT_FUNDING } from './aptosAccount';
+export type { AptosRecipientStatus } from './aptosAccount';
+
+// Permit2 on-chain execution
+export {
+  executePermitTransferFrom,
+  executePermitBatchTransferFrom,
+  executePermitBatch,
+  executeAllowanceTransferFrom,
+  getPermit2Funding,
+  getPermit2Allowance,
+  isPermit2NonceUsed,
+  findUnusedPermit2Nonce,
+  PERMIT2_ABI,
+  ERC20_ABI,
+} from './permit2Contract';
+export type { Permit2Allowance } from './permit2Contract';
+
+// Sponsor nonce management
+export {
+  NonceManager,
+  getSponsorNonceManager,
+  DEFAULT_NONCE_STUCK_AFTER_MS,
+  DEFAULT_FEE_BUMP_PERCENT,
+  DEFAULT_MAX_REPLACEMENTS,
+} from './nonceManager';
+export type { NonceManagerOptions, TrackedTransaction, NonceReplacement } from './nonceManager';
+
 // Helper functions for signers
 export { getEvmSigner, getAptosSigner, toEvmSdkSigner, toAptosSdkSigner } from './helper';
 
+// Decimal amounts
+export { parseDecimalAmount, USDC_DECIMALS, APT_DECIMALS } from './amounts';
+
 export type { EvmSignerResult, AptosSignerResult } from './types';
 
+// Chain registry
+export {
+  EVM_CHAINS,
+  APTOS_CHAINS,
+  DEFAULT_EVM_CHAIN,
+  isEvmChainKey,
+  getEvmChain,
+  getEvmChainById,
+  getChainByWormholeName,
+  getExplorerTxUrl,
+} from './chains';
+export type {
+  EvmChainKey,
+  EvmWormholeChain,
+  ChainInfo,
+  EvmChainInfo,
+  AptosChainInfo,
+} from './chains';
+
 // Configuration types (export for programmatic config)
 export type { Config } from './config';
 export { createConfig } from './config';
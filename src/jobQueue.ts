@@ -0,0 +1,655 @@
+/**
+ * Durable Transfer Job Queue
+ *
+ * Callers enqueue transfers as jobs; a long-running worker runs them stage by
+ * stage (initiate → attest → complete) with a retry policy per stage. Every
+ * job and its receipt are persisted after each step, so a worker that restarts
+ * picks up where it stopped instead of losing transfers that were waiting for
+ * their attestation. Ships with an in-memory store and a JSON-file store; any
+ * database can be plugged in by implementing the JobStore interface.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  serializeTransferAuthorization,
+  parseTransferAuthorization,
+  type SerializedTransferAuthorization,
+} from "./authorization";
+import { CctpTransferRequest } from "./cctpTransfer";
+import { Config } from "./config";
+import { createTransferContext, TransferContext } from "./context";
+import { FluidError, FluidErrorCode, toFluidError } from "./errors";
+import { ProgressListener, TransferProgressEvent } from "./events";
+import { idempotencyFingerprint } from "./idempotency";
+import { Logger, silentLogger } from "./logger";
+import {
+  SerializedPermit2Permit,
+  SerializedPermit2AllowanceBatch,
+  serializePermit2Permit,
+  parsePermit2Permit,
+  serializePermit2BatchPermit,
+  parsePermit2BatchPermit,
+} from "./permit2";
+import { SignatureReplayStore } from "./signatureReplay";
+import { TransferStore } from "./transferStore";
+import {
+  initiateCctpTransfer,
+  awaitCctpAttestation,
+  completeCctpTransfer,
+  receiptFromSourceTx,
+  TransferStageOptions,
+} from "./transferStages";
+import { CctpTransferReceipt, TransferDirection } from "./types";
+
+/**
+ * Stage a job runs next
+ */
+export type TransferJobStage = 'initiate' | 'attest' | 'complete';
+
+/**
+ * Status of a job
+ * - queued: waiting for a worker (possibly until `nextRunAt` after a failure)
+ * - running: a worker is running one of its stages
+ * - completed: USDC was delivered
+ * - dead: gave up (non-retryable error or out of attempts); see `lastError`
+ */
+export type TransferJobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+/**
+ * Transfer request as stored in a job (JSON-safe, no signers or callbacks)
+ */
+export type QueuedTransferRequest = Omit<
+  CctpTransferRequest,
+  | 'permitData'
+  | 'permitBatch'
+  | 'authorization'
+  | 'config'
+  | 'store'
+  | 'transferId'
+  | 'onProgress'
+  | 'logger'
+  | 'dryRun'
+  | 'idempotencyStore'
+  | 'idempotencyTtlMs'
+  | 'signatureStore'
+> & {
+  permitData?: SerializedPermit2Permit;
+  permitBatch?: SerializedPermit2AllowanceBatch;
+  authorization?: SerializedTransferAuthorization;
+};
+
+/**
+ * Retry policy of one stage
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Attempts before the job goes dead
+  initialDelayMs: number; // Delay before the first retry
+  maxDelayMs: number; // Upper bound of the delay
+  multiplier: number; // Factor applied to the delay after every failed attempt
+}
+
+/**
+ * Default retry policies. Attestation waits get the most attempts: the burn
+ * already happened, so giving up early only leaves the transfer to recovery.
+ */
+export const DEFAULT_RETRY_POLICIES: Record<TransferJobStage, RetryPolicy> = {
+  initiate: { maxAttempts: 3, initialDelayMs: 15_000, maxDelayMs: 120_000, multiplier: 2 },
+  attest: { maxAttempts: 10, initialDelayMs: 30_000, maxDelayMs: 600_000, multiplier: 2 },
+  complete: { maxAttempts: 5, initialDelayMs: 15_000, maxDelayMs: 300_000, multiplier: 2 },
+};
+
+/**
+ * Default time between polls of the store for due jobs
+ */
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * One entry in a job's history
+ */
+export interface TransferJobEvent {
+  at: string; // ISO timestamp
+  stage: TransferJobStage;
+  status: 'started' | 'succeeded' | 'failed' | 'requeued' | 'dead';
+  attempt?: number;
+  error?: string;
+  errorCode?: FluidErrorCode;
+}
+
+/**
+ * A queued transfer
+ */
+export interface TransferJob {
+  id: string; // Also the transfer ID in the TransferStore and progress events
+  request: QueuedTransferRequest;
+  status: TransferJobStatus;
+  stage: TransferJobStage;
+  attempts: number; // Failed attempts of the current stage
+  nextRunAt: string; // ISO timestamp; the job isn't picked up before then
+  receipt?: CctpTransferReceipt; // Latest receipt, once the burn is known
+  sourceTx?: string; // Burn transaction, as soon as it is sent
+  lastError?: string;
+  lastErrorCode?: FluidErrorCode;
+  history: TransferJobEvent[];
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Filter for listing jobs
+ */
+export interface TransferJobQuery {
+  status?: TransferJobStatus | TransferJobStatus[];
+  limit?: number;
+}
+
+/**
+ * Storage backend for jobs
+ */
+export interface JobStore {
+  put(job: TransferJob): Promise<void>;
+  get(id: string): Promise<TransferJob | undefined>;
+  list(query?: TransferJobQuery): Promise<TransferJob[]>;
+}
+
+/**
+ * Keeps jobs in memory (lost when the process exits)
+ */
+export class InMemoryJobStore implements JobStore {
+  private readonly jobs = new Map<string, TransferJob>();
+
+  async put(job: TransferJob): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  async get(id: string): Promise<TransferJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : undefined;
+  }
+
+  async list(query: TransferJobQuery = {}): Promise<TransferJob[]> {
+    return filterTransferJobs([...this.jobs.values()], query).map((job) => structuredClone(job));
+  }
+}
+
+/**
+ * Keeps jobs in a JSON file (one object keyed by job ID)
+ *
+ * Writes are serialized within the process and go through a temp file + rename
+ * so a crash never leaves a half-written file. Only one worker should use a file.
+ * Jobs hold the secrets of their requests' webhooks, so the file is only
+ * readable by its owner (mode 0600).
+ */
+export class JsonFileJobStore implements JobStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async put(job: TransferJob): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const jobs = await this.load();
+      jobs[job.id] = job;
+      await this.save(jobs);
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async get(id: string): Promise<TransferJob | undefined> {
+    const jobs = await this.load();
+    return jobs[id];
+  }
+
+  async list(query: TransferJobQuery = {}): Promise<TransferJob[]> {
+    const jobs = await this.load();
+    return filterTransferJobs(Object.values(jobs), query);
+  }
+
+  private async load(): Promise<Record<string, TransferJob>> {
+    try {
+      const json = await fs.readFile(this.filePath, "utf8");
+      return JSON.parse(json) as Record<string, TransferJob>;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async save(jobs: Record<string, TransferJob>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(jobs, null, 2), { mode: 0o600 });
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Apply a query to a list of jobs, oldest first (the order they are run in)
+ */
+export function filterTransferJobs(jobs: TransferJob[], query: TransferJobQuery = {}): TransferJob[] {
+  const statuses = query.status === undefined
+    ? undefined
+    : Array.isArray(query.status) ? query.status : [query.status];
+
+  const matches = jobs
+    .filter((job) => !statuses || statuses.includes(job.status))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+}
+
+/**
+ * Convert a transfer request to the form stored in a job
+ */
+export function toQueuedTransferRequest(request: CctpTransferRequest): QueuedTransferRequest {
+  const {
+    permitData, permitBatch, authorization, config, store, transferId, onProgress, logger, dryRun, idempotencyStore, idempotencyTtlMs, signatureStore, ...rest
+  } = request;
+  return {
+    ...rest,
+    permitData: permitData && serializePermit2Permit(permitData),
+    permitBatch: permitBatch && serializePermit2BatchPermit(permitBatch),
+    authorization: authorization && serializeTransferAuthorization(authorization),
+  };
+}
+
+/**
+ * Convert a stored request back to a transfer request
+ */
+export function fromQueuedTransferRequest(request: QueuedTransferRequest): CctpTransferRequest {
+  const { permitData, permitBatch, authorization, ...rest } = request;
+  return {
+    ...rest,
+    permitData: permitData && parsePermit2Permit(permitData),
+    permitBatch: permitBatch && parsePermit2BatchPermit(permitBatch),
+    authorization: authorization && parseTransferAuthorization(authorization),
+  };
+}
+
+export interface TransferQueueOptions {
+  store?: JobStore; // Optional: Where jobs are kept (default: in memory)
+  retryPolicies?: Partial<Record<TransferJobStage, Partial<RetryPolicy>>>; // Optional: Override the default policies
+  config?: Partial<Config>; // Optional: Override default config for the worker's transfer contexts
+  context?: TransferContext; // Optional: Reuse an already-initialized context (jobs of other directions get their own)
+  transferStore?: TransferStore; // Optional: Record every job's transfer in this store
+  signatureStore?: SignatureReplayStore; // Optional: Where consumed signatures are recorded (default: in memory, shared by the process)
+  onProgress?: ProgressListener; // Optional: Receive the progress events of every job
+  logger?: Logger; // Optional: Logger for diagnostics (silent by default)
+}
+
+export interface EnqueueOptions {
+  jobId?: string; // Optional: ID of the job (generated if not provided)
+  runAt?: Date; // Optional: Don't start the job before this time
+}
+
+export interface WorkOptions {
+  concurrency?: number; // Optional: Jobs run at once (default: 1)
+  pollIntervalMs?: number; // Optional: Time between polls for due jobs (default: 5 seconds)
+  signal?: AbortSignal; // Optional: Stop picking up jobs; running jobs finish their current stage
+}
+
+/**
+ * Durable queue of transfer jobs and the worker that runs them
+ */
+export class TransferQueue {
+  private readonly store: JobStore;
+  private readonly policies: Record<TransferJobStage, RetryPolicy>;
+  private readonly logger: Logger;
+  private readonly contexts = new Map<TransferDirection, Promise<TransferContext>>();
+  private readonly running = new Set<string>();
+
+  constructor(private readonly options: TransferQueueOptions = {}) {
+    this.store = options.store ?? new InMemoryJobStore();
+    this.logger = options.logger ?? silentLogger;
+    this.policies = {
+      initiate: { ...DEFAULT_RETRY_POLICIES.initiate, ...options.retryPolicies?.initiate },
+      attest: { ...DEFAULT_RETRY_POLICIES.attest, ...options.retryPolicies?.attest },
+      complete: { ...DEFAULT_RETRY_POLICIES.complete, ...options.retryPolicies?.complete },
+    };
+    if (options.context) {
+      this.contexts.set(options.context.direction, Promise.resolve(options.context));
+    }
+  }
+
+  /**
+   * Add a transfer to the queue
+   *
+   * A request with an idempotencyKey that a job in the store already has
+   * returns that job instead of queueing another transfer.
+   * @returns The new job, or the existing job of the idempotency key
+   * @throws FluidError IDEMPOTENCY_CONFLICT if the key's job is for a different request
+   */
+  async enqueue(request: CctpTransferRequest, options: EnqueueOptions = {}): Promise<TransferJob> {
+    if (request.idempotencyKey) {
+      const existing = await this.findByIdempotencyKey(request.idempotencyKey);
+      if (existing) {
+        if (idempotencyFingerprint(fromQueuedTransferRequest(existing.request)) !== idempotencyFingerprint(request)) {
+          throw new FluidError('IDEMPOTENCY_CONFLICT', `Idempotency key ${request.idempotencyKey} was already used for a different transfer request`);
+        }
+        return existing;
+      }
+    }
+
+    const now = new Date().toISOString();
+    const job: TransferJob = {
+      id: options.jobId ?? request.transferId ?? randomUUID(),
+      request: toQueuedTransferRequest(request),
+      status: "queued",
+      stage: "initiate",
+      attempts: 0,
+      nextRunAt: (options.runAt ?? new Date()).toISOString(),
+      history: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (await this.store.get(job.id)) {
+      throw new Error(`Job ${job.id} already exists`);
+    }
+    await this.store.put(job);
+    this.logger.info(`Queued job ${job.id} (${job.request.amount} USDC)`);
+    return job;
+  }
+
+  async get(id: string): Promise<TransferJob | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Job enqueued with an idempotency key, if any
+   */
+  async findByIdempotencyKey(idempotencyKey: string): Promise<TransferJob | undefined> {
+    const jobs = await this.store.list();
+    return jobs.find((job) => job.request.idempotencyKey === idempotencyKey);
+  }
+
+  async list(query: TransferJobQuery = {}): Promise<TransferJob[]> {
+    return this.store.list(query);
+  }
+
+  /**
+   * Move a dead job back to the queue, with its attempts reset
+   *
+   * The job resumes at the stage it died in; a job that already burned never burns again.
+   * @returns The requeued job
+   */
+  async retry(id: string): Promise<TransferJob> {
+    const job = await this.store.get(id);
+    if (!job) {
+      throw new Error(`Job ${id} not found`);
+    }
+    if (job.status !== "dead") {
+      throw new Error(`Job ${id} is ${job.status}; only dead jobs can be retried`);
+    }
+    // A burn that happened before the job died is picked up from its source tx
+    if (job.stage === "initiate" && job.sourceTx) {
+      job.stage = "attest";
+    }
+    await this.save(job, { status: "queued", attempts: 0, nextRunAt: new Date().toISOString() }, "requeued");
+    return job;
+  }
+
+  /**
+   * Requeue jobs left "running" by a worker that stopped
+   *
+   * Waits and mints are safe to run again. A job interrupted while initiating
+   * may or may not have burned: with a known source tx it moves on to the
+   * attestation, otherwise it goes dead so nothing is burned twice.
+   * @returns Jobs that were requeued or marked dead
+   */
+  async recoverInterrupted(): Promise<TransferJob[]> {
+    const jobs = await this.store.list({ status: "running" });
+    for (const job of jobs.filter((job) => !this.running.has(job.id))) {
+      if (job.stage === "initiate" && job.sourceTx) {
+        job.stage = "attest";
+      }
+      if (job.stage === "initiate") {
+        this.logger.warn(`Job ${job.id} was interrupted while initiating; marking it dead`);
+        await this.save(job, {
+          status: "dead",
+          lastError: `Worker stopped while the transfer was being initiated. Check the sponsor's transactions: if USDC was burned, finish it with recoverTransfer; otherwise retry the job.`,
+          lastErrorCode: "UNKNOWN",
+        }, "dead");
+      } else {
+        this.logger.info(`Requeueing job ${job.id} interrupted in stage ${job.stage}`);
+        await this.save(job, { status: "queued", nextRunAt: new Date().toISOString() }, "requeued");
+      }
+    }
+    return jobs;
+  }
+
+  /**
+   * Run the next due job, if any, until it completes, fails a stage or dies
+   * @returns The job after the run, or undefined if no job was due
+   */
+  async processNext(): Promise<TransferJob | undefined> {
+    const [job] = await this.dueJobs(1);
+    return job ? this.process(job) : undefined;
+  }
+
+  /**
+   * Run due jobs until the signal aborts
+   *
+   * Jobs left running by an earlier worker are recovered first.
+   */
+  async work(options: WorkOptions = {}): Promise<void> {
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const { signal } = options;
+    const inFlight = new Set<Promise<unknown>>();
+
+    await this.recoverInterrupted();
+    this.logger.info(`Worker started (${concurrency} job(s) at a time)`);
+
+    while (!signal?.aborted) {
+      const jobs = await this.dueJobs(concurrency - inFlight.size);
+      for (const job of jobs) {
+        const run: Promise<unknown> = this.process(job)
+          .catch((error) => this.logger.error(`Job ${job.id} could not be saved:`, error))
+          .finally(() => inFlight.delete(run));
+        inFlight.add(run);
+      }
+      await Promise.race([sleep(pollIntervalMs, signal), ...inFlight]);
+    }
+
+    this.logger.info(`Worker stopping; waiting for ${inFlight.size} running job(s)...`);
+    await Promise.all(inFlight);
+  }
+
+  /**
+   * Queued jobs whose time has come, oldest first
+   */
+  private async dueJobs(limit: number): Promise<TransferJob[]> {
+    if (limit <= 0) {
+      return [];
+    }
+    const now = Date.now();
+    const queued = await this.store.list({ status: "queued" });
+    return queued
+      .filter((job) => !this.running.has(job.id) && new Date(job.nextRunAt).getTime() <= now)
+      .slice(0, limit);
+  }
+
+  /**
+   * Run the stages of a job until it completes or a stage fails
+   */
+  private async process(job: TransferJob): Promise<TransferJob> {
+    this.running.add(job.id);
+    try {
+      await this.save(job, { status: "running" });
+
+      while (job.status === "running") {
+        const stage = job.stage;
+        job.history.push({ at: new Date().toISOString(), stage, status: "started", attempt: job.attempts + 1 });
+        try {
+          await this.runStage(job);
+          job.history.push({ at: new Date().toISOString(), stage, status: "succeeded" });
+          await this.save(job, { attempts: 0, lastError: undefined, lastErrorCode: undefined });
+        } catch (error) {
+          await this.fail(job, error);
+        }
+      }
+      return job;
+    } finally {
+      this.running.delete(job.id);
+    }
+  }
+
+  /**
+   * Run the current stage of a job and move it to the next one
+   */
+  private async runStage(job: TransferJob): Promise<void> {
+    const direction = job.request.direction ?? "base-to-aptos";
+    const context = await this.contextFor(direction);
+    const stageOptions: TransferStageOptions = {
+      context,
+      store: this.options.transferStore,
+      onProgress: (event) => this.onJobProgress(job, event),
+      webhooks: job.request.webhooks,
+      logger: this.logger,
+    };
+
+    switch (job.stage) {
+      case "initiate": {
+        job.receipt = await initiateCctpTransfer({
+          ...fromQueuedTransferRequest(job.request),
+          transferId: job.id,
+          store: stageOptions.store,
+          signatureStore: this.options.signatureStore,
+          onProgress: stageOptions.onProgress,
+          logger: this.logger,
+        }, context);
+        job.sourceTx = job.receipt.sourceTx;
+        job.stage = "attest";
+        return;
+      }
+      case "attest": {
+        // Without a receipt (the worker stopped right after the burn), rebuild it from chain data
+        job.receipt = job.receipt
+          ? await awaitCctpAttestation(job.receipt, stageOptions)
+          : { ...await receiptFromSourceTx(job.sourceTx!, { ...stageOptions, direction }), transferId: job.id };
+        job.stage = "complete";
+        return;
+      }
+      case "complete": {
+        job.receipt = await completeCctpTransfer(job.receipt!, stageOptions);
+        job.status = "completed";
+        this.logger.info(`Job ${job.id} completed: ${job.receipt.destinationTx ?? "minted by the relayer"}`);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Record a failed stage: back off and requeue, or mark the job dead
+   */
+  private async fail(job: TransferJob, error: unknown): Promise<void> {
+    const stage = job.stage;
+    const fluidError = toFluidError(error, undefined, job.sourceTx);
+    const attempts = job.attempts + 1;
+    const policy = this.policies[stage];
+
+    // The burn went out before the stage failed: wait for its attestation instead of burning again
+    if (stage === "initiate" && job.sourceTx) {
+      job.stage = "attest";
+    }
+    // A burn that failed after something may have been sent can't be retried blindly
+    const unsafeInitiate = stage === "initiate" && job.stage === stage && fluidError.code === 'SOURCE_FAILED' && !fluidError.retryable;
+
+    job.history.push({
+      at: new Date().toISOString(),
+      stage,
+      status: "failed",
+      attempt: attempts,
+      error: fluidError.message,
+      errorCode: fluidError.code,
+    });
+
+    const errorFields = { lastError: fluidError.message, lastErrorCode: fluidError.code };
+    if (job.stage !== stage) {
+      this.logger.warn(`Job ${job.id} failed after its burn [${fluidError.code}]; waiting for the attestation`);
+      await this.save(job, { ...errorFields, status: "queued", attempts: 0, nextRunAt: new Date().toISOString() }, "requeued");
+    } else if (unsafeInitiate) {
+      this.logger.error(`Job ${job.id} is dead: its burn may have been sent [${fluidError.code}]: ${fluidError.message}`);
+      await this.save(job, {
+        lastError: `${fluidError.message}. Check the sponsor's transactions${fluidError.sourceTx ? ` (last signed: ${fluidError.sourceTx})` : ""}: ` +
+          `if USDC was burned, finish it with recoverTransfer; otherwise retry the job.`,
+        lastErrorCode: fluidError.code,
+        status: "dead",
+        attempts,
+      }, "dead");
+    } else if (!fluidError.retryable || attempts >= policy.maxAttempts) {
+      this.logger.error(`Job ${job.id} is dead after ${attempts} attempt(s) of ${stage} [${fluidError.code}]: ${fluidError.message}`);
+      await this.save(job, { ...errorFields, status: "dead", attempts }, "dead");
+    } else {
+      const delay = retryDelay(policy, attempts);
+      this.logger.warn(`Job ${job.id} failed ${stage} [${fluidError.code}]; retrying in ${Math.round(delay / 1000)}s`);
+      await this.save(job, {
+        ...errorFields,
+        status: "queued",
+        attempts,
+        nextRunAt: new Date(Date.now() + delay).toISOString(),
+      }, "requeued");
+    }
+  }
+
+  /**
+   * Persist the burn as soon as it is sent, then forward the event
+   *
+   * Synchronous, so the progress emitter catches anything the caller's listener throws.
+   */
+  private onJobProgress(job: TransferJob, event: TransferProgressEvent): void {
+    if (event.type === "source-sent") {
+      job.sourceTx = event.txHash;
+      this.save(job, {}).catch((error) => this.logger.error(`Job ${job.id} could not be saved:`, error));
+    }
+    this.options.onProgress?.(event);
+  }
+
+  private contextFor(direction: TransferDirection): Promise<TransferContext> {
+    let context = this.contexts.get(direction);
+    if (!context) {
+      context = createTransferContext(this.options.config, this.logger, direction);
+      // Don't cache a failed initialization; the next job tries again
+      context.catch(() => this.contexts.delete(direction));
+      this.contexts.set(direction, context);
+    }
+    return context;
+  }
+
+  private async save(
+    job: TransferJob,
+    changes: Partial<TransferJob>,
+    event?: TransferJobEvent["status"]
+  ): Promise<void> {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    if (event) {
+      job.history.push({ at: job.updatedAt, stage: job.stage, status: event });
+    }
+    await this.store.put(job);
+  }
+}
+
+/**
+ * Delay before the next attempt, after `attempts` failed ones
+ */
+function retryDelay(policy: RetryPolicy, attempts: number): number {
+  return Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.multiplier ** (attempts - 1));
+}
+
+/**
+ * Wait for `ms`, or until the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * Logger
+ *
+ * The SDK never writes to stdout on its own. Pass a Logger to get its
+ * diagnostics; the default is silent so library users get clean service logs.
+ */
+
+/**
+ * Minimal logger interface (compatible with console, pino, winston, ...)
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Logger that discards everything (the default for library use)
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Logger that writes to the console (used by the CLI tools)
+ */
+export const consoleLogger: Logger = {
+  debug: (message, ...args) => console.debug(message, ...args),
+  info: (message, ...args) => console.log(message, ...args),
+  warn: (message, ...args) => console.warn(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
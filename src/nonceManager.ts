@@ -0,0 +1,500 @@
+/**
+ * Sponsor Nonce Manager
+ *
+ * Hands out EVM sponsor nonces locally so concurrent transfers can share one
+ * sponsor key without waiting for each other, and replaces transactions that
+ * stay pending too long: with an EIP-1559 fee bump when the node still has
+ * them, or with a zero-value self transfer (a cancel) otherwise. Replacement
+ * fees never exceed the configured caps. Pending transactions it didn't send
+ * are only cancelled if `cancelForeignNonces` is set.
+ */
+
+import { ethers } from "ethers";
+import { NonceError } from "./errors";
+import { Logger, silentLogger } from "./logger";
+
+/**
+ * Default time a transaction may stay pending before it is replaced (60 seconds)
+ */
+export const DEFAULT_NONCE_STUCK_AFTER_MS = 60_000;
+
+/**
+ * Default fee increase per replacement, in percent
+ */
+export const DEFAULT_FEE_BUMP_PERCENT = 20;
+
+/**
+ * Default number of fee bumps before a transaction is cancelled instead
+ */
+export const DEFAULT_MAX_REPLACEMENTS = 3;
+
+/**
+ * Smallest fee increase nodes accept for a replacement, in percent
+ */
+const MIN_REPLACEMENT_BUMP_PERCENT = 10n;
+
+export interface NonceManagerOptions {
+  stuckAfterMs?: number; // Pending time after which a transaction is replaced (default: 60 seconds)
+  feeBumpPercent?: number; // Fee increase per replacement (default: 20; nodes require at least 10)
+  maxFeePerGasCap?: bigint; // Highest maxFeePerGas (or legacy gasPrice) a replacement may use, in wei
+  maxPriorityFeePerGasCap?: bigint; // Highest maxPriorityFeePerGas a replacement may use, in wei
+  maxReplacements?: number; // Fee bumps before a transaction is cancelled instead (default: 3)
+  cancelForeignNonces?: boolean; // Cancel pending transactions this manager didn't send once they're stuck (default: false)
+  logger?: Logger;
+}
+
+/**
+ * Transaction signed with a managed nonce that isn't mined yet
+ */
+export interface TrackedTransaction {
+  nonce: number;
+  hash: string;
+  transaction: ethers.Transaction; // Signed transaction, re-signed with higher fees to replace it
+  sentAt: number; // Time of the latest (re)broadcast, in ms
+  replacements: number;
+}
+
+/**
+ * A stuck transaction that was replaced
+ */
+export interface NonceReplacement {
+  nonce: number;
+  action: 'speed-up' | 'cancel';
+  replacedHash?: string; // Hash of the replaced transaction, if this manager signed it
+  hash: string; // Hash of the replacement
+  maxFeePerGas?: string; // wei (EIP-1559)
+  maxPriorityFeePerGas?: string; // wei (EIP-1559)
+  gasPrice?: string; // wei (legacy chains)
+}
+
+/**
+ * Fee fields of a transaction
+ */
+interface Fees {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+/**
+ * Nonce manager for one sponsor wallet
+ *
+ * Send sponsor transactions through `signer` (an ethers Signer) so every
+ * nonce comes from the manager, then call `resolveStuckTransactions()` before
+ * sending to replace anything that has been pending for too long.
+ */
+export class NonceManager {
+  readonly address: string;
+  readonly signer: ethers.Signer;
+
+  private nextNonce?: number;
+  private reserved = new Set<number>(); // Nonces handed out and not signed yet
+  private released = new Set<number>(); // Nonces handed out but never signed
+  private tracked = new Map<number, TrackedTransaction>();
+  private firstSeen = new Map<number, number>(); // When untracked pending nonces were first seen
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly logger: Logger;
+
+  constructor(private readonly wallet: ethers.Wallet, private readonly options: NonceManagerOptions = {}) {
+    if (!wallet.provider) {
+      throw new Error('NonceManager needs a wallet connected to a provider');
+    }
+    this.address = wallet.address;
+    this.logger = options.logger ?? silentLogger;
+    this.signer = new ManagedSigner(this, wallet);
+  }
+
+  /**
+   * Reserve the next nonce
+   *
+   * Uses the highest of the local counter and the node's pending count, so
+   * transactions sent by other processes with the same key are skipped.
+   */
+  async reserve(): Promise<number> {
+    return this.exclusive(async () => {
+      if (this.released.size > 0) {
+        const nonce = Math.min(...this.released);
+        this.released.delete(nonce);
+        this.reserved.add(nonce);
+        return nonce;
+      }
+      const pending = await this.provider().getTransactionCount(this.address, 'pending');
+      const nonce = Math.max(this.nextNonce ?? 0, pending);
+      this.nextNonce = nonce + 1;
+      this.reserved.add(nonce);
+      return nonce;
+    });
+  }
+
+  /**
+   * Give back a reserved nonce that was never signed, so the next transaction reuses it
+   *
+   * Nonces that weren't reserved, or were signed since, are left alone.
+   */
+  release(nonce: number): void {
+    if (this.reserved.delete(nonce) && !this.tracked.has(nonce)) {
+      this.released.add(nonce);
+    }
+  }
+
+  /**
+   * Record a signed transaction so it can be replaced if it gets stuck
+   */
+  track(signedTransaction: string): TrackedTransaction {
+    const transaction = ethers.Transaction.from(signedTransaction);
+    const previous = this.tracked.get(transaction.nonce);
+    const entry: TrackedTransaction = {
+      nonce: transaction.nonce,
+      hash: transaction.hash!,
+      transaction,
+      sentAt: Date.now(),
+      replacements: previous ? previous.replacements + 1 : 0,
+    };
+    this.tracked.set(entry.nonce, entry);
+    this.reserved.delete(entry.nonce);
+    this.released.delete(entry.nonce);
+    return entry;
+  }
+
+  /**
+   * A signer like `signer` that also reports every transaction it signs
+   *
+   * Lets a caller learn which transactions one operation signed, even while
+   * other operations share the manager.
+   */
+  createSigner(onSigned: (transaction: TrackedTransaction) => void): ethers.Signer {
+    return new ManagedSigner(this, this.wallet, onSigned);
+  }
+
+  /**
+   * Forget the local nonce counter; the next reservation re-reads the node
+   */
+  reset(): void {
+    this.nextNonce = undefined;
+    this.released.clear();
+  }
+
+  /**
+   * Transactions sent by this manager that aren't mined yet
+   */
+  async getPendingTransactions(): Promise<TrackedTransaction[]> {
+    await this.pruneMined();
+    return [...this.tracked.values()].sort((a, b) => a.nonce - b.nonce);
+  }
+
+  /**
+   * Replace every transaction that has been pending for longer than `stuckAfterMs`
+   *
+   * Transactions the node still has are re-sent with bumped fees (up to
+   * `maxReplacements` times), anything else is cancelled. Pending nonces this
+   * manager didn't send (another process, an earlier run) are given
+   * `stuckAfterMs` to clear; after that they are cancelled with
+   * `cancelForeignNonces`, and the call fails otherwise.
+   * @param onWait - Called while waiting for pending transactions from elsewhere
+   * @returns The replacements that were sent
+   * @throws NonceError (NONCE_STUCK) if transactions from elsewhere don't clear,
+   *   or a replacement would exceed the fee caps or is rejected
+   */
+  async resolveStuckTransactions(
+    onWait?: (status: { latestNonce: number; pendingNonce: number; elapsedMs: number }) => void
+  ): Promise<NonceReplacement[]> {
+    const stuckAfterMs = this.options.stuckAfterMs ?? DEFAULT_NONCE_STUCK_AFTER_MS;
+    const replacements: NonceReplacement[] = [];
+
+    for (;;) {
+      const latest = await this.pruneMined();
+      const pending = await this.provider().getTransactionCount(this.address, 'pending');
+      const now = Date.now();
+
+      // Pending nonces sent from elsewhere: wait for them, then cancel them if allowed
+      const foreign: number[] = [];
+      for (let nonce = latest; nonce < pending; nonce++) {
+        if (!this.tracked.has(nonce)) {
+          foreign.push(nonce);
+          if (!this.firstSeen.has(nonce)) {
+            this.firstSeen.set(nonce, now);
+          }
+        }
+      }
+      for (const nonce of this.firstSeen.keys()) {
+        if (nonce < latest || this.tracked.has(nonce)) {
+          this.firstSeen.delete(nonce);
+        }
+      }
+      const oldestForeign = Math.min(...foreign.map((nonce) => this.firstSeen.get(nonce)!));
+      if (foreign.length > 0 && now - oldestForeign < stuckAfterMs) {
+        this.logger.warn(`${foreign.length} pending transaction(s) from another sender at nonce ${foreign[0]} and above. Waiting for them to clear...`);
+        onWait?.({ latestNonce: latest, pendingNonce: pending, elapsedMs: now - oldestForeign });
+        await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
+        continue;
+      }
+      if (foreign.length > 0 && !this.options.cancelForeignNonces) {
+        throw new NonceError(
+          `${foreign.length} pending transaction(s) from another sender at nonce ${foreign[0]} and above ` +
+          `did not clear within ${stuckAfterMs} ms; they are only cancelled with cancelForeignNonces`
+        );
+      }
+      for (const nonce of foreign) {
+        replacements.push(await this.cancel(nonce));
+        this.firstSeen.delete(nonce);
+      }
+
+      // Our own transactions: bump the ones pending for too long, filling any nonce gap below them
+      // (a reserved nonce isn't a gap: its transaction is being signed)
+      const stuck = [...this.tracked.values()].filter((entry) => now - entry.sentAt >= stuckAfterMs);
+      if (stuck.length > 0) {
+        const highest = Math.max(...stuck.map((entry) => entry.nonce));
+        for (let nonce = latest; nonce <= highest; nonce++) {
+          const entry = this.tracked.get(nonce);
+          if ((entry && now - entry.sentAt < stuckAfterMs) || (!entry && this.reserved.has(nonce))) {
+            continue;
+          }
+          replacements.push(entry ? await this.replace(entry) : await this.cancel(nonce));
+        }
+      }
+      return replacements;
+    }
+  }
+
+  /**
+   * Re-send a pending transaction with bumped fees, or cancel it once
+   * `maxReplacements` is reached or the node no longer has it
+   */
+  async replace(entry: TrackedTransaction): Promise<NonceReplacement> {
+    const maxReplacements = this.options.maxReplacements ?? DEFAULT_MAX_REPLACEMENTS;
+    const known = await this.provider().getTransaction(entry.hash);
+    if (!known || entry.replacements >= maxReplacements) {
+      return this.cancel(entry.nonce);
+    }
+
+    const fees = await this.bumpedFees(entry.transaction);
+    const replacement = entry.transaction.clone();
+    replacement.signature = null;
+    Object.assign(replacement, fees);
+
+    this.logger.warn(`Transaction ${entry.hash} (nonce ${entry.nonce}) is stuck, re-sending it with higher fees`);
+    const hash = await this.broadcast(replacement);
+    return { nonce: entry.nonce, action: 'speed-up', replacedHash: entry.hash, hash, ...feesToStrings(fees) };
+  }
+
+  /**
+   * Replace whatever is pending at `nonce` with a zero-value transfer to the sponsor itself
+   */
+  async cancel(nonce: number): Promise<NonceReplacement> {
+    const entry = this.tracked.get(nonce);
+    const network = await this.provider().getNetwork();
+    const fees = await this.bumpedFees(entry?.transaction);
+    const cancellation = ethers.Transaction.from({
+      to: this.address,
+      value: 0n,
+      data: "0x",
+      nonce,
+      gasLimit: 21_000n,
+      chainId: network.chainId,
+      type: fees.gasPrice !== undefined ? 0 : 2,
+      ...fees,
+    });
+
+    this.logger.warn(`Cancelling ${entry ? `transaction ${entry.hash}` : "pending transaction"} at nonce ${nonce}`);
+    const hash = await this.broadcast(cancellation);
+    return { nonce, action: 'cancel', replacedHash: entry?.hash, hash, ...feesToStrings(fees) };
+  }
+
+  /**
+   * Fees for a replacement: the previous fees (or the current ones, if
+   * unknown or higher) raised by `feeBumpPercent`, within the caps
+   * @throws NonceError if the caps don't leave room for a valid replacement
+   */
+  private async bumpedFees(previous?: ethers.Transaction): Promise<Fees> {
+    const bump = BigInt(this.options.feeBumpPercent ?? DEFAULT_FEE_BUMP_PERCENT);
+    const feeData = await this.provider().getFeeData();
+
+    const raise = (name: string, old: bigint | null | undefined, current: bigint | null | undefined, cap?: bigint): bigint => {
+      const base = old ?? current ?? 0n;
+      let fee = base * (100n + bump) / 100n;
+      if (current != null && current > fee) {
+        fee = current;
+      }
+      if (cap !== undefined && fee > cap) {
+        const minimum = old != null ? old * (100n + MIN_REPLACEMENT_BUMP_PERCENT) / 100n : 0n;
+        if (cap < minimum) {
+          throw new NonceError(
+            `Cannot replace stuck sponsor transaction: ${name} cap ${cap} wei is below the minimum replacement fee ${minimum} wei`
+          );
+        }
+        fee = cap;
+      }
+      return fee;
+    };
+
+    const legacy = previous ? previous.type === 0 || previous.type === 1 : feeData.maxFeePerGas == null;
+    if (legacy) {
+      return { gasPrice: raise('gasPrice', previous?.gasPrice, feeData.gasPrice, this.options.maxFeePerGasCap) };
+    }
+
+    const maxPriorityFeePerGas = raise(
+      'maxPriorityFeePerGas',
+      previous?.maxPriorityFeePerGas,
+      feeData.maxPriorityFeePerGas,
+      this.options.maxPriorityFeePerGasCap
+    );
+    let maxFeePerGas = raise('maxFeePerGas', previous?.maxFeePerGas, feeData.maxFeePerGas, this.options.maxFeePerGasCap);
+    if (maxFeePerGas < maxPriorityFeePerGas) {
+      maxFeePerGas = maxPriorityFeePerGas;
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Sign and broadcast a replacement, tracking it in place of the original
+   */
+  private async broadcast(transaction: ethers.Transaction): Promise<string> {
+    const signed = await this.wallet.signTransaction(transaction);
+    try {
+      await this.provider().broadcastTransaction(signed);
+    } catch (error: any) {
+      throw new NonceError(
+        `Replacement for nonce ${transaction.nonce} was rejected: ${error?.shortMessage ?? error?.message ?? error}`,
+        { cause: error }
+      );
+    }
+    const entry = this.track(signed);
+    this.logger.info(`Replacement sent at nonce ${entry.nonce}: ${entry.hash}`);
+    return entry.hash;
+  }
+
+  /**
+   * Drop everything below the sponsor's mined nonce
+   * @returns The mined ("latest") nonce
+   */
+  private async pruneMined(): Promise<number> {
+    const latest = await this.provider().getTransactionCount(this.address, 'latest');
+    for (const nonce of this.tracked.keys()) {
+      if (nonce < latest) {
+        this.tracked.delete(nonce);
+      }
+    }
+    for (const nonce of this.released) {
+      if (nonce < latest) {
+        this.released.delete(nonce);
+      }
+    }
+    return latest;
+  }
+
+  private provider(): ethers.Provider {
+    return this.wallet.provider!;
+  }
+
+  /**
+   * Run reservations one at a time
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    // Keep the queue alive even if this task fails
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * ethers Signer that takes its nonces from a NonceManager and tracks what it signs
+ */
+class ManagedSigner extends ethers.AbstractSigner {
+  constructor(
+    private readonly manager: NonceManager,
+    private readonly wallet: ethers.Wallet,
+    private readonly onSigned?: (transaction: TrackedTransaction) => void
+  ) {
+    super(wallet.provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  connect(provider: ethers.Provider | null): ethers.Signer {
+    return new ManagedSigner(this.manager, this.wallet.connect(provider), this.onSigned);
+  }
+
+  async getNonce(blockTag?: ethers.BlockTag): Promise<number> {
+    if (blockTag !== undefined && blockTag !== 'pending') {
+      return this.wallet.getNonce(blockTag);
+    }
+    return this.manager.reserve();
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    let signed: string;
+    try {
+      signed = await this.wallet.signTransaction(tx);
+    } catch (error) {
+      // A nonce reserved through getNonce (as the Wormhole SDK does) is given back
+      if (tx.nonce !== undefined && tx.nonce !== null) {
+        this.manager.release(tx.nonce);
+      }
+      throw error;
+    }
+    const entry = this.manager.track(signed);
+    this.onSigned?.(entry);
+    return signed;
+  }
+
+  async sendTransaction(tx: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
+    const nonce = await this.manager.reserve();
+    let signed: string;
+    try {
+      const populated = await this.populateTransaction({ ...tx, nonce });
+      signed = await this.signTransaction(populated);
+    } catch (error) {
+      this.manager.release(nonce);
+      throw error;
+    }
+    return this.provider!.broadcastTransaction(signed);
+  }
+
+  signMessage(message: string | Uint8Array): Promise<string> {
+    return this.wallet.signMessage(message);
+  }
+
+  signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.wallet.signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Nonce managers shared by every context using the same sponsor on the same chain
+ */
+const sharedManagers = new Map<string, NonceManager>();
+
+/**
+ * Get the nonce manager shared by all transfers of a sponsor on a chain
+ * @param wallet - Sponsor wallet (connected to the chain's provider)
+ * @param chainKey - Chain the wallet is used on (managers are per chain)
+ * @param options - Options, used when the manager is created
+ */
+export function getSponsorNonceManager(
+  wallet: ethers.Wallet,
+  chainKey: string,
+  options?: NonceManagerOptions
+): NonceManager {
+  const key = `${chainKey}:${wallet.address.toLowerCase()}`;
+  let manager = sharedManagers.get(key);
+  if (!manager) {
+    manager = new NonceManager(wallet, options);
+    sharedManagers.set(key, manager);
+  }
+  return manager;
+}
+
+function feesToStrings(fees: Fees): Pick<NonceReplacement, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'> {
+  return {
+    maxFeePerGas: fees.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas?.toString(),
+    gasPrice: fees.gasPrice?.toString(),
+  };
+}
@@ -4,30 +4,68 @@
  * This module handles Permit2 authorization signatures for user wallet transfers.
  * Permit2 allows users to sign permissions for others to spend their tokens without
  * requiring a separate approval transaction.
+ *
+ * Signatures are Permit2 SignatureTransfer `PermitTransferFrom` messages: the
+ * spender (the sponsor wallet) submits them to `permitTransferFrom` to pull the
+ * user's tokens once, and the nonce is consumed on-chain.
+ *
+ * A permit may carry a CctpTransferWitness. It is then signed as a
+ * `PermitWitnessTransferFrom`, which binds the recipient, destination and
+ * maximum fee of the transfer to the signature: the sponsor can't send the
+ * funds anywhere else.
+ *
+ * Batch permits cover several tokens or amounts with one signature: a
+ * SignatureTransfer `PermitBatchTransferFrom` pulls every entry in one call,
+ * and an AllowanceTransfer `PermitBatch` sets allowances the spender can draw
+ * from over several transfers.
  */
 
 import { ethers, TypedDataEncoder } from "ethers";
+import { Logger, silentLogger } from "./logger";
+import { EVM_CHAINS } from "./chains";
+import { verifyTypedDataSignature, type SignatureProvider } from "./eip1271";
 
 /**
  * Permit2 EIP-712 Domain Separator structure
+ *
+ * Permit2's domain has no version: EIP712Domain(string name,uint256 chainId,address verifyingContract)
  */
 export interface Permit2Domain {
   name: string;
-  version: string;
   chainId: number;
   verifyingContract: string;
 }
 
+/**
+ * EIP-712 typed data in the JSON form of `eth_signTypedData_v4`
+ */
+export interface TypedDataPayload {
+  types: Record<string, Array<{ name: string; type: string }>>; // Includes EIP712Domain
+  domain: Record<string, unknown>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
 /**
  * Permit2 Permit structure for token authorization
  */
 export interface Permit2Permit {
   owner: string;
-  spender: string;
+  spender: string; // Address allowed to submit the permit (the sponsor wallet)
   token: string;
   value: bigint;
-  nonce: bigint;
+  nonce: bigint; // Unordered Permit2 nonce (any unused uint256)
   deadline: bigint;
+  witness?: CctpTransferWitness; // Optional: Transfer the signature is bound to
+}
+
+/**
+ * Witness of a PermitWitnessTransferFrom: where the pulled USDC must go
+ */
+export interface CctpTransferWitness {
+  recipient: string; // Recipient on the destination chain as bytes32 hex (see toWitnessRecipient)
+  destinationDomain: number; // Circle CCTP domain of the destination chain (e.g., 9 for Aptos)
+  maxFee: bigint; // Most USDC smallest units that may be deducted on the way (e.g., the relayer fee)
 }
 
 /**
@@ -54,14 +92,14 @@ export interface Permit2Authorization {
 export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
 
 /**
- * Base Sepolia Chain ID
+ * Base Sepolia Chain ID (see EVM_CHAINS for other chains)
  */
-export const BASE_SEPOLIA_CHAIN_ID = 84532;
+export const BASE_SEPOLIA_CHAIN_ID = EVM_CHAINS.BaseSepolia.chainId;
 
 /**
- * Base Sepolia USDC address (testnet)
+ * Base Sepolia USDC address (testnet, see EVM_CHAINS for other chains)
  */
-export const BASE_SEPOLIA_USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+export const BASE_SEPOLIA_USDC = EVM_CHAINS.BaseSepolia.usdcAddress;
 
 /**
  * Get Permit2 contract address for a given chain
@@ -79,7 +117,6 @@ export function getPermit2Address(): string {
 export function getPermit2Domain(chainId: number, permit2Address: string = getPermit2Address()): Permit2Domain {
   return {
     name: "Permit2",
-    version: "1",
     chainId,
     verifyingContract: permit2Address,
   };
@@ -91,120 +128,246 @@ export function getPermit2Domain(chainId: number, permit2Address: string = getPe
  */
 export function getPermit2Types() {
   return {
-    PermitSingle: [
-      { name: "details", type: "PermitDetails" },
+    PermitTransferFrom: [
+      { name: "permitted", type: "TokenPermissions" },
       { name: "spender", type: "address" },
-      { name: "sigDeadline", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
     ],
-    PermitDetails: [
+    TokenPermissions: [
       { name: "token", type: "address" },
-      { name: "amount", type: "uint160" }, // Note: Permit2 uses uint160 for amount
-      { name: "expiration", type: "uint48" },
-      { name: "nonce", type: "uint48" },
+      { name: "amount", type: "uint256" },
     ],
   };
 }
 
+const CCTP_TRANSFER_WITNESS_FIELDS = [
+  { name: "recipient", type: "bytes32" },
+  { name: "destinationDomain", type: "uint32" },
+  { name: "maxFee", type: "uint256" },
+];
+
 /**
- * Generate Permit2 EIP-712 signature
- * @param signer - Ethers wallet (user's wallet)
- * @param permit - Permit details
- * @param chainId - Chain ID
- * @returns Hex-encoded signature string
+ * Get Permit2 EIP-712 types for signing a permit with a CctpTransferWitness
  */
-export async function generatePermit2Signature(
-  signer: ethers.Wallet,
-  permit: Permit2Permit,
-  chainId: number
-): Promise<string> {
-  const domain = getPermit2Domain(chainId);
-  const types = getPermit2Types();
+export function getPermit2WitnessTypes() {
+  return {
+    PermitWitnessTransferFrom: [
+      { name: "permitted", type: "TokenPermissions" },
+      { name: "spender", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+      { name: "witness", type: "CctpTransferWitness" },
+    ],
+    CctpTransferWitness: CCTP_TRANSFER_WITNESS_FIELDS,
+    TokenPermissions: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+  };
+}
 
-  // Convert value to uint160 (Permit2 uses uint160 for amounts)
-  // Clamp to max uint160 value if needed
-  const maxUint160 = BigInt("0xffffffffffffffffffffffffffffffffffffffff");
-  const amount = permit.value > maxUint160 ? maxUint160 : permit.value;
+/**
+ * Witness type string passed to `permitWitnessTransferFrom`
+ *
+ * Permit2 appends it to "PermitWitnessTransferFrom(TokenPermissions permitted,
+ * address spender,uint256 nonce,uint256 deadline," to build the type hash.
+ */
+export const CCTP_TRANSFER_WITNESS_TYPE_STRING =
+  "CctpTransferWitness witness)" +
+  "CctpTransferWitness(bytes32 recipient,uint32 destinationDomain,uint256 maxFee)" +
+  "TokenPermissions(address token,uint256 amount)";
 
-  // Convert deadline to uint48
-  const maxUint48 = BigInt("0xffffffffffff");
-  const expiration = permit.deadline > maxUint48 ? maxUint48 : permit.deadline;
+/**
+ * Build the witness of a transfer
+ * @param recipient - Recipient on the destination chain (Aptos or EVM address)
+ * @param destinationDomain - Circle CCTP domain of the destination chain (see the chain registry)
+ * @param maxFee - Most USDC smallest units that may be deducted (default: 0, i.e. no relayer fee)
+ */
+export function createCctpTransferWitness(
+  recipient: string,
+  destinationDomain: number,
+  maxFee: bigint = 0n
+): CctpTransferWitness {
+  return { recipient: toWitnessRecipient(recipient), destinationDomain, maxFee };
+}
 
-  // Convert nonce to uint48
-  const nonce = permit.nonce > maxUint48 ? maxUint48 : permit.nonce;
+/**
+ * Encode an address as the bytes32 recipient of a witness
+ *
+ * Aptos addresses are 32 bytes; shorter ones (e.g. EVM addresses or "0x1")
+ * are left-padded with zeros, as CCTP does for `mintRecipient`.
+ */
+export function toWitnessRecipient(address: string): string {
+  const hex = address.replace(/^0x/i, "").toLowerCase();
+  if (!/^[0-9a-f]{1,64}$/.test(hex)) {
+    throw new Error(`Invalid witness recipient "${address}": expected at most 32 bytes of hex`);
+  }
+  return `0x${hex.padStart(64, "0")}`;
+}
 
-  const value = {
-    details: {
+/**
+ * EIP-712 hash of a witness (the `witness` argument of `permitWitnessTransferFrom`)
+ */
+export function hashCctpTransferWitness(witness: CctpTransferWitness): string {
+  return TypedDataEncoder.hashStruct("CctpTransferWitness", { CctpTransferWitness: CCTP_TRANSFER_WITNESS_FIELDS }, {
+    recipient: witness.recipient,
+    destinationDomain: witness.destinationDomain,
+    maxFee: witness.maxFee.toString(),
+  });
+}
+
+/**
+ * Build the types and message signed for a permit
+ * (PermitWitnessTransferFrom if it has a witness, PermitTransferFrom otherwise)
+ */
+function getPermit2TypedData(permit: Permit2Permit) {
+  const message = {
+    permitted: {
       token: permit.token,
-      amount: amount.toString(),
-      expiration: expiration.toString(),
-      nonce: nonce.toString(),
+      amount: permit.value.toString(),
     },
     spender: permit.spender,
-    sigDeadline: permit.deadline.toString(),
+    nonce: permit.nonce.toString(),
+    deadline: permit.deadline.toString(),
   };
+  if (!permit.witness) {
+    return { types: getPermit2Types(), message };
+  }
+  return {
+    types: getPermit2WitnessTypes(),
+    message: {
+      ...message,
+      witness: {
+        recipient: permit.witness.recipient,
+        destinationDomain: permit.witness.destinationDomain,
+        maxFee: permit.witness.maxFee.toString(),
+      },
+    },
+  };
+}
 
-  // Sign the typed data
-  // Use TypedDataEncoder to get the full digest, then sign it
-  const encoder = new TypedDataEncoder(types);
-  const digest = TypedDataEncoder.hash(domain, types, value);
-  
-  // Sign the digest
-  const signature = await signer.signingKey.sign(digest);
-  return signature.serialized;
+/**
+ * EIP-712 digest of a permit (what its owner signs)
+ * @param permit - Permit details
+ * @param chainId - Chain ID
+ * @returns Hex-encoded bytes32 digest
+ */
+export function hashPermit2Permit(permit: Permit2Permit, chainId: number): string {
+  const { types, message } = getPermit2TypedData(permit);
+  return TypedDataEncoder.hash(getPermit2Domain(chainId), types, message);
+}
+
+/**
+ * Build the `eth_signTypedData_v4` payload of a permit
+ *
+ * A wallet (e.g. MetaMask through EIP-1193) signs it as-is, so a frontend can
+ * request the user's signature without the SDK holding a key.
+ * @param permit - Permit details
+ * @param chainId - Chain ID
+ * @returns JSON-safe payload (EIP712Domain included, uint256 values as decimal strings)
+ */
+export function buildPermit2TypedData(permit: Permit2Permit, chainId: number): TypedDataPayload {
+  const { types, message } = getPermit2TypedData(permit);
+  return TypedDataEncoder.getPayload(getPermit2Domain(chainId), types, message);
+}
+
+/**
+ * Generate Permit2 EIP-712 signature
+ * @param signer - Any ethers signer of the user's wallet (Wallet, JsonRpcSigner, hardware wallet, ...)
+ * @param permit - Permit details
+ * @param chainId - Chain ID
+ * @returns Hex-encoded signature string
+ */
+export async function generatePermit2Signature(
+  signer: ethers.Signer,
+  permit: Permit2Permit,
+  chainId: number
+): Promise<string> {
+  const { types, message } = getPermit2TypedData(permit);
+  return signer.signTypedData(getPermit2Domain(chainId), types, message);
+}
+
+/**
+ * Request a permit's signature from an EIP-1193 wallet (e.g. `window.ethereum`)
+ * @param ethereum - EIP-1193 provider holding the permit owner's account
+ * @param permit - Permit details
+ * @param chainId - Chain ID
+ * @returns Hex-encoded signature string
+ */
+export async function requestPermit2Signature(
+  ethereum: ethers.Eip1193Provider,
+  permit: Permit2Permit,
+  chainId: number
+): Promise<string> {
+  return ethereum.request({
+    method: "eth_signTypedData_v4",
+    params: [permit.owner, JSON.stringify(buildPermit2TypedData(permit, chainId))],
+  });
 }
 
 /**
  * Verify Permit2 EIP-712 signature
+ *
+ * Without a provider the check is ecrecover only. With one, smart account
+ * signatures (EIP-1271, ERC-6492) are accepted too, and the result is a promise.
  * @param permit - Permit details
  * @param signature - Hex-encoded signature string
  * @param chainId - Chain ID
  * @param expectedOwner - Expected owner address (to verify signature matches)
+ * @param logger - Optional logger for diagnostics (silent by default)
+ * @param provider - Optional provider of the permit's chain (see verifyTypedDataSignature)
  * @returns true if signature is valid
  */
 export function verifyPermit2Signature(
   permit: Permit2Permit,
   signature: string,
   chainId: number,
-  expectedOwner: string
-): boolean {
+  expectedOwner: string,
+  logger?: Logger
+): boolean;
+export function verifyPermit2Signature(
+  permit: Permit2Permit,
+  signature: string,
+  chainId: number,
+  expectedOwner: string,
+  logger: Logger | undefined,
+  provider: SignatureProvider
+): Promise<boolean>;
+export function verifyPermit2Signature(
+  permit: Permit2Permit,
+  signature: string,
+  chainId: number,
+  expectedOwner: string,
+  logger?: Logger,
+  provider?: SignatureProvider
+): boolean | Promise<boolean>;
+export function verifyPermit2Signature(
+  permit: Permit2Permit,
+  signature: string,
+  chainId: number,
+  expectedOwner: string,
+  logger: Logger = silentLogger,
+  provider?: SignatureProvider
+): boolean | Promise<boolean> {
+  if (provider) {
+    return verifyTypedDataSignature(provider, expectedOwner, hashPermit2Permit(permit, chainId), signature, logger);
+  }
   try {
-    const domain = getPermit2Domain(chainId);
-    const types = getPermit2Types();
-
-    // Convert value to uint160
-    const maxUint160 = BigInt("0xffffffffffffffffffffffffffffffffffffffff");
-    const amount = permit.value > maxUint160 ? maxUint160 : permit.value;
-
-    // Convert deadline to uint48
-    const maxUint48 = BigInt("0xffffffffffff");
-    const expiration = permit.deadline > maxUint48 ? maxUint48 : permit.deadline;
-    const nonce = permit.nonce > maxUint48 ? maxUint48 : permit.nonce;
-
-    const value = {
-      details: {
-        token: permit.token,
-        amount: amount.toString(),
-        expiration: expiration.toString(),
-        nonce: nonce.toString(),
-      },
-      spender: permit.spender,
-      sigDeadline: permit.deadline.toString(),
-    };
-
-    // Recover the signer from the signature using TypedDataEncoder
-    const digest = TypedDataEncoder.hash(domain, types, value);
+    // Recover the signer from the signature and the EIP-712 digest
+    const digest = hashPermit2Permit(permit, chainId);
     const recoveredAddress = ethers.recoverAddress(digest, signature);
 
     // Verify the recovered address matches the expected owner
     const matches = recoveredAddress.toLowerCase() === expectedOwner.toLowerCase();
     
     if (!matches) {
-      console.error(`❌ Permit2 signature verification failed: recovered ${recoveredAddress}, expected ${expectedOwner}`);
+      logger.error(`Permit2 signature verification failed: recovered ${recoveredAddress}, expected ${expectedOwner}`);
     }
     
     return matches;
   } catch (error: any) {
-    console.error(`❌ Error verifying Permit2 signature:`, error.message);
+    logger.error(`Error verifying Permit2 signature:`, error.message);
     return false;
   }
 }
@@ -225,6 +388,7 @@ export function splitSignature(signature: string): Permit2Signature {
 
 /**
  * Helper to create a permit with default deadline (1 hour from now)
+ * The spender must be the sponsor wallet that will submit the permit.
  */
 export function createPermit(
   owner: string,
@@ -232,7 +396,8 @@ export function createPermit(
   token: string,
   value: bigint,
   nonce: bigint,
-  deadlineOffsetSeconds: number = 3600 // 1 hour default
+  deadlineOffsetSeconds: number = 3600, // 1 hour default
+  witness?: CctpTransferWitness // Optional: Bind the permit to a recipient (see createCctpTransferWitness)
 ): Permit2Permit {
   const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineOffsetSeconds);
   
@@ -243,6 +408,361 @@ export function createPermit(
     value,
     nonce,
     deadline,
+    ...(witness && { witness }),
   };
 }
 
+/**
+ * Permit2Permit in JSON form (uint256 fields as decimal strings)
+ */
+export type SerializedPermit2Permit = Omit<Permit2Permit, 'value' | 'nonce' | 'deadline' | 'witness'> & {
+  value: string;
+  nonce: string;
+  deadline: string;
+  witness?: Omit<CctpTransferWitness, 'maxFee'> & { maxFee: string };
+};
+
+/**
+ * Convert a permit to its JSON form
+ */
+export function serializePermit2Permit(permit: Permit2Permit): SerializedPermit2Permit {
+  return {
+    ...permit,
+    value: permit.value.toString(),
+    nonce: permit.nonce.toString(),
+    deadline: permit.deadline.toString(),
+    witness: permit.witness && { ...permit.witness, maxFee: permit.witness.maxFee.toString() },
+  };
+}
+
+/**
+ * Convert a permit from its JSON form
+ */
+export function parsePermit2Permit(permit: SerializedPermit2Permit): Permit2Permit {
+  return {
+    ...permit,
+    value: BigInt(permit.value),
+    nonce: BigInt(permit.nonce),
+    deadline: BigInt(permit.deadline),
+    witness: permit.witness && { ...permit.witness, maxFee: BigInt(permit.witness.maxFee) },
+  };
+}
+
+/**
+ * Token and amount of a batch entry
+ */
+export interface Permit2TokenPermissions {
+  token: string;
+  amount: bigint; // Smallest units
+}
+
+/**
+ * Permit2 SignatureTransfer batch: every entry is pulled by one `permitTransferFrom`
+ */
+export interface Permit2BatchTransferPermit {
+  owner: string;
+  spender: string; // Address allowed to submit the permit (the sponsor wallet)
+  permitted: Permit2TokenPermissions[];
+  nonce: bigint; // Unordered Permit2 nonce, consumed by the single transfer
+  deadline: bigint;
+}
+
+/**
+ * Allowance of one token in a Permit2 AllowanceTransfer batch
+ */
+export interface Permit2AllowanceDetails {
+  token: string;
+  amount: bigint; // Allowance in smallest units (uint160)
+  expiration: number; // Unix timestamp in seconds after which the allowance is void
+  nonce: number; // Current AllowanceTransfer nonce of (owner, token, spender), see getPermit2Allowance
+}
+
+/**
+ * Permit2 AllowanceTransfer batch (`PermitBatch`): sets allowances the spender
+ * can draw from with any number of `transferFrom` calls
+ */
+export interface Permit2AllowanceBatch {
+  owner: string;
+  spender: string; // Address allowed to draw from the allowances (the sponsor wallet)
+  details: Permit2AllowanceDetails[];
+  sigDeadline: bigint; // The permit must be submitted before this Unix timestamp (seconds)
+}
+
+/**
+ * Either kind of batch permit
+ */
+export type Permit2BatchPermit = Permit2BatchTransferPermit | Permit2AllowanceBatch;
+
+/**
+ * Get Permit2 EIP-712 types for signing a PermitBatchTransferFrom
+ */
+export function getPermit2BatchTransferTypes() {
+  return {
+    PermitBatchTransferFrom: [
+      { name: "permitted", type: "TokenPermissions[]" },
+      { name: "spender", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+    TokenPermissions: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+  };
+}
+
+/**
+ * Get Permit2 EIP-712 types for signing a PermitBatch
+ */
+export function getPermit2AllowanceBatchTypes() {
+  return {
+    PermitBatch: [
+      { name: "details", type: "PermitDetails[]" },
+      { name: "spender", type: "address" },
+      { name: "sigDeadline", type: "uint256" },
+    ],
+    PermitDetails: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint160" },
+      { name: "expiration", type: "uint48" },
+      { name: "nonce", type: "uint48" },
+    ],
+  };
+}
+
+/**
+ * Whether a permit is an AllowanceTransfer PermitBatch
+ */
+export function isPermit2AllowanceBatch(
+  permit: Permit2Permit | Permit2BatchPermit
+): permit is Permit2AllowanceBatch {
+  return "details" in permit;
+}
+
+/**
+ * Build the types and message signed for a batch permit
+ */
+function getPermit2BatchTypedData(permit: Permit2BatchPermit) {
+  if (isPermit2AllowanceBatch(permit)) {
+    return {
+      types: getPermit2AllowanceBatchTypes(),
+      message: {
+        details: permit.details.map((detail) => ({
+          token: detail.token,
+          amount: detail.amount.toString(),
+          expiration: detail.expiration,
+          nonce: detail.nonce,
+        })),
+        spender: permit.spender,
+        sigDeadline: permit.sigDeadline.toString(),
+      },
+    };
+  }
+  return {
+    types: getPermit2BatchTransferTypes(),
+    message: {
+      permitted: permit.permitted.map((entry) => ({ token: entry.token, amount: entry.amount.toString() })),
+      spender: permit.spender,
+      nonce: permit.nonce.toString(),
+      deadline: permit.deadline.toString(),
+    },
+  };
+}
+
+/**
+ * Helper to create a SignatureTransfer batch with default deadline (1 hour from now)
+ */
+export function createPermitBatchTransfer(
+  owner: string,
+  spender: string,
+  permitted: Permit2TokenPermissions[],
+  nonce: bigint,
+  deadlineOffsetSeconds: number = 3600 // 1 hour default
+): Permit2BatchTransferPermit {
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineOffsetSeconds);
+  return { owner, spender, permitted, nonce, deadline };
+}
+
+/**
+ * Helper to create an AllowanceTransfer batch whose signature and allowances
+ * expire after the same offset (default 1 hour from now)
+ * @param details - Token, amount and current AllowanceTransfer nonce of every allowance
+ */
+export function createPermitBatch(
+  owner: string,
+  spender: string,
+  details: Array<Omit<Permit2AllowanceDetails, 'expiration'> & { expiration?: number }>,
+  deadlineOffsetSeconds: number = 3600 // 1 hour default
+): Permit2AllowanceBatch {
+  const deadline = Math.floor(Date.now() / 1000) + deadlineOffsetSeconds;
+  return {
+    owner,
+    spender,
+    details: details.map((detail) => ({ ...detail, expiration: detail.expiration ?? deadline })),
+    sigDeadline: BigInt(deadline),
+  };
+}
+
+/**
+ * EIP-712 digest of a batch permit (what its owner signs)
+ * @param permit - PermitBatchTransferFrom or PermitBatch details
+ * @param chainId - Chain ID
+ * @returns Hex-encoded bytes32 digest
+ */
+export function hashPermit2BatchPermit(permit: Permit2BatchPermit, chainId: number): string {
+  const { types, message } = getPermit2BatchTypedData(permit);
+  return TypedDataEncoder.hash(getPermit2Domain(chainId), types, message);
+}
+
+/**
+ * Build the `eth_signTypedData_v4` payload of a batch permit
+ * @param permit - PermitBatchTransferFrom or PermitBatch details
+ * @param chainId - Chain ID
+ */
+export function buildPermit2BatchTypedData(permit: Permit2BatchPermit, chainId: number): TypedDataPayload {
+  const { types, message } = getPermit2BatchTypedData(permit);
+  return TypedDataEncoder.getPayload(getPermit2Domain(chainId), types, message);
+}
+
+/**
+ * Generate the Permit2 EIP-712 signature of a batch permit
+ * @param signer - Any ethers signer of the user's wallet
+ * @param permit - PermitBatchTransferFrom or PermitBatch details
+ * @param chainId - Chain ID
+ * @returns Hex-encoded signature string
+ */
+export async function generatePermit2BatchSignature(
+  signer: ethers.Signer,
+  permit: Permit2BatchPermit,
+  chainId: number
+): Promise<string> {
+  const { types, message } = getPermit2BatchTypedData(permit);
+  return signer.signTypedData(getPermit2Domain(chainId), types, message);
+}
+
+/**
+ * Verify the Permit2 EIP-712 signature of a batch permit
+ *
+ * Like verifyPermit2Signature, a provider also accepts smart account signatures.
+ * @param permit - PermitBatchTransferFrom or PermitBatch details
+ * @param signature - Hex-encoded signature string
+ * @param chainId - Chain ID
+ * @param expectedOwner - Expected owner address (to verify signature matches)
+ * @param logger - Optional logger for diagnostics (silent by default)
+ * @param provider - Optional provider of the permit's chain (see verifyTypedDataSignature)
+ * @returns true if signature is valid
+ */
+export function verifyPermit2BatchSignature(
+  permit: Permit2BatchPermit,
+  signature: string,
+  chainId: number,
+  expectedOwner: string,
+  logger?: Logger
+): boolean;
+export function verifyPermit2BatchSignature(
+  permit: Permit2BatchPermit,
+  signature: string,
+  chainId: number,
+  expectedOwner: string,
+  logger: Logger | undefined,
+  provider: SignatureProvider
+): Promise<boolean>;
+export function verifyPermit2BatchSignature(
+  permit: Permit2BatchPermit,
+  signature: string,
+  chainId: number,
+  expectedOwner: string,
+  logger?: Logger,
+  provider?: SignatureProvider
+): boolean | Promise<boolean>;
+export function verifyPermit2BatchSignature(
+  permit: Permit2BatchPermit,
+  signature: string,
+  chainId: number,
+  expectedOwner: string,
+  logger: Logger = silentLogger,
+  provider?: SignatureProvider
+): boolean | Promise<boolean> {
+  if (provider) {
+    return verifyTypedDataSignature(provider, expectedOwner, hashPermit2BatchPermit(permit, chainId), signature, logger);
+  }
+  try {
+    const digest = hashPermit2BatchPermit(permit, chainId);
+    const recoveredAddress = ethers.recoverAddress(digest, signature);
+
+    const matches = recoveredAddress.toLowerCase() === expectedOwner.toLowerCase();
+    if (!matches) {
+      logger.error(`Permit2 batch signature verification failed: recovered ${recoveredAddress}, expected ${expectedOwner}`);
+    }
+    return matches;
+  } catch (error: any) {
+    logger.error(`Error verifying Permit2 batch signature:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Permit2BatchTransferPermit in JSON form (uint256 fields as decimal strings)
+ */
+export type SerializedPermit2BatchTransferPermit = Omit<Permit2BatchTransferPermit, 'permitted' | 'nonce' | 'deadline'> & {
+  permitted: Array<{ token: string; amount: string }>;
+  nonce: string;
+  deadline: string;
+};
+
+/**
+ * Permit2AllowanceBatch in JSON form (amounts and deadline as decimal strings)
+ */
+export type SerializedPermit2AllowanceBatch = Omit<Permit2AllowanceBatch, 'details' | 'sigDeadline'> & {
+  details: Array<Omit<Permit2AllowanceDetails, 'amount'> & { amount: string }>;
+  sigDeadline: string;
+};
+
+/**
+ * Either kind of batch permit in JSON form
+ */
+export type SerializedPermit2BatchPermit = SerializedPermit2BatchTransferPermit | SerializedPermit2AllowanceBatch;
+
+/**
+ * Convert a batch permit to its JSON form
+ */
+export function serializePermit2BatchPermit(permit: Permit2AllowanceBatch): SerializedPermit2AllowanceBatch;
+export function serializePermit2BatchPermit(permit: Permit2BatchTransferPermit): SerializedPermit2BatchTransferPermit;
+export function serializePermit2BatchPermit(permit: Permit2BatchPermit): SerializedPermit2BatchPermit;
+export function serializePermit2BatchPermit(permit: Permit2BatchPermit): SerializedPermit2BatchPermit {
+  if (isPermit2AllowanceBatch(permit)) {
+    return {
+      ...permit,
+      details: permit.details.map((detail) => ({ ...detail, amount: detail.amount.toString() })),
+      sigDeadline: permit.sigDeadline.toString(),
+    };
+  }
+  return {
+    ...permit,
+    permitted: permit.permitted.map((entry) => ({ ...entry, amount: entry.amount.toString() })),
+    nonce: permit.nonce.toString(),
+    deadline: permit.deadline.toString(),
+  };
+}
+
+/**
+ * Convert a batch permit from its JSON form
+ */
+export function parsePermit2BatchPermit(permit: SerializedPermit2AllowanceBatch): Permit2AllowanceBatch;
+export function parsePermit2BatchPermit(permit: SerializedPermit2BatchTransferPermit): Permit2BatchTransferPermit;
+export function parsePermit2BatchPermit(permit: SerializedPermit2BatchPermit): Permit2BatchPermit;
+export function parsePermit2BatchPermit(permit: SerializedPermit2BatchPermit): Permit2BatchPermit {
+  if ("details" in permit) {
+    return {
+      ...permit,
+      details: permit.details.map((detail) => ({ ...detail, amount: BigInt(detail.amount) })),
+      sigDeadline: BigInt(permit.sigDeadline),
+    };
+  }
+  return {
+    ...permit,
+    permitted: permit.permitted.map((entry) => ({ ...entry, amount: BigInt(entry.amount) })),
+    nonce: BigInt(permit.nonce),
+    deadline: BigInt(permit.deadline),
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * Permit2 On-Chain Execution
+ *
+ * Submits a user's signed Permit2 transfer to the Permit2 contract so the
+ * sponsor can move the user's USDC and pay the gas for it.
+ */
+
+import { ethers } from "ethers";
+import { FluidError } from "./errors";
+import {
+  getPermit2Address,
+  hashCctpTransferWitness,
+  CCTP_TRANSFER_WITNESS_TYPE_STRING,
+  type Permit2Permit,
+  type Permit2BatchTransferPermit,
+  type Permit2AllowanceBatch,
+} from "./permit2";
+
+/**
+ * Minimal Permit2 ABI (SignatureTransfer and AllowanceTransfer)
+ *
+ * `permitTransferFrom` is overloaded (single and batch), so it is called by
+ * its full signature.
+ */
+export const PERMIT2_ABI = [
+  "function permitTransferFrom(((address token, uint256 amount) permitted, uint256 nonce, uint256 deadline) permit, (address to, uint256 requestedAmount) transferDetails, address owner, bytes signature)",
+  "function permitWitnessTransferFrom(((address token, uint256 amount) permitted, uint256 nonce, uint256 deadline) permit, (address to, uint256 requestedAmount) transferDetails, address owner, bytes32 witness, string witnessTypeString, bytes signature)",
+  "function permitTransferFrom(((address token, uint256 amount)[] permitted, uint256 nonce, uint256 deadline) permit, (address to, uint256 requestedAmount)[] transferDetails, address owner, bytes signature)",
+  "function permit(address owner, ((address token, uint160 amount, uint48 expiration, uint48 nonce)[] details, address spender, uint256 sigDeadline) permitBatch, bytes signature)",
+  "function transferFrom(address from, address to, uint160 amount, address token)",
+  "function nonceBitmap(address owner, uint256 wordPosition) view returns (uint256)",
+  "function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)",
+];
+
+/**
+ * AllowanceTransfer state of an (owner, token, spender) triple
+ */
+export interface Permit2Allowance {
+  amount: bigint; // Amount the spender may still transfer
+  expiration: number; // Unix timestamp in seconds after which the allowance is void
+  nonce: number; // Nonce the next PermitSingle/PermitBatch must be signed with
+}
+
+/**
+ * Minimal ERC-20 ABI used for preflight checks
+ */
+export const ERC20_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+];
+
+/**
+ * Read a wallet's token balance and its ERC-20 allowance to the Permit2 contract
+ * @param provider - Provider for the token's chain
+ * @param token - Token contract address
+ * @param owner - Wallet address
+ */
+export async function getPermit2Funding(
+  provider: ethers.Provider,
+  token: string,
+  owner: string
+): Promise<{ balance: bigint; permit2Allowance: bigint }> {
+  const erc20 = new ethers.Contract(token, ERC20_ABI, provider);
+  const [balance, permit2Allowance] = await Promise.all([
+    erc20.balanceOf(owner) as Promise<bigint>,
+    erc20.allowance(owner, getPermit2Address()) as Promise<bigint>,
+  ]);
+  return { balance, permit2Allowance };
+}
+
+/**
+ * Read the AllowanceTransfer allowance the Permit2 contract holds for a spender
+ *
+ * AllowanceTransfer nonces are ordered: a `PermitSingle` for this triple must
+ * be signed with the returned `nonce`.
+ * @param provider - Provider for the token's chain
+ * @param owner - Token owner
+ * @param token - Token contract address
+ * @param spender - Spender of the allowance
+ */
+export async function getPermit2Allowance(
+  provider: ethers.Provider,
+  owner: string,
+  token: string,
+  spender: string
+): Promise<Permit2Allowance> {
+  const permit2 = new ethers.Contract(getPermit2Address(), PERMIT2_ABI, provider);
+  const [amount, expiration, nonce] = await permit2.allowance(owner, token, spender);
+  return { amount, expiration: Number(expiration), nonce: Number(nonce) };
+}
+
+/**
+ * Check whether a SignatureTransfer nonce of an owner was already used (or invalidated)
+ *
+ * SignatureTransfer nonces are unordered: bit `nonce & 0xff` of word
+ * `nonce >> 8` in the owner's `nonceBitmap` is set once the nonce is spent.
+ * @param provider - Provider for the permit's chain
+ * @param owner - Permit owner
+ * @param nonce - Permit nonce
+ */
+export async function isPermit2NonceUsed(
+  provider: ethers.Provider,
+  owner: string,
+  nonce: bigint
+): Promise<boolean> {
+  const permit2 = new ethers.Contract(getPermit2Address(), PERMIT2_ABI, provider);
+  const bitmap: bigint = await permit2.nonceBitmap(owner, nonce >> 8n);
+  return (bitmap >> (nonce & 0xffn)) & 1n ? true : false;
+}
+
+/**
+ * Find the lowest unused SignatureTransfer nonce of an owner
+ * @param provider - Provider for the permit's chain
+ * @param owner - Permit owner
+ * @param fromNonce - Lowest nonce to consider (default: 0)
+ * @returns Lowest nonce >= fromNonce that has not been used
+ */
+export async function findUnusedPermit2Nonce(
+  provider: ethers.Provider,
+  owner: string,
+  fromNonce: bigint = 0n
+): Promise<bigint> {
+  const permit2 = new ethers.Contract(getPermit2Address(), PERMIT2_ABI, provider);
+  for (let word = fromNonce >> 8n; ; word++) {
+    const bitmap: bigint = await permit2.nonceBitmap(owner, word);
+    const firstBit = word === fromNonce >> 8n ? fromNonce & 0xffn : 0n;
+    for (let bit = firstBit; bit < 256n; bit++) {
+      if (((bitmap >> bit) & 1n) === 0n) {
+        return (word << 8n) | bit;
+      }
+    }
+  }
+}
+
+/**
+ * Move tokens from the permit owner to `to` with a signed Permit2 transfer
+ *
+ * The transaction must be sent by `permit.spender`; it pays the gas. A permit
+ * with a witness is submitted to `permitWitnessTransferFrom`.
+ * @param spender - Signer of the permit's spender (the sponsor)
+ * @param permit - Signed permit
+ * @param signature - Owner's Permit2 signature
+ * @param to - Recipient of the tokens (defaults to the spender)
+ * @returns Hash of the mined transaction
+ */
+export async function executePermitTransferFrom(
+  spender: ethers.Signer,
+  permit: Permit2Permit,
+  signature: string,
+  to?: string
+): Promise<string> {
+  const permit2 = new ethers.Contract(getPermit2Address(), PERMIT2_ABI, spender);
+  const recipient = to ?? await spender.getAddress();
+
+  const permitted = {
+    permitted: { token: permit.token, amount: permit.value },
+    nonce: permit.nonce,
+    deadline: permit.deadline,
+  };
+  const transferDetails = { to: recipient, requestedAmount: permit.value };
+  const tx: ethers.TransactionResponse = permit.witness
+    ? await permit2.permitWitnessTransferFrom(
+        permitted,
+        transferDetails,
+        permit.owner,
+        hashCctpTransferWitness(permit.witness),
+        CCTP_TRANSFER_WITNESS_TYPE_STRING,
+        signature
+      )
+    : await permit2.getFunction(PERMIT_TRANSFER_FROM)(permitted, transferDetails, permit.owner, signature);
+  return waitForPermit2Tx(tx, "transfer");
+}
+
+/**
+ * Move every entry of a signed Permit2 batch from its owner to `to` in one transaction
+ *
+ * The transaction must be sent by `permit.spender`; it pays the gas.
+ * @param spender - Signer of the permit's spender (the sponsor)
+ * @param permit - Signed PermitBatchTransferFrom
+ * @param signature - Owner's Permit2 signature
+ * @param to - Recipient of the tokens (defaults to the spender)
+ * @returns Hash of the mined transaction
+ */
+export async function executePermitBatchTransferFrom(
+  spender: ethers.Signer,
+  permit: Permit2BatchTransferPermit,
+  signature: string,
+  to?: string
+): Promise<string> {
+  const permit2 = new ethers.Contract(getPermit2Address(), PERMIT2_ABI, spender);
+  const recipient = to ?? await spender.getAddress();
+
+  const tx: ethers.TransactionResponse = await permit2.getFunction(PERMIT_BATCH_TRANSFER_FROM)(
+    {
+      permitted: permit.permitted.map((entry) => ({ token: entry.token, amount: entry.amount })),
+      nonce: permit.nonce,
+      deadline: permit.deadline,
+    },
+    permit.permitted.map((entry) => ({ to: recipient, requestedAmount: entry.amount })),
+    permit.owner,
+    signature
+  );
+  return waitForPermit2Tx(tx, "batch transfer");
+}
+
+/**
+ * Submit a signed Permit2 PermitBatch, setting the spender's allowances
+ *
+ * Can be sent by anyone; the sponsor sends it so the user pays no gas.
+ * @param sender - Signer that submits (and pays for) the permit
+ * @param permit - Signed PermitBatch
+ * @param signature - Owner's Permit2 signature
+ * @returns Hash of the mined transaction
+ */
+export async function executePermitBatch(
+  sender: ethers.Signer,
+  permit: Permit2AllowanceBatch,
+  signature: string
+): Promise<string> {
+  const permit2 = new ethers.Contract(getPermit2Address(), PERMIT2_ABI, sender);
+  const tx: ethers.TransactionResponse = await permit2.permit(
+    permit.owner,
+    {
+      details: permit.details.map((detail) => ({
+        token: detail.token,
+        amount: detail.amount,
+        expiration: detail.expiration,
+        nonce: detail.nonce,
+      })),
+      spender: permit.spender,
+      sigDeadline: permit.sigDeadline,
+    },
+    signature
+  );
+  return waitForPermit2Tx(tx, "permit");
+}
+
+/**
+ * Draw tokens from a Permit2 AllowanceTransfer allowance
+ *
+ * The transaction must be sent by the allowance's spender; it pays the gas.
+ * @param spender - Signer of the allowance's spender (the sponsor)
+ * @param owner - Token owner
+ * @param token - Token contract address
+ * @param amount - Amount in smallest units
+ * @param to - Recipient of the tokens (defaults to the spender)
+ * @returns Hash of the mined transaction
+ */
+export async function executeAllowanceTransferFrom(
+  spender: ethers.Signer,
+  owner: string,
+  token: string,
+  amount: bigint,
+  to?: string
+): Promise<string> {
+  const permit2 = new ethers.Contract(getPermit2Address(), PERMIT2_ABI, spender);
+  const recipient = to ?? await spender.getAddress();
+  const tx: ethers.TransactionResponse = await permit2.transferFrom(owner, recipient, amount, token);
+  return waitForPermit2Tx(tx, "allowance transfer");
+}
+
+const PERMIT_TRANSFER_FROM =
+  "permitTransferFrom(((address,uint256),uint256,uint256),(address,uint256),address,bytes)";
+const PERMIT_BATCH_TRANSFER_FROM =
+  "permitTransferFrom(((address,uint256)[],uint256,uint256),(address,uint256)[],address,bytes)";
+
+/**
+ * Wait for a Permit2 transaction to be mined
+ * @throws FluidError (SOURCE_FAILED) with the transaction as `permitTx`; not
+ *   retryable unless it reverted, since a transaction whose receipt couldn't be
+ *   read may still be mined
+ */
+async function waitForPermit2Tx(tx: ethers.TransactionResponse, kind: string): Promise<string> {
+  let receipt: ethers.TransactionReceipt | null;
+  try {
+    receipt = await tx.wait();
+  } catch (error) {
+    if (ethers.isError(error, "CALL_EXCEPTION") && error.receipt) {
+      throw new FluidError('SOURCE_FAILED', `Permit2 ${kind} ${tx.hash} reverted`, { permitTx: tx.hash, cause: error });
+    }
+    throw new FluidError(
+      'SOURCE_FAILED',
+      `Permit2 ${kind} ${tx.hash} was sent but its receipt could not be read; check whether it was mined before retrying. ` +
+      `Error: ${(error as any)?.message ?? error}`,
+      { permitTx: tx.hash, retryable: false, cause: error }
+    );
+  }
+  if (!receipt || receipt.status !== 1) {
+    throw new FluidError('SOURCE_FAILED', `Permit2 ${kind} ${tx.hash} reverted`, { permitTx: tx.hash });
+  }
+  return tx.hash;
+}
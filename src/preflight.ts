@@ -0,0 +1,428 @@
+/**
+ * Transfer Preflight
+ *
+ * Runs every check a transfer depends on without broadcasting anything:
+ * authorization, balances, the recipient, burn gas estimation and Aptos
+ * transaction simulation. Each check is reported separately, so an
+ * underfunded sponsor shows up before a transaction fails on chain.
+ */
+
+import { ethers } from "ethers";
+import { Wormhole } from "@wormhole-foundation/sdk";
+import { createTransferContext, TransferContext } from "./context";
+import { assertRelaySupported, recipientAptFunding, sponsorAddress, verifyTransferAuthorization } from "./transferStages";
+import { getPermit2Funding, ERC20_ABI } from "./permit2Contract";
+import { APTOS_CHAINS } from "./chains";
+import { getAptosRecipientStatus, isAptosAddress } from "./aptosAccount";
+import { USDC_DECIMALS, parseDecimalAmount } from "./amounts";
+import {
+  DEFAULT_GAS_UNITS,
+  estimateAptosGas,
+  estimateEvmGas,
+  pullsUserFunds,
+  userPullGasUnits,
+  GasEstimate,
+} from "./quote";
+import { FluidError, FluidErrorCode, toFluidError } from "./errors";
+import { silentLogger } from "./logger";
+import { TransferDirection } from "./types";
+import type { CctpTransferRequest } from "./cctpTransfer";
+
+/**
+ * Name of a preflight check
+ * - setup: config, RPC connections and sponsor keys
+ * - request: amount, options and the RPC's chain ID
+ * - relay: the Wormhole CCTP relayer serves the route (automatic only)
+ * - authorization: the user's Permit2 signature (user wallet only)
+ * - source-balance: USDC held by the wallet the transfer is funded from
+ * - permit2-allowance: the user's ERC-20 approval of Permit2 (user wallet only)
+ * - recipient: the destination address, and on Aptos that its account exists and can receive USDC
+ * - source-gas: gas estimation (EVM) or simulation (Aptos) of the burn
+ * - destination-simulation: simulation of a sponsor transaction on Aptos
+ * - sponsor-evm-balance / sponsor-aptos-balance: native gas held by the sponsors
+ */
+export type PreflightCheckName =
+  | 'setup'
+  | 'request'
+  | 'relay'
+  | 'authorization'
+  | 'source-balance'
+  | 'permit2-allowance'
+  | 'recipient'
+  | 'source-gas'
+  | 'destination-simulation'
+  | 'sponsor-evm-balance'
+  | 'sponsor-aptos-balance';
+
+/**
+ * Outcome of a single preflight check
+ */
+export interface PreflightCheck {
+  name: PreflightCheckName;
+  status: 'passed' | 'failed' | 'skipped';
+  message: string;
+  code?: FluidErrorCode; // Set when the check failed
+}
+
+/**
+ * Report returned by a dry run
+ */
+export interface PreflightReport {
+  passed: boolean; // No check failed
+  direction: TransferDirection;
+  sourceChain?: string; // Wormhole chain name (absent if setup failed)
+  destinationChain?: string;
+  checks: PreflightCheck[];
+  sourceGas?: GasEstimate; // Sponsor gas for the source transactions
+  destinationGas?: GasEstimate; // Sponsor gas for the destination mint (manual transfers only)
+  checkedAt: string; // ISO timestamp
+}
+
+/**
+ * Thrown by a check that doesn't apply to the request
+ */
+class SkippedCheck extends Error {}
+
+/**
+ * Run every transfer check without sending a transaction
+ * @param request - Transfer request (the same one that would be passed to transferUsdcViaCctp)
+ * @param context - Optional already-initialized transfer context
+ * @returns Report listing each check as passed, failed or skipped
+ */
+export async function runPreflight(
+  request: CctpTransferRequest,
+  context?: TransferContext
+): Promise<PreflightReport> {
+  const logger = request.logger ?? context?.logger ?? silentLogger;
+  const direction = request.direction ?? context?.direction ?? "base-to-aptos";
+  const checks: PreflightCheck[] = [];
+  const report = (): PreflightReport => ({
+    passed: checks.every((check) => check.status !== 'failed'),
+    direction,
+    sourceChain: ctx?.srcChainName,
+    destinationChain: ctx?.dstChainName,
+    checks,
+    sourceGas,
+    destinationGas,
+    checkedAt: new Date().toISOString(),
+  });
+
+  const run = async (name: PreflightCheckName, check: () => Promise<string>): Promise<void> => {
+    try {
+      const message = await check();
+      checks.push({ name, status: 'passed', message });
+      logger.info(`Preflight ${name}: ${message}`);
+    } catch (error) {
+      if (error instanceof SkippedCheck) {
+        checks.push({ name, status: 'skipped', message: error.message });
+        logger.debug(`Preflight ${name} skipped: ${error.message}`);
+        return;
+      }
+      const fluidError = toFluidError(error);
+      checks.push({ name, status: 'failed', message: fluidError.message, code: fluidError.code });
+      logger.warn(`Preflight ${name} failed [${fluidError.code}]: ${fluidError.message}`);
+    }
+  };
+
+  let ctx: TransferContext | undefined;
+  let sourceGas: GasEstimate | undefined;
+  let destinationGas: GasEstimate | undefined;
+  let recipientCreationCost = 0n; // Octas the sponsor spends creating the Aptos recipient
+
+  await run('setup', async () => {
+    if (context && context.direction !== direction) {
+      throw new FluidError('INVALID_REQUEST', `Request direction ${direction} does not match the context direction ${context.direction}`);
+    }
+    ctx = context ?? await createTransferContext(request.config, logger, direction);
+    return `Connected to ${ctx.srcChainName} and ${ctx.dstChainName} (${ctx.network})`;
+  });
+  if (!ctx) {
+    return report();
+  }
+  const transferCtx: TransferContext = ctx;
+  const { srcChainName, dstChainName, evmChain, baseSigner, aptosSigner } = transferCtx;
+
+  const amount = BigInt(Math.floor(parseFloat(request.amount) * 1_000_000));
+  const automatic = !!request.automatic;
+  const useUserWallet = !!request.fromAddress && !!request.signature;
+  const pullsFunds = pullsUserFunds(request);
+  const recipientAddress = request.destAddress || sponsorAddress(transferCtx, dstChainName);
+
+  await run('request', async () => {
+    if (!(amount > 0n)) {
+      throw new FluidError('INVALID_REQUEST', `Invalid amount "${request.amount}": must be a positive number`);
+    }
+    if (request.nativeGas && !automatic) {
+      throw new FluidError('INVALID_REQUEST', `nativeGas is only supported for automatic transfers`);
+    }
+    if (request.nativeGas) {
+      parseDecimalAmount(request.nativeGas, USDC_DECIMALS, "nativeGas");
+    }
+    if (useUserWallet && srcChainName === "Aptos") {
+      throw new FluidError('INVALID_REQUEST', `User wallet transfers (fromAddress/signature) are only supported from Base`);
+    }
+    const chainId = Number((await baseSigner.provider.getNetwork()).chainId);
+    if (chainId !== evmChain.chainId) {
+      throw new FluidError('INVALID_REQUEST', `RPC is connected to chain ${chainId}, but ${evmChain.key} is chain ${evmChain.chainId}`);
+    }
+    return `${request.amount} USDC from ${srcChainName} to ${dstChainName}`;
+  });
+
+  await run('relay', async () => {
+    if (!automatic) {
+      throw new SkippedCheck(`Manual transfer, completed by the sponsor`);
+    }
+    assertRelaySupported(transferCtx);
+    return `Wormhole CCTP relayer serves ${srcChainName} → ${dstChainName}`;
+  });
+
+  await run('authorization', async () => {
+    if (!useUserWallet) {
+      throw new SkippedCheck(`Sponsor wallet transfer`);
+    }
+    const authorization = await verifyTransferAuthorization(transferCtx, request, amount, logger);
+    if (!authorization) {
+      return `Placeholder signature accepted`;
+    }
+    const kind = authorization.method === "eip2612" ? "EIP-2612" : authorization.method === "permit2-batch" ? "Permit2 batch" : "Permit2";
+    return `${kind} signature verified for ${authorization.permit.owner}`;
+  });
+
+  await run('source-balance', async () => {
+    if (pullsFunds) {
+      const { balance } = await getPermit2Funding(baseSigner.provider, evmChain.usdcAddress, request.fromAddress!);
+      return assertBalance(balance, amount, `User wallet ${request.fromAddress}`, 'USDC units');
+    }
+    const balance = srcChainName === "Aptos"
+      ? await getAptosUsdcBalance(transferCtx, aptosSigner.address)
+      : await getEvmUsdcBalance(transferCtx, baseSigner.address);
+    return assertBalance(balance, amount, `Sponsor wallet on ${srcChainName}`, 'USDC units');
+  });
+
+  await run('permit2-allowance', async () => {
+    if (!pullsFunds) {
+      throw new SkippedCheck(`No Permit2 transfer`);
+    }
+    if (request.authorization?.kind === "eip2612") {
+      throw new SkippedCheck(`EIP-2612 permit, no Permit2 approval needed`);
+    }
+    const { permit2Allowance } = await getPermit2Funding(baseSigner.provider, evmChain.usdcAddress, request.fromAddress!);
+    if (permit2Allowance < amount) {
+      throw new FluidError(
+        'PERMIT2_NOT_APPROVED',
+        `User wallet ${request.fromAddress} has not approved the Permit2 contract to spend its USDC (allowance ${permit2Allowance}, ${amount} needed)`
+      );
+    }
+    return `Permit2 allowance ${permit2Allowance} USDC units`;
+  });
+
+  await run('recipient', async () => {
+    if (dstChainName !== "Aptos") {
+      if (!ethers.isAddress(recipientAddress)) {
+        throw new FluidError('RECIPIENT_INVALID', `Invalid ${dstChainName} address "${recipientAddress}"`);
+      }
+      return `${recipientAddress} on ${dstChainName}`;
+    }
+    if (!isAptosAddress(recipientAddress)) {
+      throw new FluidError('RECIPIENT_INVALID', `Invalid Aptos address "${recipientAddress}": expected 64 hex characters`);
+    }
+    const usdcAddress = APTOS_CHAINS[transferCtx.network as keyof typeof APTOS_CHAINS].usdcAddress;
+    const status = await getAptosRecipientStatus(aptosSigner.client, recipientAddress, usdcAddress);
+    if (status.frozen) {
+      throw new FluidError('RECIPIENT_INVALID', `Aptos recipient ${recipientAddress} can't receive USDC: its USDC store is frozen`);
+    }
+    if (status.exists) {
+      return `Aptos account ${recipientAddress} exists`;
+    }
+    if (!request.createRecipientAccount) {
+      throw new FluidError(
+        'RECIPIENT_INVALID',
+        `Aptos account ${recipientAddress} does not exist; set createRecipientAccount to have the sponsor create it`
+      );
+    }
+    const gas = await estimateAptosGas(transferCtx, DEFAULT_GAS_UNITS.aptosCreateAccount);
+    const funding = recipientAptFunding(transferCtx, request);
+    recipientCreationCost = BigInt(gas.estimatedCost) + funding;
+    return `Aptos account ${recipientAddress} does not exist; the sponsor will create it (${recipientCreationCost} octas)`;
+  });
+
+  await run('source-gas', async () => {
+    if (srcChainName === "Aptos") {
+      const gasUsed = await simulateAptosBurn(transferCtx, recipientAddress, amount);
+      sourceGas = await estimateAptosGas(transferCtx, gasUsed);
+      return `Burn simulation succeeded (${gasUsed} gas units)`;
+    }
+    const { gasLimit, note } = await estimateEvmBurn(transferCtx, recipientAddress, amount, userPullGasUnits(request));
+    sourceGas = await estimateEvmGas(transferCtx, gasLimit, note ? 'default' : 'estimateGas');
+    return `Burn gas ${gasLimit}${note ? ` (${note})` : ""}`;
+  });
+
+  await run('destination-simulation', async () => {
+    if (automatic) {
+      throw new SkippedCheck(`The relayer completes automatic transfers`);
+    }
+    if (dstChainName !== "Aptos") {
+      destinationGas = await estimateEvmGas(transferCtx, DEFAULT_GAS_UNITS.evmMint, 'default');
+      throw new SkippedCheck(`${dstChainName} mint can't be estimated before the attestation; using a typical ${DEFAULT_GAS_UNITS.evmMint} gas`);
+    }
+    const gasUsed = await simulateAptosSponsorTransaction(transferCtx);
+    destinationGas = await estimateAptosGas(transferCtx, DEFAULT_GAS_UNITS.aptosMint);
+    return `Sponsor transaction simulation succeeded (${gasUsed} gas units); the mint itself needs the attestation`;
+  });
+
+  await run('sponsor-evm-balance', async () => {
+    const required = [sourceGas, destinationGas]
+      .filter((gas): gas is GasEstimate => gas?.platform === 'evm')
+      .reduce((total, gas) => total + BigInt(gas.estimatedCost), 0n);
+    if (required === 0n) {
+      throw new SkippedCheck(`The sponsor sends no ${evmChain.displayName} transaction`);
+    }
+    const balance: bigint = await baseSigner.provider.getBalance(baseSigner.address);
+    return assertBalance(balance, required, `Sponsor wallet on ${evmChain.displayName}`, 'wei');
+  });
+
+  await run('sponsor-aptos-balance', async () => {
+    const required = [sourceGas, destinationGas]
+      .filter((gas): gas is GasEstimate => gas?.platform === 'aptos')
+      .reduce((total, gas) => total + BigInt(gas.estimatedCost), recipientCreationCost);
+    if (required === 0n) {
+      throw new SkippedCheck(`The sponsor sends no Aptos transaction`);
+    }
+    const balance = await getAptosAptBalance(transferCtx, aptosSigner.address);
+    return assertBalance(balance, required, `Sponsor wallet on Aptos`, 'octas');
+  });
+
+  return report();
+}
+
+/**
+ * Check that a balance covers an amount
+ * @returns Description of the balance
+ * @throws FluidError (INSUFFICIENT_BALANCE) if it doesn't
+ */
+function assertBalance(balance: bigint, required: bigint, holder: string, unit: string): string {
+  if (balance < required) {
+    throw new FluidError('INSUFFICIENT_BALANCE', `${holder} has ${balance} ${unit}, ${required} needed`);
+  }
+  return `${holder} has ${balance} ${unit} (${required} needed)`;
+}
+
+/**
+ * Estimate the sponsor's approve + depositForBurn (and Permit2 pull) gas
+ *
+ * Unlike the quote, a failed estimate is an error: it's what the transaction
+ * would do on chain. depositForBurn can't be estimated while an approval or a
+ * user pull is still to be mined, so a typical value is used instead.
+ */
+async function estimateEvmBurn(
+  ctx: TransferContext,
+  recipientAddress: string,
+  amount: bigint,
+  pullGasUnits: bigint
+): Promise<{ gasLimit: bigint; note?: string }> {
+  const circleBridge = await ctx.wh.getChain(ctx.srcChainName).getCircleBridge();
+  const sender = Wormhole.chainAddress(ctx.srcChainName, ctx.baseSigner.address);
+  const recipient = Wormhole.chainAddress(ctx.dstChainName, recipientAddress);
+
+  const pullsFunds = pullGasUnits > 0n;
+  let gasLimit = pullGasUnits;
+  let note: string | undefined = pullsFunds ? "user pull and burn use typical values" : undefined;
+  let needsApproval = false;
+  for await (const unsignedTx of circleBridge.transfer(sender.address as any, recipient, amount)) {
+    if (unsignedTx.description.includes("approve")) {
+      needsApproval = true;
+      gasLimit += await ctx.baseSigner.provider.estimateGas(unsignedTx.transaction);
+    } else if (pullsFunds || needsApproval) {
+      gasLimit += DEFAULT_GAS_UNITS.evmBurn;
+      note = note ?? "burn runs after the approval, typical value";
+    } else {
+      gasLimit += await ctx.baseSigner.provider.estimateGas(unsignedTx.transaction);
+    }
+  }
+  return { gasLimit, note };
+}
+
+/**
+ * Simulate the sponsor's Aptos burn
+ * @returns Gas units used by the simulation
+ */
+async function simulateAptosBurn(ctx: TransferContext, recipientAddress: string, amount: bigint): Promise<bigint> {
+  const circleBridge = await ctx.wh.getChain("Aptos").getCircleBridge();
+  const sender = Wormhole.chainAddress("Aptos", ctx.aptosSigner.address);
+  const recipient = Wormhole.chainAddress(ctx.dstChainName, recipientAddress);
+
+  let gasUsed = 0n;
+  for await (const unsignedTx of circleBridge.transfer(sender.address as any, recipient, amount)) {
+    gasUsed += await simulateAptosTransaction(ctx, unsignedTx.transaction);
+  }
+  return gasUsed;
+}
+
+/**
+ * Simulate a zero-value sponsor transaction on Aptos
+ *
+ * The mint needs the Circle attestation, so it can't be simulated before the
+ * burn; this proves the sponsor account can sign and pay for a transaction.
+ * @returns Gas units used by the simulation
+ */
+async function simulateAptosSponsorTransaction(ctx: TransferContext): Promise<bigint> {
+  return simulateAptosTransaction(ctx, {
+    function: "0x1::aptos_account::transfer",
+    functionArguments: [ctx.aptosSigner.address, 0],
+  });
+}
+
+/**
+ * Simulate an Aptos transaction from the sponsor
+ * @returns Gas units used by the simulation
+ * @throws FluidError if the simulation fails
+ */
+async function simulateAptosTransaction(ctx: TransferContext, data: any): Promise<bigint> {
+  const { client, account, address } = ctx.aptosSigner;
+  const transaction = await client.transaction.build.simple({ sender: address, data });
+  const [result] = await client.transaction.simulate.simple({
+    signerPublicKey: account.publicKey,
+    transaction,
+  });
+  if (!result?.success) {
+    throw new FluidError('UNKNOWN', `Aptos simulation failed: ${result?.vm_status ?? "no result"}`);
+  }
+  return BigInt(result.gas_used);
+}
+
+/**
+ * USDC balance of an address on the configured EVM chain
+ */
+async function getEvmUsdcBalance(ctx: TransferContext, owner: string): Promise<bigint> {
+  const usdc = new ethers.Contract(ctx.evmChain.usdcAddress, ERC20_ABI, ctx.baseSigner.provider);
+  return usdc.balanceOf(owner) as Promise<bigint>;
+}
+
+/**
+ * USDC (a fungible asset) balance of an address on Aptos
+ */
+async function getAptosUsdcBalance(ctx: TransferContext, owner: string): Promise<bigint> {
+  const usdc = APTOS_CHAINS[ctx.network as keyof typeof APTOS_CHAINS].usdcAddress;
+  const [balance] = await ctx.aptosSigner.client.view({
+    payload: {
+      function: "0x1::primary_fungible_store::balance",
+      typeArguments: ["0x1::fungible_asset::Metadata"],
+      functionArguments: [owner, usdc],
+    },
+  });
+  return BigInt(balance);
+}
+
+/**
+ * APT balance of an address, in octas (includes its paired fungible asset)
+ */
+async function getAptosAptBalance(ctx: TransferContext, owner: string): Promise<bigint> {
+  const [balance] = await ctx.aptosSigner.client.view({
+    payload: {
+      function: "0x1::coin::balance",
+      typeArguments: ["0x1::aptos_coin::AptosCoin"],
+      functionArguments: [owner],
+    },
+  });
+  return BigInt(balance);
+}
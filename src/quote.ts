@@ -0,0 +1,237 @@
+/**
+ * Transfer Quotes
+ *
+ * Estimates what a transfer will cost and how long it will take, without
+ * sending anything: source and destination gas, relayer fee, the amount the
+ * recipient receives and the expected attestation latency.
+ */
+
+import { CircleTransfer, Wormhole } from "@wormhole-foundation/sdk";
+import { createTransferContext, TransferContext } from "./context";
+import { assertRelaySupported, sponsorAddress } from "./transferStages";
+import { toFluidError } from "./errors";
+import { USDC_DECIMALS, parseDecimalAmount } from "./amounts";
+import { silentLogger } from "./logger";
+import { TransferDirection } from "./types";
+import type { CctpTransferRequest } from "./cctpTransfer";
+
+/**
+ * Typical gas used by transactions that can't be estimated before the burn
+ * (the destination mint needs the Circle attestation)
+ */
+export const DEFAULT_GAS_UNITS = {
+  evmPermit2Transfer: 90_000n,
+  evmEip2612Transfer: 120_000n, // permit + transferFrom
+  evmApprove: 60_000n,
+  evmBurn: 200_000n,
+  evmMint: 200_000n,
+  aptosBurn: 2_000n,
+  aptosMint: 3_000n,
+  aptosCreateAccount: 1_000n,
+};
+
+/**
+ * Estimated gas for the transactions sent on an EVM chain
+ */
+export interface EvmGasEstimate {
+  platform: 'evm';
+  chain: string;
+  gasLimit: string; // Total gas units over all transactions
+  maxFeePerGas?: string; // EIP-1559 (wei)
+  maxPriorityFeePerGas?: string; // EIP-1559 (wei)
+  gasPrice?: string; // Legacy gas price (wei)
+  estimatedCost: string; // gasLimit × maxFeePerGas (or gasPrice), in wei
+  method: 'estimateGas' | 'default'; // Whether gasLimit was estimated by the node or is a typical value
+}
+
+/**
+ * Estimated gas for the transactions sent on Aptos
+ */
+export interface AptosGasEstimate {
+  platform: 'aptos';
+  chain: 'Aptos';
+  gasUnits: string;
+  gasUnitPrice: string; // Octas per gas unit
+  estimatedCost: string; // gasUnits × gasUnitPrice, in octas
+  method: 'default';
+}
+
+export type GasEstimate = EvmGasEstimate | AptosGasEstimate;
+
+/**
+ * Structured quote for a transfer
+ */
+export interface CctpTransferQuote {
+  direction: TransferDirection;
+  sourceChain: string;
+  destinationChain: string;
+  automatic: boolean;
+  amount: string; // Amount burned, in USDC smallest units
+  destinationAmount: string; // Amount the recipient receives, in USDC smallest units
+  relayerFee?: string; // USDC smallest units (automatic only)
+  destinationNativeGas?: string; // Native gas delivered to the recipient, in base units (automatic only)
+  sourceGas: GasEstimate; // Paid by the sponsor
+  destinationGas?: GasEstimate; // Paid by the sponsor (absent for automatic transfers, the relayer pays)
+  attestationEtaMs: number; // Expected time until the Circle attestation is available
+  expiresAt?: string; // ISO timestamp after which the quote should be refreshed
+  quotedAt: string; // ISO timestamp
+}
+
+/**
+ * Quote a transfer without sending anything
+ * @param request - Transfer request (the same one that would be passed to transferUsdcViaCctp)
+ * @param context - Optional already-initialized transfer context
+ * @returns Structured fee and ETA quote
+ * @throws FluidError (e.g. RELAY_UNSUPPORTED for automatic transfers)
+ */
+export async function quoteCctpTransfer(
+  request: CctpTransferRequest,
+  context?: TransferContext
+): Promise<CctpTransferQuote> {
+  const logger = request.logger ?? context?.logger ?? silentLogger;
+  try {
+    const ctx = context ?? await createTransferContext(request.config, logger, request.direction);
+    const { wh, srcChainName, dstChainName } = ctx;
+
+    const amount = BigInt(Math.floor(parseFloat(request.amount) * 1_000_000));
+    const automatic = !!request.automatic;
+    const nativeGas = automatic && request.nativeGas
+      ? parseDecimalAmount(request.nativeGas, USDC_DECIMALS, "nativeGas")
+      : 0n;
+    if (automatic) {
+      assertRelaySupported(ctx);
+    }
+
+    const sender = Wormhole.chainAddress(srcChainName, sponsorAddress(ctx, srcChainName));
+    const recipient = Wormhole.chainAddress(
+      dstChainName,
+      request.destAddress || sponsorAddress(ctx, dstChainName)
+    );
+
+    const srcChain = wh.getChain(srcChainName);
+    const dstChain = wh.getChain(dstChainName);
+    const quote = await CircleTransfer.quoteTransfer(srcChain, dstChain, { amount, automatic, nativeGas });
+    logger.debug(`Transfer quote:`, quote);
+
+    const [sourceGas, destinationGas] = await Promise.all([
+      srcChainName === "Aptos"
+        ? estimateAptosGas(ctx, DEFAULT_GAS_UNITS.aptosBurn)
+        : estimateEvmBurnGas(ctx, sender, recipient, amount, userPullGasUnits(request)),
+      automatic
+        ? Promise.resolve(undefined)
+        : dstChainName === "Aptos"
+          ? estimateAptosGas(ctx, DEFAULT_GAS_UNITS.aptosMint)
+          : estimateEvmGas(ctx, DEFAULT_GAS_UNITS.evmMint, 'default'),
+    ]);
+
+    return {
+      direction: ctx.direction,
+      sourceChain: srcChainName,
+      destinationChain: dstChainName,
+      automatic,
+      amount: amount.toString(),
+      destinationAmount: quote.destinationToken.amount.toString(),
+      relayerFee: quote.relayFee?.amount.toString(),
+      destinationNativeGas: automatic ? (quote.destinationNativeGas ?? 0n).toString() : undefined,
+      sourceGas,
+      destinationGas,
+      attestationEtaMs: quote.eta ?? 0,
+      expiresAt: quote.expires?.toISOString(),
+      quotedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    throw toFluidError(error);
+  }
+}
+
+/**
+ * Estimate the approve + depositForBurn transactions the sponsor sends on an EVM source chain
+ *
+ * depositForBurn can only be estimated once the approval is mined, so it falls
+ * back to a typical value when an approval is still needed. The pull of a
+ * user wallet transfer is always a typical value.
+ */
+async function estimateEvmBurnGas(
+  ctx: TransferContext,
+  sender: ReturnType<typeof Wormhole.chainAddress>,
+  recipient: ReturnType<typeof Wormhole.chainAddress>,
+  amount: bigint,
+  pullGasUnits: bigint
+): Promise<EvmGasEstimate> {
+  const { baseSigner, logger } = ctx;
+  const circleBridge = await ctx.wh.getChain(ctx.srcChainName).getCircleBridge();
+
+  let gasLimit = pullGasUnits;
+  let method: EvmGasEstimate["method"] = pullGasUnits > 0n ? 'default' : 'estimateGas';
+  for await (const unsignedTx of circleBridge.transfer(sender.address as any, recipient, amount)) {
+    const isApproval = unsignedTx.description.includes("approve");
+    try {
+      gasLimit += await baseSigner.provider.estimateGas(unsignedTx.transaction);
+    } catch (error: any) {
+      logger.debug(`Could not estimate ${unsignedTx.description}, using a typical value:`, error?.message);
+      gasLimit += isApproval ? DEFAULT_GAS_UNITS.evmApprove : DEFAULT_GAS_UNITS.evmBurn;
+      method = 'default';
+    }
+  }
+
+  return estimateEvmGas(ctx, gasLimit, method);
+}
+
+/**
+ * Price a gas limit with the EVM chain's current fee data
+ */
+export async function estimateEvmGas(
+  ctx: TransferContext,
+  gasLimit: bigint,
+  method: EvmGasEstimate["method"]
+): Promise<EvmGasEstimate> {
+  const feeData = await ctx.baseSigner.provider.getFeeData();
+  const pricePerGas: bigint = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+
+  return {
+    platform: 'evm',
+    chain: ctx.evmChain.wormholeChain,
+    gasLimit: gasLimit.toString(),
+    maxFeePerGas: feeData.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: feeData.maxPriorityFeePerGas?.toString(),
+    gasPrice: feeData.gasPrice?.toString(),
+    estimatedCost: (gasLimit * pricePerGas).toString(),
+    method,
+  };
+}
+
+/**
+ * Price typical Aptos gas units with the network's gas price estimate
+ */
+export async function estimateAptosGas(ctx: TransferContext, gasUnits: bigint): Promise<AptosGasEstimate> {
+  const { gas_estimate } = await ctx.aptosSigner.client.getGasPriceEstimation();
+  const gasUnitPrice = BigInt(gas_estimate);
+
+  return {
+    platform: 'aptos',
+    chain: 'Aptos',
+    gasUnits: gasUnits.toString(),
+    gasUnitPrice: gasUnitPrice.toString(),
+    estimatedCost: (gasUnits * gasUnitPrice).toString(),
+    method: 'default',
+  };
+}
+
+/**
+ * Whether the sponsor will pull the user's USDC (with Permit2 or an EIP-2612 permit) before burning
+ */
+export function pullsUserFunds(request: CctpTransferRequest): boolean {
+  return !!request.fromAddress && !!request.signature && request.signature !== "dummy";
+}
+
+/**
+ * Typical gas units of the sponsor's pull of the user's USDC (0 if nothing is pulled)
+ */
+export function userPullGasUnits(request: CctpTransferRequest): bigint {
+  if (!pullsUserFunds(request)) {
+    return 0n;
+  }
+  return request.authorization?.kind === "eip2612"
+    ? DEFAULT_GAS_UNITS.evmEip2612Transfer
+    : DEFAULT_GAS_UNITS.evmPermit2Transfer;
+}
@@ -0,0 +1,99 @@
+/**
+ * Transfer Recovery
+ *
+ * Finishes a transfer when all that is known is the source transaction hash,
+ * e.g. after the attestation timeout fired and the destination leg never ran.
+ */
+
+import { createTransferContext } from "./context";
+import { receiptFromSourceTx, completeCctpTransfer, TransferStageOptions } from "./transferStages";
+import { recordTransferReceipt } from "./transferStore";
+import { silentLogger } from "./logger";
+import { toFluidError } from "./errors";
+import { TransferResult, CctpTransferReceipt } from "./types";
+
+/**
+ * Result of recovering a transfer
+ */
+export interface RecoveryResult extends TransferResult {
+  alreadyCompleted: boolean; // true if the mint had already happened on the destination chain (nothing was sent)
+}
+
+/**
+ * Recovers a transfer from its source transaction hash
+ *
+ * Rebuilds the CircleTransfer from chain data, fetches the Circle attestation and,
+ * if USDC has not been minted on the destination chain yet, completes the transfer
+ * with the sponsor signer.
+ * @param sourceTxHash - Burn transaction hash on the source chain (Base by default, Aptos with direction "aptos-to-base")
+ * @param options - Optional config, context, direction and attestation timeout
+ * @returns Transfer result with the recovered receipt
+ */
+export async function recoverTransfer(
+  sourceTxHash: string,
+  options: TransferStageOptions = {}
+): Promise<RecoveryResult> {
+  let receipt: CctpTransferReceipt | undefined;
+  const logger = options.logger ?? options.context?.logger ?? silentLogger;
+  try {
+    const context = options.context ?? await createTransferContext(options.config, logger, options.direction);
+    const stageOptions = { ...options, context, logger };
+
+    logger.info(`Recovering transfer from source transaction ${sourceTxHash}...`);
+    receipt = await receiptFromSourceTx(sourceTxHash, stageOptions);
+
+    // Keep updating the original record if this transfer is already in the store
+    if (options.store) {
+      const [existing] = await options.store.query({ sourceTx: sourceTxHash, limit: 1 });
+      if (existing) {
+        receipt = { ...receipt, transferId: existing.id, createdAt: existing.createdAt };
+      }
+    }
+    logger.info(`Recipient: ${receipt.recipientAddress}`);
+    logger.info(`Amount: ${receipt.amount} smallest units`);
+    logger.info(`Attestation: ${receipt.attestationId}`);
+
+    if (receipt.stage === "completed") {
+      logger.info(`USDC was already minted on ${context.dstChainName}, nothing to do.`);
+      if (options.store && receipt.transferId) {
+        await recordTransferReceipt(options.store, receipt.transferId, receipt);
+      }
+      return {
+        success: true,
+        alreadyCompleted: true,
+        transferId: receipt.transferId,
+        sourceTx: receipt.sourceTx,
+        attestationId: receipt.attestationId,
+        receipt,
+      };
+    }
+
+    receipt = await completeCctpTransfer(receipt, stageOptions);
+    logger.info(`Recovered! USDC delivered to ${context.dstChainName}.`);
+
+    return {
+      success: true,
+      alreadyCompleted: false,
+      transferId: receipt.transferId,
+      sourceTx: receipt.sourceTx,
+      attestationId: receipt.attestationId,
+      destinationTx: receipt.destinationTx,
+      receipt,
+    };
+  } catch (error) {
+    const fluidError = toFluidError(error, undefined, sourceTxHash);
+    logger.error(`Transfer recovery failed [${fluidError.code}]:`, fluidError.message);
+    return {
+      success: false,
+      alreadyCompleted: false,
+      transferId: receipt?.transferId,
+      sourceTx: sourceTxHash,
+      attestationId: receipt?.attestationId,
+      error: fluidError.message,
+      errorCode: fluidError.code,
+      failedStage: fluidError.stage,
+      retryable: fluidError.retryable,
+      receipt,
+    };
+  }
+}
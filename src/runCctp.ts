@@ -4,10 +4,34 @@
  * Usage:
  *   npx tsx src/runCctp.ts --amount 1.0 --to <aptos-address>
  *   npx tsx src/runCctp.ts --amount 0.5
+ *   npx tsx src/runCctp.ts --recover <base-tx-hash>
+ *   npx tsx src/runCctp.ts --direction aptos-to-base --amount 1.0 --to <base-address>
+ *   npx tsx src/runCctp.ts --amount 1.0 --quote
+ *   npx tsx src/runCctp.ts --amount 1.0 --dry-run
+ *   npx tsx src/runCctp.ts --batch payouts.json --concurrency 4
  */
 
+import { readFileSync } from "fs";
 import { transferUsdcViaCctp, CctpTransferRequest } from "./cctpTransfer";
-import { Permit2Permit } from "./permit2";
+import { transferBatch, BatchTransferItem } from "./batchTransfer";
+import { recoverTransfer } from "./recovery";
+import { quoteCctpTransfer, GasEstimate } from "./quote";
+import { Permit2Permit, parsePermit2Permit } from "./permit2";
+import { Eip2612Permit, parseEip2612Permit } from "./eip2612";
+import { consoleLogger } from "./logger";
+import { TransferDirection } from "./types";
+import { config } from "./config";
+import { EvmChainKey, EVM_CHAINS, isEvmChainKey } from "./chains";
+
+/**
+ * Human readable route and destination for the console output
+ */
+function describeRoute(direction: TransferDirection, sourceChain: EvmChainKey) {
+  const evmChain = EVM_CHAINS[sourceChain].displayName;
+  return direction === "aptos-to-base"
+    ? { route: `Aptos → ${evmChain}`, destination: evmChain }
+    : { route: `${evmChain} → Aptos`, destination: "Aptos" };
+}
 
 // Parse command line arguments
 function parseArgs() {
@@ -17,6 +41,18 @@ function parseArgs() {
   let from: string | undefined;
   let sig: string | undefined;
   let permitDataJson: string | undefined;
+  let eip2612PermitJson: string | undefined;
+  let recover: string | undefined;
+  let direction: TransferDirection = "base-to-aptos";
+  let sourceChain: EvmChainKey | undefined;
+  let automatic = false;
+  let nativeGas: string | undefined;
+  let quote = false;
+  let dryRun = false;
+  let createRecipient = false;
+  let recipientFunding: string | undefined;
+  let batchFile: string | undefined;
+  let concurrency: number | undefined;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--amount" && i + 1 < args.length) {
@@ -34,6 +70,50 @@ function parseArgs() {
     } else if (args[i] === "--permit-data" && i + 1 < args.length) {
       permitDataJson = args[i + 1];
       i++;
+    } else if (args[i] === "--eip2612-permit" && i + 1 < args.length) {
+      eip2612PermitJson = args[i + 1];
+      i++;
+    } else if (args[i] === "--recover" && i + 1 < args.length) {
+      recover = args[i + 1];
+      i++;
+    } else if (args[i] === "--direction" && i + 1 < args.length) {
+      if (args[i + 1] !== "base-to-aptos" && args[i + 1] !== "aptos-to-base") {
+        console.error(`❌ Error: Invalid direction "${args[i + 1]}". Use "base-to-aptos" or "aptos-to-base".`);
+        process.exit(1);
+      }
+      direction = args[i + 1] as TransferDirection;
+      i++;
+    } else if (args[i] === "--source-chain" && i + 1 < args.length) {
+      if (!isEvmChainKey(args[i + 1])) {
+        console.error(`❌ Error: Unknown chain "${args[i + 1]}". Supported chains: ${Object.keys(EVM_CHAINS).join(", ")}`);
+        process.exit(1);
+      }
+      sourceChain = args[i + 1] as EvmChainKey;
+      i++;
+    } else if (args[i] === "--automatic") {
+      automatic = true;
+    } else if (args[i] === "--native-gas" && i + 1 < args.length) {
+      nativeGas = args[i + 1];
+      i++;
+    } else if (args[i] === "--quote") {
+      quote = true;
+    } else if (args[i] === "--dry-run") {
+      dryRun = true;
+    } else if (args[i] === "--batch" && i + 1 < args.length) {
+      batchFile = args[i + 1];
+      i++;
+    } else if (args[i] === "--concurrency" && i + 1 < args.length) {
+      concurrency = parseInt(args[i + 1], 10);
+      if (isNaN(concurrency) || concurrency < 1) {
+        console.error(`❌ Error: Invalid concurrency "${args[i + 1]}". Must be a positive integer.`);
+        process.exit(1);
+      }
+      i++;
+    } else if (args[i] === "--create-recipient") {
+      createRecipient = true;
+    } else if (args[i] === "--recipient-funding" && i + 1 < args.length) {
+      recipientFunding = args[i + 1];
+      i++;
     } else if (args[i] === "--help" || args[i] === "-h") {
       console.log(`
 Usage:
@@ -41,26 +121,68 @@ Usage:
 
 Arguments:
   --amount <amount>        Amount of USDC to transfer (e.g., "1.0")
-  --to <aptos-address>     Optional: Aptos recipient address (hex format)
+  --direction <direction>  Optional: "base-to-aptos" (default) or "aptos-to-base"
+  --source-chain <chain>   Optional: EVM chain to move USDC from/to (default: SOURCE_CHAIN env or Base)
+                          e.g. ArbitrumSepolia, OptimismSepolia, Sepolia; set EVM_RPC_URL to match
+  --to <address>           Optional: Recipient address on the destination chain
+                          (Aptos hex address, or Base 0x address for aptos-to-base)
                           If not provided, uses sponsor wallet address
+  --create-recipient       Optional: Let the sponsor create the Aptos recipient account if it doesn't exist
+  --recipient-funding <apt> Optional: APT the sponsor sends to a newly created recipient account
   --from <address>         Optional: User's Base wallet address (source of USDC)
                           If not provided, uses sponsor wallet as source
+                          Only supported for base-to-aptos
   --sig <signature>        Optional: User authorization signature
-                          Use "dummy" for testing (placeholder)
+                          Use "dummy" for testing (placeholder, the sponsor funds the transfer)
                           Required if --from is provided
   --permit-data <json>     Optional: Permit2 permit data as JSON string
-                          Required for real Permit2 signature verification
+                          Required with a real Permit2 signature: the sponsor submits it
+                          to Permit2 to pull the user's USDC before burning
                           Can be generated using: npx tsx src/generatePermit2.ts
+  --eip2612-permit <json>  Optional: EIP-2612 USDC permit as JSON string (instead of --permit-data)
+                          --sig then signs the permit, which needs no Permit2 approval
+  --automatic              Optional: Let the Wormhole CCTP relayer complete the transfer
+                          (relayer fee is deducted from the amount; not every chain is served)
+  --native-gas <amount>    Optional: USDC to swap for native gas on the destination (with --automatic)
+  --quote                  Print the fees and ETA of the transfer without sending anything
+  --dry-run                Run every preflight check (balances, signature, gas, simulation)
+                          without sending anything
+  --batch <file.json>      Send every transfer in a JSON array of {"amount", "destAddress"} items
+  --concurrency <n>        Optional: Transfers of a batch in flight at once (default: 4)
+  --recover <tx-hash>      Recover a transfer from its source transaction hash
+                          Fetches the attestation and completes it on the destination chain if needed
+                          Use --direction aptos-to-base for an Aptos source transaction
 
 Examples:
   # Sponsor wallet transfer (default)
   npx tsx src/runCctp.ts --amount 1.0
   
-  # User wallet transfer (sponsor pays gas)
+  # User wallet transfer (USDC pulled with Permit2, sponsor pays gas)
+  npx tsx src/runCctp.ts --amount 5.0 --from 0xUserAddress --sig 0xSignature --permit-data '{"owner":...}' --to 0xc3e2a21da9f68dcd3ad8668c8fb72ede9f46fea67652fbffa9db8f8af0c612cf
+
+  # User wallet flow with the placeholder signature (sponsor funds the transfer)
   npx tsx src/runCctp.ts --amount 5.0 --from 0xUserAddress --sig dummy --to 0xc3e2a21da9f68dcd3ad8668c8fb72ede9f46fea67652fbffa9db8f8af0c612cf
   
+  # Send to a first-time Aptos user, creating their account with 0.05 APT for gas
+  npx tsx src/runCctp.ts --amount 1.0 --to 0xNewAptosAddress --create-recipient --recipient-funding 0.05
+
   # Sponsor wallet transfer with custom recipient
   npx tsx src/runCctp.ts --amount 0.5 --to 0xc3e2a21da9f68dcd3ad8668c8fb72ede9f46fea67652fbffa9db8f8af0c612cf
+  
+  # Cash out from the Aptos sponsor wallet to a Base address
+  npx tsx src/runCctp.ts --direction aptos-to-base --amount 1.0 --to 0xBaseRecipient
+
+  # Check that a user wallet transfer would succeed
+  npx tsx src/runCctp.ts --amount 5.0 --from 0xUserAddress --sig 0xSignature --permit-data '{"owner":...}' --dry-run
+
+  # Quote a relayed transfer
+  npx tsx src/runCctp.ts --amount 1.0 --automatic --quote
+
+  # Pay out to many Aptos recipients, 4 transfers at a time
+  npx tsx src/runCctp.ts --batch payouts.json --concurrency 4
+
+  # Finish a transfer whose Aptos leg never ran
+  npx tsx src/runCctp.ts --recover 0xBaseTxHash
       `);
       process.exit(0);
     }
@@ -69,35 +191,161 @@ Examples:
   let permitData: Permit2Permit | undefined;
   if (permitDataJson) {
     try {
-      permitData = JSON.parse(permitDataJson) as Permit2Permit;
       // Convert string values to BigInt for permit data
-      if (permitData.value && typeof permitData.value === 'string') {
-        permitData.value = BigInt(permitData.value);
-      }
-      if (permitData.nonce && typeof permitData.nonce === 'string') {
-        permitData.nonce = BigInt(permitData.nonce);
-      }
-      if (permitData.deadline && typeof permitData.deadline === 'string') {
-        permitData.deadline = BigInt(permitData.deadline);
-      }
+      permitData = parsePermit2Permit(JSON.parse(permitDataJson));
     } catch (e) {
       console.error(`❌ Error: Invalid JSON for --permit-data: ${e}`);
       process.exit(1);
     }
   }
 
-  return { amount, to, from, sig, permitData };
+  let eip2612Permit: Eip2612Permit | undefined;
+  if (eip2612PermitJson) {
+    try {
+      eip2612Permit = parseEip2612Permit(JSON.parse(eip2612PermitJson));
+    } catch (e) {
+      console.error(`❌ Error: Invalid JSON for --eip2612-permit: ${e}`);
+      process.exit(1);
+    }
+  }
+
+  return { amount, to, from, sig, permitData, eip2612Permit, recover, direction, sourceChain, automatic, nativeGas, quote, dryRun, createRecipient, recipientFunding, batchFile, concurrency };
+}
+
+async function runRecovery(sourceTxHash: string, direction: TransferDirection, sourceChain: EvmChainKey) {
+  const { route, destination: destinationLabel } = describeRoute(direction, sourceChain);
+  console.log(`🔎 Recovering CCTP Transfer (${route})`);
+  console.log("────────────────────────────────────────────────────────────\n");
+
+  const result = await recoverTransfer(sourceTxHash, {
+    direction,
+    config: { sourceChain },
+    logger: consoleLogger,
+  });
+
+  console.log("\n────────────────────────────────────────────────────────────");
+  if (result.success) {
+    console.log(result.alreadyCompleted
+      ? `✅ Transfer was already completed on ${destinationLabel}`
+      : "✅ Transfer recovered successfully!");
+    console.log(`\n📋 Transfer Details:`);
+    console.log(`   Source TX: ${result.sourceTx}`);
+    if (result.attestationId) {
+      console.log(`   Attestation ID: ${result.attestationId}`);
+    }
+    if (result.destinationTx) {
+      console.log(`   Destination TX: ${result.destinationTx}`);
+    }
+  } else {
+    console.error(`❌ Recovery failed [${result.errorCode}]: ${result.error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Human readable gas estimate for the console output
+ */
+function describeGas(gas: GasEstimate): string {
+  const cost = gas.platform === "aptos"
+    ? `${Number(gas.estimatedCost) / 1e8} APT (${gas.gasUnits} units × ${gas.gasUnitPrice} octas)`
+    : `${Number(gas.estimatedCost) / 1e18} ETH (${gas.gasLimit} gas)`;
+  return `${cost}${gas.method === "default" ? ", typical gas usage" : ""}`;
+}
+
+async function runQuote(request: CctpTransferRequest) {
+  const quote = await quoteCctpTransfer(request);
+
+  console.log(`📋 Quote:`);
+  console.log(`   Amount: ${Number(quote.amount) / 1_000_000} USDC`);
+  if (quote.relayerFee) {
+    console.log(`   Relayer fee: ${Number(quote.relayerFee) / 1_000_000} USDC`);
+  }
+  console.log(`   Recipient receives: ${Number(quote.destinationAmount) / 1_000_000} USDC`);
+  console.log(`   ${quote.sourceChain} gas (sponsor): ${describeGas(quote.sourceGas)}`);
+  console.log(`   ${quote.destinationChain} gas: ${quote.destinationGas ? `${describeGas(quote.destinationGas)} (sponsor)` : "paid by the relayer"}`);
+  console.log(`   Attestation ETA: ~${Math.round(quote.attestationEtaMs / 1000)}s`);
+}
+
+async function runDryRun(request: CctpTransferRequest) {
+  const result = await transferUsdcViaCctp({ ...request, dryRun: true });
+  const icons = { passed: "✅", failed: "❌", skipped: "⏭️ " };
+
+  console.log("\n📋 Preflight checks:");
+  for (const check of result.preflight?.checks ?? []) {
+    console.log(`   ${icons[check.status]} ${check.name}: ${check.message}${check.code ? ` [${check.code}]` : ""}`);
+  }
+
+  console.log("\n────────────────────────────────────────────────────────────");
+  if (result.success) {
+    console.log("✅ Dry run passed: the transfer is ready to send");
+  } else {
+    console.error(`❌ Dry run failed [${result.errorCode}]: ${result.error}`);
+    process.exit(1);
+  }
+}
+
+async function runBatch(
+  file: string,
+  concurrency: number | undefined,
+  options: { direction: TransferDirection; automatic: boolean; sourceChain: EvmChainKey; dryRun: boolean; createRecipient: boolean }
+) {
+  const { route } = describeRoute(options.direction, options.sourceChain);
+  const items = JSON.parse(readFileSync(file, "utf8")) as BatchTransferItem[];
+  if (!Array.isArray(items) || items.some((item) => !item || typeof item.amount !== "string")) {
+    console.error(`❌ Error: ${file} must contain a JSON array of {"amount": "1.0", "destAddress": "0x..."} items`);
+    process.exit(1);
+  }
+
+  console.log(`🚀 Starting batch of ${items.length} CCTP transfer(s) (${route})`);
+  console.log("────────────────────────────────────────────────────────────\n");
+
+  const { results, summary } = await transferBatch(items, {
+    concurrency,
+    direction: options.direction,
+    automatic: options.automatic,
+    createRecipientAccount: options.createRecipient,
+    dryRun: options.dryRun,
+    config: { sourceChain: options.sourceChain },
+    logger: consoleLogger,
+  });
+
+  console.log("\n────────────────────────────────────────────────────────────");
+  for (const result of results) {
+    const label = `#${result.index} ${result.amount} USDC → ${result.destAddress ?? "(sponsor)"}`;
+    if (result.success) {
+      console.log(`✅ ${label}${result.sourceTx ? `: ${result.sourceTx}` : ""}`);
+    } else {
+      console.error(`❌ ${label} [${result.errorCode}]: ${result.error}`);
+    }
+  }
+  console.log(`\n📋 ${summary.succeeded}/${summary.total} succeeded, ${Number(summary.deliveredAmount) / 1_000_000} USDC delivered in ${Math.round(summary.durationMs / 1000)}s`);
+  if (summary.failed > 0) {
+    process.exit(1);
+  }
 }
 
 async function main() {
-  console.log("🚀 Starting CCTP Transfer (Base Sepolia → Aptos)");
-  console.log("────────────────────────────────────────────────────────────");
+  const args = parseArgs();
+  const { amount, to, from, sig, permitData, eip2612Permit, recover, direction, automatic, nativeGas, quote, dryRun, createRecipient, recipientFunding } = args;
+  const sourceChain = args.sourceChain ?? config.sourceChain;
+  const { route, destination: destinationLabel } = describeRoute(direction, sourceChain);
 
-  const { amount, to, from, sig, permitData } = parseArgs();
+  if (recover) {
+    await runRecovery(recover, direction, sourceChain);
+    return;
+  }
+
+  if (args.batchFile) {
+    await runBatch(args.batchFile, args.concurrency, { direction, automatic, sourceChain, dryRun, createRecipient });
+    return;
+  }
+
+  console.log(`🚀 Starting CCTP Transfer (${route})`);
+  console.log("────────────────────────────────────────────────────────────");
 
   if (!amount) {
     console.error("❌ Error: --amount is required");
-    console.log("Usage: npx tsx src/runCctp.ts --amount <amount> [--to <aptos-address>]");
+    console.log("Usage: npx tsx src/runCctp.ts --amount <amount> [--direction <direction>] [--to <address>]");
     process.exit(1);
   }
 
@@ -108,8 +356,14 @@ async function main() {
     process.exit(1);
   }
 
-  // Validate Aptos address format if provided
-  if (to) {
+  // Validate recipient address format if provided
+  if (to && direction === "aptos-to-base") {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(to)) {
+      console.error(`❌ Error: Invalid Base address format "${to}"`);
+      console.log("Ethereum addresses should be 42 characters (0x + 40 hex chars)");
+      process.exit(1);
+    }
+  } else if (to) {
     // Aptos addresses are 32 bytes (64 hex chars), with or without 0x prefix
     const cleanAddr = to.startsWith("0x") ? to.slice(2) : to;
     if (!/^[0-9a-fA-F]{64}$/.test(cleanAddr)) {
@@ -129,6 +383,11 @@ async function main() {
     }
   }
 
+  if (from && direction === "aptos-to-base") {
+    console.error(`❌ Error: --from is only supported for base-to-aptos transfers`);
+    process.exit(1);
+  }
+
   // Validate that if --from is provided, --sig is also provided
   if (from && !sig) {
     console.error(`❌ Error: --sig is required when --from is provided`);
@@ -136,42 +395,101 @@ async function main() {
     process.exit(1);
   }
 
+  if (permitData && eip2612Permit) {
+    console.error(`❌ Error: Use either --permit-data or --eip2612-permit, not both`);
+    process.exit(1);
+  }
+
+  if (from && sig !== "dummy" && !permitData && !eip2612Permit) {
+    console.error(`❌ Error: --permit-data (or --eip2612-permit) is required with a signature`);
+    console.log("Generate both with: npx tsx src/generatePermit2.ts");
+    process.exit(1);
+  }
+
+  if ((createRecipient || recipientFunding) && direction === "aptos-to-base") {
+    console.error(`❌ Error: --create-recipient is only supported for transfers to Aptos`);
+    process.exit(1);
+  }
+
+  if (recipientFunding && !createRecipient) {
+    console.error(`❌ Error: --recipient-funding requires --create-recipient`);
+    process.exit(1);
+  }
+
+  if (nativeGas && !automatic) {
+    console.error(`❌ Error: --native-gas requires --automatic`);
+    process.exit(1);
+  }
+
   console.log(`💰 Amount: ${amount} USDC`);
+  if (automatic) {
+    console.log(`🤖 Mode: Automatic (relayed)${nativeGas ? `, ${nativeGas} USDC native gas drop-off` : ""}`);
+  }
   if (from) {
     console.log(`👤 Source: User wallet (${from})`);
-    console.log(`🧾 Authorization: ${sig === "dummy" ? "Placeholder signature" : "Custom signature"}`);
+    console.log(`🧾 Authorization: ${sig === "dummy" ? "Placeholder signature" : eip2612Permit ? "EIP-2612 signature" : "Permit2 signature"}`);
   } else {
     console.log(`💼 Source: Sponsor wallet`);
   }
   if (to) {
-    console.log(`📬 Recipient: ${to}`);
+    console.log(`📬 Recipient: ${to}${createRecipient ? " (account created if missing)" : ""}`);
   } else {
     console.log(`📬 Recipient: (using sponsor wallet)`);
   }
   console.log("────────────────────────────────────────────────────────────\n");
 
-  // Execute transfer
-  const result = await transferUsdcViaCctp({
+  const request: CctpTransferRequest = {
     amount,
+    direction,
+    automatic,
+    nativeGas,
     destAddress: to,
+    createRecipientAccount: createRecipient,
+    recipientAptFunding: recipientFunding,
     fromAddress: from,
     signature: sig,
     permitData: permitData,
-  });
+    authorization: eip2612Permit && { kind: "eip2612", permit: eip2612Permit },
+    config: { sourceChain },
+    logger: consoleLogger,
+  };
+
+  if (quote) {
+    await runQuote(request);
+    return;
+  }
+
+  if (dryRun) {
+    await runDryRun(request);
+    return;
+  }
+
+  // Execute transfer
+  const result = await transferUsdcViaCctp(request);
 
   // Print results
   console.log("\n────────────────────────────────────────────────────────────");
   if (result.success) {
     console.log("✅ Transfer completed successfully!");
     console.log(`\n📋 Transfer Details:`);
+    if (result.receipt?.recipientAccountTx) {
+      console.log(`   Recipient account created: ${result.receipt.recipientAccountTx}`);
+    }
     console.log(`   Source TX: ${result.sourceTx}`);
     if (result.attestationId) {
       console.log(`   Attestation ID: ${result.attestationId}`);
     }
-    console.log(`   Destination TX: ${result.destinationTx}`);
-    console.log(`\n💸 USDC has been delivered to Aptos!`);
+    console.log(`   Destination TX: ${result.destinationTx ?? "(sent by relayer)"}`);
+    if (result.relayerFee) {
+      console.log(`   Relayer fee: ${Number(result.relayerFee) / 1_000_000} USDC`);
+    }
+    console.log(`\n💸 USDC has been delivered to ${destinationLabel}!`);
   } else {
-    console.error(`❌ Transfer failed: ${result.error}`);
+    console.error(`❌ Transfer failed [${result.errorCode}] at ${result.failedStage ?? "setup"}: ${result.error}`);
+    if (result.sourceTx) {
+      console.error(`   Source TX: ${result.sourceTx}`);
+      console.error(`   ${result.retryable ? "Safe to retry" : "Not safe to retry"}: npx tsx src/runCctp.ts ${direction === "aptos-to-base" ? "--direction aptos-to-base " : ""}--recover ${result.sourceTx}`);
+    }
     process.exit(1);
   }
 }
@@ -0,0 +1,144 @@
+/**
+ * CLI for the HTTP API Server
+ *
+ * Usage:
+ *   TRANSFER_API_KEYS=secret npx tsx src/runServer.ts --port 3000
+ *   npx tsx src/runServer.ts --store data/transfers.json --queue data/transfer-jobs.json --worker
+ */
+
+import { createTransferServer } from "./httpServer";
+import { TransferQueue, JsonFileJobStore } from "./jobQueue";
+import { JsonFileTransferStore } from "./transferStore";
+import { consoleLogger } from "./logger";
+import { EvmChainKey, EVM_CHAINS, isEvmChainKey } from "./chains";
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let port = parseInt(process.env.PORT ?? "3000", 10);
+  let host = "127.0.0.1";
+  let storeFile: string | undefined;
+  let queueFile: string | undefined;
+  let worker = false;
+  let sourceChain: EvmChainKey | undefined;
+  const apiKeys = (process.env.TRANSFER_API_KEYS ?? "").split(",").map((key) => key.trim()).filter(Boolean);
+  let allowSponsorFunded = false;
+  let webhookUrlAllowList: string[] | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--port" && i + 1 < args.length) {
+      port = parseInt(args[i + 1], 10);
+      if (isNaN(port) || port < 0 || port > 65535) {
+        console.error(`❌ Error: Invalid port "${args[i + 1]}"`);
+        process.exit(1);
+      }
+      i++;
+    } else if (args[i] === "--host" && i + 1 < args.length) {
+      host = args[i + 1];
+      i++;
+    } else if (args[i] === "--store" && i + 1 < args.length) {
+      storeFile = args[i + 1];
+      i++;
+    } else if (args[i] === "--queue" && i + 1 < args.length) {
+      queueFile = args[i + 1];
+      i++;
+    } else if (args[i] === "--worker") {
+      worker = true;
+    } else if (args[i] === "--api-key" && i + 1 < args.length) {
+      apiKeys.push(args[i + 1]);
+      i++;
+    } else if (args[i] === "--allow-sponsor-funded") {
+      allowSponsorFunded = true;
+    } else if (args[i] === "--allow-webhook" && i + 1 < args.length) {
+      webhookUrlAllowList = [...(webhookUrlAllowList ?? []), args[i + 1]];
+      i++;
+    } else if (args[i] === "--source-chain" && i + 1 < args.length) {
+      if (!isEvmChainKey(args[i + 1])) {
+        console.error(`❌ Error: Unknown chain "${args[i + 1]}". Supported chains: ${Object.keys(EVM_CHAINS).join(", ")}`);
+        process.exit(1);
+      }
+      sourceChain = args[i + 1] as EvmChainKey;
+      i++;
+    } else if (args[i] === "--help" || args[i] === "-h") {
+      console.log(`
+Usage:
+  npx tsx src/runServer.ts [options]
+
+Options:
+  --port <port>            Optional: Port to listen on (default: PORT env or 3000)
+  --host <host>            Optional: Interface to listen on (default: 127.0.0.1)
+  --store <file>           Optional: Record transfers in this JSON file (default: in memory)
+  --queue <file>           Optional: Enqueue transfers in this job queue file instead of running them
+                          in the server (run src/runWorker.ts work, or pass --worker)
+  --worker                 Optional: Also run the queue's worker in the server process (with --queue)
+  --source-chain <chain>   Optional: EVM chain to move USDC from/to (default: SOURCE_CHAIN env or Base)
+  --api-key <key>          API key clients send as "Authorization: Bearer <key>" (repeatable; also read
+                          from the comma-separated TRANSFER_API_KEYS env). At least one is required
+  --allow-sponsor-funded   Optional: Accept transfers the sponsor wallet pays for (no --from wallet,
+                          the "dummy" signature, or aptos-to-base). Rejected by default
+  --allow-webhook <url>    Optional: URL prefix a request's webhooks may post to (repeatable).
+                          Without it, requests with webhooks are rejected
+
+Routes:
+  POST /transfers          Start a transfer (returns 202 with its id)
+  GET  /transfers/:id      Status and tx hashes of a transfer
+  POST /quotes             Fee and ETA quote of a transfer
+  POST /permits/verify     Check a Permit2 signature
+  GET  /schemas            JSON Schemas of the request bodies
+
+Examples:
+  TRANSFER_API_KEYS=secret npx tsx src/runServer.ts --port 8080 --store data/transfers.json
+  curl -X POST localhost:8080/transfers -H "Authorization: Bearer secret" \
+    -d '{"amount": "1.0", "destAddress": "0x...", "fromAddress": "0xUser", "signature": "0x...", "permitData": {...}}'
+      `);
+      process.exit(0);
+    }
+  }
+
+  if (worker && !queueFile) {
+    console.error(`❌ Error: --worker requires --queue`);
+    process.exit(1);
+  }
+
+  if (apiKeys.length === 0) {
+    console.error(`❌ Error: An API key is required (--api-key or TRANSFER_API_KEYS)`);
+    process.exit(1);
+  }
+
+  return { port, host, storeFile, queueFile, worker, sourceChain, apiKeys, allowSponsorFunded, webhookUrlAllowList };
+}
+
+async function main() {
+  const { port, host, storeFile, queueFile, worker, sourceChain, apiKeys, allowSponsorFunded, webhookUrlAllowList } = parseArgs();
+  const config = sourceChain ? { sourceChain } : undefined;
+  const store = storeFile ? new JsonFileTransferStore(storeFile) : undefined;
+  const queue = queueFile
+    ? new TransferQueue({ store: new JsonFileJobStore(queueFile), transferStore: store, config, logger: consoleLogger })
+    : undefined;
+
+  const server = createTransferServer({ store, queue, config, logger: consoleLogger, apiKeys, allowSponsorFunded, webhookUrlAllowList });
+  server.listen(port, host, () => {
+    console.log(`🌐 Transfer API listening on http://${host}:${port}`);
+    if (queue && !worker) {
+      console.log(`📥 Transfers are queued in ${queueFile}; run a worker with: npx tsx src/runWorker.ts work --queue ${queueFile}`);
+    }
+  });
+
+  const controller = new AbortController();
+  const workDone = worker ? queue!.work({ signal: controller.signal }) : Promise.resolve();
+
+  const stop = () => {
+    console.log("\n🛑 Shutting down...");
+    controller.abort();
+    server.close();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  await workDone;
+}
+
+main().catch((error) => {
+  console.error("❌ Fatal error:", error);
+  process.exit(1);
+});
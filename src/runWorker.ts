@@ -0,0 +1,245 @@
+/**
+ * CLI for the Durable Transfer Job Queue
+ *
+ * Usage:
+ *   npx tsx src/runWorker.ts work --concurrency 2
+ *   npx tsx src/runWorker.ts enqueue --amount 1.0 --to <aptos-address>
+ *   npx tsx src/runWorker.ts list --status dead
+ *   npx tsx src/runWorker.ts retry <job-id>
+ */
+
+import { TransferQueue, JsonFileJobStore, TransferJob, TransferJobStatus } from "./jobQueue";
+import { JsonFileTransferStore } from "./transferStore";
+import { Permit2Permit, parsePermit2Permit } from "./permit2";
+import { consoleLogger } from "./logger";
+import { TransferDirection } from "./types";
+import { EvmChainKey, EVM_CHAINS, isEvmChainKey } from "./chains";
+
+const DEFAULT_QUEUE_FILE = "data/transfer-jobs.json";
+const JOB_STATUSES: TransferJobStatus[] = ["queued", "running", "completed", "dead"];
+
+const USAGE = `
+Usage:
+  npx tsx src/runWorker.ts <command> [options]
+
+Commands:
+  work                     Run queued jobs until interrupted (Ctrl+C finishes the running stages)
+  enqueue                  Add a transfer to the queue
+  list                     Show the jobs in the queue
+  retry <job-id>           Requeue a dead job at the stage it died in
+
+Options:
+  --queue <file>           Optional: Job queue file (default: ${DEFAULT_QUEUE_FILE})
+  --transfer-store <file>  Optional: Also record every transfer in this transfer store file (work)
+  --source-chain <chain>   Optional: EVM chain to move USDC from/to (work; default: SOURCE_CHAIN env or Base)
+  --concurrency <n>        Optional: Jobs run at once (work; default: 1)
+  --poll <ms>              Optional: Time between polls for due jobs (work; default: 5000)
+  --status <status>        Optional: Only list jobs with this status (queued, running, completed, dead)
+
+Enqueue options (same meaning as in src/runCctp.ts):
+  --amount <amount>        Amount of USDC to transfer (e.g., "1.0")
+  --direction <direction>  Optional: "base-to-aptos" (default) or "aptos-to-base"
+  --to <address>           Optional: Recipient address on the destination chain
+  --create-recipient       Optional: Let the sponsor create the Aptos recipient account if it doesn't exist
+  --recipient-funding <apt> Optional: APT the sponsor sends to a newly created recipient account
+  --from <address>         Optional: User's Base wallet address (source of USDC)
+  --sig <signature>        Optional: User authorization signature
+  --permit-data <json>     Optional: Permit2 permit data as JSON string
+  --automatic              Optional: Let the Wormhole CCTP relayer complete the transfer
+  --native-gas <amount>    Optional: USDC to swap for native gas on the destination (with --automatic)
+  --job-id <id>            Optional: ID of the job (generated if not provided)
+
+Examples:
+  # Queue two payouts, then run them with a worker
+  npx tsx src/runWorker.ts enqueue --amount 1.0 --to 0xc3e2a21da9f68dcd3ad8668c8fb72ede9f46fea67652fbffa9db8f8af0c612cf
+  npx tsx src/runWorker.ts enqueue --amount 2.5 --to 0xNewAptosAddress --create-recipient
+  npx tsx src/runWorker.ts work --concurrency 2
+
+  # Retry a job that ran out of attempts
+  npx tsx src/runWorker.ts list --status dead
+  npx tsx src/runWorker.ts retry 5f0c...
+`;
+
+function fail(message: string): never {
+  console.error(`❌ Error: ${message}`);
+  process.exit(1);
+}
+
+// Parse command line arguments
+function parseArgs() {
+  const [command, ...args] = process.argv.slice(2);
+  const options: Record<string, string | true> = {};
+  const positional: string[] = [];
+  const flags = new Set(["--automatic", "--create-recipient", "--help", "-h"]);
+
+  for (let i = 0; i < args.length; i++) {
+    if (flags.has(args[i])) {
+      options[args[i]] = true;
+    } else if (args[i].startsWith("--")) {
+      if (i + 1 >= args.length) {
+        fail(`${args[i]} requires a value`);
+      }
+      options[args[i]] = args[i + 1];
+      i++;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  if (!command || command === "--help" || command === "-h" || options["--help"] || options["-h"]) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const value = (name: string) => typeof options[name] === "string" ? options[name] as string : undefined;
+  const positiveInt = (name: string) => {
+    const raw = value(name);
+    if (raw === undefined) {
+      return undefined;
+    }
+    const parsed = parseInt(raw, 10);
+    if (isNaN(parsed) || parsed < 1) {
+      fail(`Invalid ${name} "${raw}". Must be a positive integer.`);
+    }
+    return parsed;
+  };
+
+  return { command, positional, value, flag: (name: string) => options[name] === true, positiveInt };
+}
+
+type ParsedArgs = ReturnType<typeof parseArgs>;
+
+function describeJob(job: TransferJob): string {
+  const recipient = job.request.destAddress ?? "(sponsor)";
+  const error = job.lastErrorCode ? ` [${job.lastErrorCode}] ${job.lastError}` : "";
+  const retryAt = job.status === "queued" && job.attempts > 0 ? `, retry at ${job.nextRunAt}` : "";
+  return `${job.id}  ${job.status}/${job.stage}  ${job.request.amount} USDC → ${recipient}` +
+    `${job.sourceTx ? `  source ${job.sourceTx}` : ""}${retryAt}${error}`;
+}
+
+async function runEnqueue(queue: TransferQueue, args: ParsedArgs) {
+  const amount = args.value("--amount");
+  if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
+    fail(`--amount must be a positive number`);
+  }
+
+  const direction = (args.value("--direction") ?? "base-to-aptos") as TransferDirection;
+  if (direction !== "base-to-aptos" && direction !== "aptos-to-base") {
+    fail(`Invalid direction "${direction}". Use "base-to-aptos" or "aptos-to-base".`);
+  }
+  if (args.value("--from") && !args.value("--sig")) {
+    fail(`--sig is required when --from is provided`);
+  }
+  if (args.value("--recipient-funding") && !args.flag("--create-recipient")) {
+    fail(`--recipient-funding requires --create-recipient`);
+  }
+
+  let permitData: Permit2Permit | undefined;
+  const permitDataJson = args.value("--permit-data");
+  if (permitDataJson) {
+    try {
+      permitData = parsePermit2Permit(JSON.parse(permitDataJson));
+    } catch (e) {
+      fail(`Invalid JSON for --permit-data: ${e}`);
+    }
+  }
+
+  const job = await queue.enqueue({
+    amount,
+    direction,
+    destAddress: args.value("--to"),
+    createRecipientAccount: args.flag("--create-recipient") || undefined,
+    recipientAptFunding: args.value("--recipient-funding"),
+    fromAddress: args.value("--from"),
+    signature: args.value("--sig"),
+    permitData,
+    automatic: args.flag("--automatic") || undefined,
+    nativeGas: args.value("--native-gas"),
+  }, { jobId: args.value("--job-id") });
+
+  console.log(`✅ Queued job ${job.id}`);
+}
+
+async function runList(queue: TransferQueue, args: ParsedArgs) {
+  const status = args.value("--status") as TransferJobStatus | undefined;
+  if (status && !JOB_STATUSES.includes(status)) {
+    fail(`Invalid status "${status}". Use one of: ${JOB_STATUSES.join(", ")}`);
+  }
+
+  const jobs = await queue.list({ status });
+  if (jobs.length === 0) {
+    console.log("No jobs");
+    return;
+  }
+  for (const job of jobs) {
+    console.log(describeJob(job));
+  }
+}
+
+async function runWork(queue: TransferQueue, args: ParsedArgs) {
+  const controller = new AbortController();
+  const stop = () => {
+    if (controller.signal.aborted) {
+      console.log("\n⚠️  Exiting now; interrupted jobs are recovered on the next start");
+      process.exit(1);
+    }
+    console.log("\n🛑 Stopping after the running stages (Ctrl+C again to exit now)...");
+    controller.abort();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log("👷 Transfer worker started");
+  console.log("────────────────────────────────────────────────────────────");
+  await queue.work({
+    concurrency: args.positiveInt("--concurrency"),
+    pollIntervalMs: args.positiveInt("--poll"),
+    signal: controller.signal,
+  });
+  console.log("👋 Worker stopped");
+}
+
+async function main() {
+  const args = parseArgs();
+
+  const sourceChain = args.value("--source-chain");
+  if (sourceChain && !isEvmChainKey(sourceChain)) {
+    fail(`Unknown chain "${sourceChain}". Supported chains: ${Object.keys(EVM_CHAINS).join(", ")}`);
+  }
+  const transferStoreFile = args.value("--transfer-store");
+
+  const queue = new TransferQueue({
+    store: new JsonFileJobStore(args.value("--queue") ?? DEFAULT_QUEUE_FILE),
+    transferStore: transferStoreFile ? new JsonFileTransferStore(transferStoreFile) : undefined,
+    config: sourceChain ? { sourceChain: sourceChain as EvmChainKey } : undefined,
+    logger: consoleLogger,
+  });
+
+  switch (args.command) {
+    case "work":
+      await runWork(queue, args);
+      break;
+    case "enqueue":
+      await runEnqueue(queue, args);
+      break;
+    case "list":
+      await runList(queue, args);
+      break;
+    case "retry": {
+      const [jobId] = args.positional;
+      if (!jobId) {
+        fail(`retry requires a job ID`);
+      }
+      const job = await queue.retry(jobId);
+      console.log(`✅ Requeued job ${job.id} at stage ${job.stage}`);
+      break;
+    }
+    default:
+      fail(`Unknown command "${args.command}". Run with --help for usage.`);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,326 @@
+/**
+ * Signature Replay Protection
+ *
+ * A user's signed authorization moves their USDC once. The EIP-712 digest of
+ * every authorization a transfer consumes is recorded in a pluggable store,
+ * and another transfer presenting the same signature is rejected with
+ * SIGNATURE_REPLAYED before anything is sent, even while the permit is still
+ * valid on chain. Records are kept until the permit's deadline: past it, the
+ * signature can't be used anyway.
+ *
+ * Permit2 batch allowances (PermitBatch) are meant to be shared by several
+ * transfers, so no single transfer consumes them. Once submitted, though, the
+ * batch signature is public: the first transfer drawing from a batch records
+ * it for its requester, and transfers of any other requester are rejected.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { AuthorizationError } from "./errors";
+
+/**
+ * An authorization consumed by a transfer
+ */
+export interface ConsumedSignature {
+  digest: string; // EIP-712 digest of the signed permit (lowercase hex)
+  method: 'permit2' | 'eip2612' | 'permit2-batch';
+  owner: string;
+  transferId?: string; // Transfer that consumed it (the first one that drew from a PermitBatch)
+  requester?: string; // Requester a PermitBatch is bound to (see claimPermitBatch)
+  consumedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp of the permit's deadline, after which the record is dropped
+}
+
+/**
+ * Storage backend for consumed signatures
+ *
+ * Expired records must be treated as absent.
+ */
+export interface SignatureReplayStore {
+  /** Get the record of a digest, unless it expired */
+  get(digest: string): Promise<ConsumedSignature | undefined>;
+  /** Insert the record if its digest is absent or expired; false if the digest is taken */
+  create(record: ConsumedSignature): Promise<boolean>;
+  /** Forget a digest */
+  delete(digest: string): Promise<void>;
+  /** Drop every expired record; returns how many were dropped */
+  prune(): Promise<number>;
+}
+
+/**
+ * Keeps consumed signatures in memory (lost when the process exits)
+ */
+export class InMemorySignatureReplayStore implements SignatureReplayStore {
+  private readonly records = new Map<string, ConsumedSignature>();
+
+  async get(digest: string): Promise<ConsumedSignature | undefined> {
+    const record = this.records.get(digest.toLowerCase());
+    if (record && isExpired(record)) {
+      this.records.delete(record.digest);
+      return undefined;
+    }
+    return record ? { ...record } : undefined;
+  }
+
+  async create(record: ConsumedSignature): Promise<boolean> {
+    if (await this.get(record.digest)) {
+      return false;
+    }
+    this.records.set(record.digest.toLowerCase(), { ...record, digest: record.digest.toLowerCase() });
+    return true;
+  }
+
+  async delete(digest: string): Promise<void> {
+    this.records.delete(digest.toLowerCase());
+  }
+
+  async prune(): Promise<number> {
+    let pruned = 0;
+    for (const [digest, record] of this.records) {
+      if (isExpired(record)) {
+        this.records.delete(digest);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
+
+/**
+ * Keeps consumed signatures in a JSON file (one object keyed by digest)
+ *
+ * Writes are serialized within the process, so `create` is atomic for every
+ * caller sharing the store instance. Expired records are dropped on every write.
+ */
+export class JsonFileSignatureReplayStore implements SignatureReplayStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(digest: string): Promise<ConsumedSignature | undefined> {
+    const record = (await this.load())[digest.toLowerCase()];
+    return record && !isExpired(record) ? record : undefined;
+  }
+
+  async create(record: ConsumedSignature): Promise<boolean> {
+    const digest = record.digest.toLowerCase();
+    return this.write((records) => {
+      const existing = records[digest];
+      if (existing && !isExpired(existing)) {
+        return false;
+      }
+      records[digest] = { ...record, digest };
+      return true;
+    });
+  }
+
+  async delete(digest: string): Promise<void> {
+    await this.write((records) => {
+      delete records[digest.toLowerCase()];
+    });
+  }
+
+  async prune(): Promise<number> {
+    const before = Object.keys(await this.load()).length;
+    const after = await this.write((records) => Object.keys(records).filter((digest) => !isExpired(records[digest])).length);
+    return Math.max(0, before - after);
+  }
+
+  private write<T>(update: (records: Record<string, ConsumedSignature>) => T): Promise<T> {
+    const write = this.writeQueue.then(async () => {
+      const records = await this.load();
+      const result = update(records);
+      for (const [digest, record] of Object.entries(records)) {
+        if (isExpired(record)) {
+          delete records[digest];
+        }
+      }
+      await this.save(records);
+      return result;
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.then(() => undefined, () => undefined);
+    return write;
+  }
+
+  private async load(): Promise<Record<string, ConsumedSignature>> {
+    try {
+      const json = await fs.readFile(this.filePath, "utf8");
+      return JSON.parse(json) as Record<string, ConsumedSignature>;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async save(records: Record<string, ConsumedSignature>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(records, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Latest time a Date can hold, in ms
+ */
+const MAX_DATE_MS = 8.64e15;
+
+let defaultStore: SignatureReplayStore | undefined;
+
+/**
+ * Store used by requests that have no signatureStore (in memory, shared by the whole process)
+ */
+export function getDefaultSignatureReplayStore(): SignatureReplayStore {
+  defaultStore ??= new InMemorySignatureReplayStore();
+  return defaultStore;
+}
+
+/**
+ * Check that no other transfer consumed a signature
+ * @param store - Where consumed signatures are recorded
+ * @param digest - EIP-712 digest of the signed permit
+ * @param transferId - Transfer presenting the signature (a retry of the transfer that consumed it is allowed)
+ * @throws AuthorizationError (SIGNATURE_REPLAYED)
+ */
+export async function assertSignatureUnused(
+  store: SignatureReplayStore,
+  digest: string,
+  transferId?: string
+): Promise<void> {
+  const existing = await store.get(digest);
+  if (existing && !isSameTransfer(existing, transferId)) {
+    throw replayedError(existing);
+  }
+}
+
+/**
+ * Record a signature as consumed by a transfer
+ * @param store - Where consumed signatures are recorded
+ * @param digest - EIP-712 digest of the signed permit
+ * @param method - Kind of permit
+ * @param owner - Wallet that signed it
+ * @param deadline - Permit deadline (unix seconds); the record is kept until then
+ * @param transferId - Transfer consuming the signature
+ * @returns The record
+ * @throws AuthorizationError (SIGNATURE_REPLAYED) if another transfer consumed it
+ */
+export async function consumeSignature(
+  store: SignatureReplayStore,
+  digest: string,
+  method: ConsumedSignature['method'],
+  owner: string,
+  deadline: bigint,
+  transferId?: string
+): Promise<ConsumedSignature> {
+  const record: ConsumedSignature = {
+    digest: digest.toLowerCase(),
+    method,
+    owner,
+    transferId,
+    consumedAt: new Date().toISOString(),
+    expiresAt: expiryDate(deadline),
+  };
+  if (await store.create(record)) {
+    return record;
+  }
+
+  const existing = await store.get(digest);
+  if (existing && !isSameTransfer(existing, transferId)) {
+    throw replayedError(existing);
+  }
+  return existing ?? record;
+}
+
+/**
+ * Forget a signature a transfer recorded but couldn't use (e.g. its pull
+ * failed), so it can be presented again
+ *
+ * Only the transfer that consumed the signature can release it.
+ */
+export async function releaseSignature(store: SignatureReplayStore, digest: string, transferId?: string): Promise<void> {
+  const existing = await store.get(digest);
+  if (existing && isSameTransfer(existing, transferId)) {
+    await store.delete(digest);
+  }
+}
+
+/**
+ * Check that a PermitBatch is not bound to another requester
+ * @param store - Where consumed signatures are recorded
+ * @param digest - EIP-712 digest of the signed PermitBatch
+ * @param requester - Requester of the transfer drawing from it (CctpTransferRequest.requester)
+ * @throws AuthorizationError (SIGNATURE_REPLAYED)
+ */
+export async function assertPermitBatchRequester(
+  store: SignatureReplayStore,
+  digest: string,
+  requester?: string
+): Promise<void> {
+  const existing = await store.get(digest);
+  if (existing && (existing.method !== 'permit2-batch' || existing.requester !== requester)) {
+    throw new AuthorizationError(
+      'SIGNATURE_REPLAYED',
+      `Permit batch ${existing.digest} of ${existing.owner} is bound to another requester since ${existing.consumedAt}`
+    );
+  }
+}
+
+/**
+ * Bind a PermitBatch to the requester of the first transfer drawing from it
+ *
+ * Later transfers of the same requester draw from the batch as well.
+ * @param store - Where consumed signatures are recorded
+ * @param digest - EIP-712 digest of the signed PermitBatch
+ * @param owner - Wallet that signed it
+ * @param expiry - Last time (unix seconds) the allowance can be drawn from; the record is kept until then
+ * @param requester - Requester of the transfer drawing from it (CctpTransferRequest.requester)
+ * @param transferId - Transfer drawing from it
+ * @throws AuthorizationError (SIGNATURE_REPLAYED) if another requester drew from the batch
+ */
+export async function claimPermitBatch(
+  store: SignatureReplayStore,
+  digest: string,
+  owner: string,
+  expiry: bigint,
+  requester?: string,
+  transferId?: string
+): Promise<void> {
+  const created = await store.create({
+    digest: digest.toLowerCase(),
+    method: 'permit2-batch',
+    owner,
+    transferId,
+    requester,
+    consumedAt: new Date().toISOString(),
+    expiresAt: expiryDate(expiry),
+  });
+  if (!created) {
+    await assertPermitBatchRequester(store, digest, requester);
+  }
+}
+
+/**
+ * ISO timestamp of a permit deadline
+ */
+function expiryDate(deadline: bigint): string {
+  // Permits often never expire (deadline type(uint256).max): keep those until the latest valid Date
+  return new Date(Math.min(Number(deadline) * 1000, MAX_DATE_MS)).toISOString();
+}
+
+function isSameTransfer(record: ConsumedSignature, transferId: string | undefined): boolean {
+  return record.transferId !== undefined && record.transferId === transferId;
+}
+
+function replayedError(record: ConsumedSignature): AuthorizationError {
+  return new AuthorizationError(
+    'SIGNATURE_REPLAYED',
+    `Signature ${record.digest} of ${record.owner} was already used${record.transferId ? ` by transfer ${record.transferId}` : ""} at ${record.consumedAt}`
+  );
+}
+
+function isExpired(record: ConsumedSignature, now: number = Date.now()): boolean {
+  return new Date(record.expiresAt).getTime() <= now;
+}
@@ -0,0 +1,1038 @@
+/**
+ * Staged CCTP Transfer API
+ *
+ * Splits a Base ↔ Aptos transfer into three resumable stages:
+ *   1. initiateCctpTransfer  - verify authorization and burn USDC on the source chain
+ *   2. awaitCctpAttestation  - wait for the Circle attestation
+ *   3. completeCctpTransfer  - mint USDC on the destination chain
+ *
+ * Each stage returns a serializable CctpTransferReceipt. If the process dies
+ * between stages, any later stage can be run in a fresh process from the last
+ * receipt, since the CircleTransfer is rebuilt from the source transaction.
+ */
+
+import { randomUUID } from "crypto";
+import { CircleBridge, CircleTransfer, TransferState, Wormhole, isCircleMessageId } from "@wormhole-foundation/sdk";
+import type { AttestationId, Network, Signer } from "@wormhole-foundation/sdk";
+import { Config } from "./config";
+import { createTransferContext, directionOfReceipt, TransferContext } from "./context";
+import { APTOS_CHAINS, getExplorerTxUrl } from "./chains";
+import { toEvmSdkSigner, toAptosSdkSigner } from "./helper";
+import {
+  verifyUserAuthorization,
+  verifyPermitBatchAuthorization,
+  verifyEip2612Authorization,
+  assertWitnessFee,
+} from "./authorization";
+import {
+  executePermitTransferFrom,
+  executePermitBatch,
+  executeAllowanceTransferFrom,
+  getPermit2Allowance,
+  getPermit2Funding,
+} from "./permit2Contract";
+import { APT_DECIMALS, USDC_DECIMALS, parseDecimalAmount } from "./amounts";
+import { createAptosAccount, getAptosRecipientStatus, isAptosAddress, DEFAULT_MAX_RECIPIENT_APT_FUNDING } from "./aptosAccount";
+import { hashPermit2Permit, hashPermit2BatchPermit, type Permit2Permit, type Permit2AllowanceBatch } from "./permit2";
+import type { Eip2612Permit } from "./eip2612";
+import { executeEip2612Permit, getEip2612Nonce } from "./eip2612Contract";
+import { isErc6492Signature, deployErc6492Account } from "./eip1271";
+import { CctpTransferReceipt, TransferDirection, TransferStage } from "./types";
+import { TransferStore, recordTransferRequest, recordTransferReceipt, recordTransferFailure } from "./transferStore";
+import { Logger, silentLogger } from "./logger";
+import type { TrackedTransaction } from "./nonceManager";
+import { createProgressEmitter, ProgressListener, TransferProgressPayload } from "./events";
+import { getWebhookDispatcher, WebhookEndpoint } from "./webhooks";
+import {
+  assertSignatureUnused,
+  consumeSignature,
+  releaseSignature,
+  assertPermitBatchRequester,
+  claimPermitBatch,
+  getDefaultSignatureReplayStore,
+} from "./signatureReplay";
+import {
+  FluidError,
+  AuthorizationError,
+  InsufficientBalanceError,
+  AttestationTimeoutError,
+  DestinationError,
+  toFluidError,
+} from "./errors";
+import type { CctpTransferRequest } from "./cctpTransfer";
+
+/**
+ * Default time to wait for the Circle attestation (180 seconds)
+ */
+export const DEFAULT_ATTESTATION_TIMEOUT_MS = 180000;
+
+/**
+ * Options shared by the resume stages
+ */
+export interface TransferStageOptions {
+  config?: Partial<Config>; // Optional: Override default config (uses env vars if not provided)
+  context?: TransferContext; // Optional: Reuse an already-initialized transfer context
+  direction?: TransferDirection; // Optional: Direction of the source tx for receiptFromSourceTx (default: base-to-aptos)
+  attestationTimeoutMs?: number; // Optional: Attestation timeout (default: 180 seconds)
+  store?: TransferStore; // Optional: Record stage transitions in this store
+  onProgress?: ProgressListener; // Optional: Receive typed progress events
+  webhooks?: WebhookEndpoint[]; // Optional: Also post lifecycle events to these endpoints
+  logger?: Logger; // Optional: Logger for diagnostics (silent by default)
+}
+
+/**
+ * Per-run plumbing shared by a stage and its tracking wrapper
+ */
+interface StageRun {
+  transferId?: string;
+  store?: TransferStore;
+  logger: Logger;
+  emit: (payload: TransferProgressPayload) => void;
+}
+
+/**
+ * Serialize a transfer receipt to a JSON string
+ */
+export function serializeTransferReceipt(receipt: CctpTransferReceipt): string {
+  return JSON.stringify(receipt);
+}
+
+/**
+ * Parse a transfer receipt previously produced by serializeTransferReceipt
+ * @throws if the JSON is not a valid transfer receipt
+ */
+export function parseTransferReceipt(json: string): CctpTransferReceipt {
+  const receipt = JSON.parse(json) as CctpTransferReceipt;
+
+  if (receipt.version !== 1) {
+    throw new FluidError('RECEIPT_INVALID', `Unsupported transfer receipt version: ${receipt.version}`);
+  }
+  if (!receipt.sourceTx || !receipt.sourceChain || !receipt.stage) {
+    throw new FluidError('RECEIPT_INVALID', `Invalid transfer receipt: sourceTx, sourceChain and stage are required`);
+  }
+
+  return receipt;
+}
+
+/**
+ * Stage 1: Verify authorization and burn USDC on the source chain
+ * @param request - Transfer request with amount, direction and optional destination address
+ * @param context - Optional already-initialized transfer context
+ * @returns Receipt in the "initiated" stage
+ * @throws FluidError (e.g. AUTH_*, PERMIT_EXPIRED, NONCE_STUCK, INSUFFICIENT_BALANCE, SOURCE_FAILED)
+ */
+export async function initiateCctpTransfer(
+  request: CctpTransferRequest,
+  context?: TransferContext
+): Promise<CctpTransferReceipt> {
+  const transferId = request.transferId ?? randomUUID();
+  const run = createStageRun(transferId, request, context);
+
+  if (request.store && !(await request.store.get(transferId))) {
+    await recordTransferRequest(request.store, request, transferId);
+  }
+
+  return trackStage(run, undefined, "initiated", undefined, () => initiate(request, run, context));
+}
+
+async function initiate(
+  request: CctpTransferRequest,
+  run: StageRun,
+  context?: TransferContext
+): Promise<CctpTransferReceipt> {
+  const direction = request.direction ?? "base-to-aptos";
+  if (request.dryRun) {
+    throw new FluidError('INVALID_REQUEST', `Dry runs are only supported by transferUsdcViaCctp and runPreflight`);
+  }
+  if (context && context.direction !== direction) {
+    throw new FluidError('INVALID_REQUEST', `Request direction ${direction} does not match the context direction ${context.direction}`);
+  }
+  const ctx = context ?? await createTransferContext(request.config, run.logger, direction);
+  const { wh, srcChainName, dstChainName } = ctx;
+  const { logger, emit } = run;
+
+  // Parse amount - USDC has 6 decimals
+  const amountBigInt = BigInt(Math.floor(parseFloat(request.amount) * 1_000_000));
+
+  // Determine whether the USDC comes from a user wallet or the sponsor wallet
+  const useUserWallet = !!request.fromAddress && !!request.signature;
+
+  if (useUserWallet && srcChainName === "Aptos") {
+    throw new FluidError('INVALID_REQUEST', `User wallet transfers (fromAddress/signature) are only supported from Base`);
+  }
+
+  // Use destination address if provided, otherwise use sponsor wallet
+  const recipientAddress = request.destAddress || sponsorAddress(ctx, dstChainName);
+
+  // Checked before the sponsor spends anything on the transfer (e.g. creating the recipient account)
+  const authorization = useUserWallet
+    ? await verifyTransferAuthorization(ctx, request, amountBigInt, logger)
+    : undefined;
+
+  // A missing Aptos account would only fail the mint, after the burn: check it before anything moves
+  const recipientAccountTx = dstChainName === "Aptos"
+    ? await ensureAptosRecipient(ctx, request, recipientAddress, run)
+    : undefined;
+
+  // The sponsor always burns: user USDC is first pulled into the sponsor wallet
+  const sourceAddress = sponsorAddress(ctx, srcChainName);
+  logger.info(`Amount: ${request.amount} USDC (${amountBigInt.toString()} smallest units)`);
+
+  logger.info(`Recipient: ${recipientAddress}`);
+
+  // Create Circle CCTP transfer
+  logger.info(`Starting CCTP transfer...`);
+
+  // Create ChainAddress objects using Wormhole static method
+  const senderAddress = Wormhole.chainAddress(srcChainName, sourceAddress);
+  const receiverAddress = Wormhole.chainAddress(dstChainName, recipientAddress);
+
+  const automatic = !!request.automatic;
+  const nativeGas = request.nativeGas ? parseDecimalAmount(request.nativeGas, USDC_DECIMALS, "nativeGas") : 0n;
+  if (nativeGas > 0n && !automatic) {
+    throw new FluidError('INVALID_REQUEST', `nativeGas is only supported for automatic transfers`);
+  }
+  if (automatic) {
+    assertRelaySupported(ctx);
+  }
+
+  const circleTransfer = await wh.circleTransfer(
+    amountBigInt,
+    senderAddress,
+    receiverAddress,
+    automatic, // relayed by the Wormhole CCTP relayer, or completed by the sponsor
+    undefined, // no payload
+    automatic ? nativeGas : 0n
+  );
+
+  // Get transfer quote: required for the relayer fee, informational otherwise
+  let relayerFee: bigint | undefined;
+  try {
+    const quote = await CircleTransfer.quoteTransfer(
+      wh.getChain(srcChainName),
+      wh.getChain(dstChainName),
+      circleTransfer.transfer
+    );
+    logger.debug(`Transfer quote:`, quote);
+    if (automatic) {
+      relayerFee = quote.relayFee?.amount ?? 0n;
+      logger.info(`Relayer fee: ${relayerFee} USDC units, recipient receives ${quote.destinationToken.amount}`);
+      if (nativeGas > 0n) {
+        logger.info(`Native gas drop-off: ${quote.destinationNativeGas} base units on ${dstChainName}`);
+      }
+    }
+  } catch (quoteError: any) {
+    if (automatic) {
+      throw new FluidError('RELAY_UNSUPPORTED', `Could not quote the relayer fee: ${quoteError?.message ?? quoteError}`, {
+        stage: "initiated",
+        cause: quoteError,
+      });
+    }
+    logger.warn(`Could not get transfer quote (non-critical):`, quoteError.message);
+    // Continue anyway - quote is optional
+  }
+
+  // Pull the user's USDC once the fee is known: a permit witness caps it
+  let userAddress: string | undefined;
+  let permitTx: string | undefined;
+  if (useUserWallet && request.fromAddress) {
+    userAddress = request.fromAddress;
+    permitTx = await pullUserFunds(ctx, request, authorization, amountBigInt, relayerFee ?? 0n, run);
+  } else {
+    logger.info(`Using sponsor wallet as source`);
+  }
+
+  // Initiate transfer on the source chain
+  logger.info(`Initiating transfer on ${srcChainName}...`);
+
+  // Transactions signed for this burn: once one exists, it may be mined even if sending failed
+  const signedTxs: string[] = [];
+  const srcSdkSigner = await sponsorSdkSigner(ctx, srcChainName, (tx) => signedTxs.push(tx.hash));
+  let srcTxids: string[];
+  try {
+    if (srcChainName !== "Aptos") {
+      await resolveStuckTransactions(ctx, run);
+    }
+    srcTxids = await circleTransfer.initiateTransfer(srcSdkSigner);
+  } catch (error) {
+    const message = (error as any)?.message ?? error;
+    const signedTx = signedTxs[signedTxs.length - 1];
+    if (permitTx) {
+      // The permit nonce is spent, so the stage can't simply be repeated
+      throw new FluidError(
+        'SOURCE_FAILED',
+        `USDC was pulled from ${userAddress} in ${permitTx} but the burn failed; ` +
+        `the sponsor wallet now holds the funds. Error: ${message}`,
+        { stage: "initiated", sourceTx: signedTx, permitTx, retryable: false, cause: error }
+      );
+    }
+    if (signedTx) {
+      // Repeating the stage could burn twice: check the transaction before retrying
+      throw new FluidError(
+        'SOURCE_FAILED',
+        `Transaction ${signedTx} was signed but sending the burn failed; check whether it was mined before retrying. Error: ${message}`,
+        { stage: "initiated", sourceTx: signedTx, retryable: false, cause: error }
+      );
+    }
+    if (srcChainName === "Aptos") {
+      // Aptos transactions aren't observed before submission, so one may have been sent
+      throw new FluidError(
+        'SOURCE_FAILED',
+        `Sending the Aptos burn failed; check whether it was submitted before retrying. Error: ${message}`,
+        { stage: "initiated", retryable: false, cause: error }
+      );
+    }
+    throw error;
+  }
+  // The last tx is the burn; earlier ones may be a USDC spend approval
+  const sourceTx = Array.isArray(srcTxids) ? srcTxids[srcTxids.length - 1] : srcTxids;
+  logger.info(`Sent ${srcChainName} transaction: ${sourceTx}`);
+  logger.info(`Explorer: ${explorerTxUrl(ctx, srcChainName, sourceTx)}`);
+  emit({
+    type: "source-sent",
+    chain: srcChainName,
+    txHash: sourceTx,
+    amount: amountBigInt.toString(),
+    senderAddress: sourceAddress,
+    recipientAddress,
+    automatic,
+    relayerFee: relayerFee?.toString(),
+  });
+
+  const now = new Date().toISOString();
+  return {
+    version: 1,
+    transferId: run.transferId,
+    stage: "initiated",
+    network: ctx.network as CctpTransferReceipt["network"],
+    sourceChain: srcChainName,
+    destinationChain: dstChainName,
+    amount: amountBigInt.toString(),
+    senderAddress: sourceAddress,
+    recipientAddress,
+    userAddress,
+    permitTx,
+    recipientAccountTx,
+    automatic: automatic || undefined,
+    relayerFee: relayerFee?.toString(),
+    nativeGas: automatic && nativeGas > 0n ? nativeGas.toString() : undefined,
+    sourceTx,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Stage 2: Wait for the Circle attestation of the burn
+ * @param receipt - Receipt from initiateCctpTransfer (or any later stage)
+ * @param options - Optional config, context, attestation timeout, store and listeners
+ * @returns Receipt in the "attested" stage (or unchanged if already further along)
+ * @throws FluidError (ATTESTATION_TIMEOUT is safe to retry with the same receipt)
+ */
+export async function awaitCctpAttestation(
+  receipt: CctpTransferReceipt,
+  options: TransferStageOptions = {}
+): Promise<CctpTransferReceipt> {
+  if (receipt.stage !== "initiated") {
+    return receipt;
+  }
+
+  const run = createStageRun(receipt.transferId, options, options.context);
+  return trackStage(run, receipt.stage, "attested", receipt.sourceTx, () => awaitAttestation(receipt, options, run));
+}
+
+async function awaitAttestation(
+  receipt: CctpTransferReceipt,
+  options: TransferStageOptions,
+  run: StageRun
+): Promise<CctpTransferReceipt> {
+  const ctx = options.context ?? await createTransferContext(options.config, run.logger, directionOfReceipt(receipt));
+  const timeout = options.attestationTimeoutMs ?? DEFAULT_ATTESTATION_TIMEOUT_MS;
+  const { logger, emit } = run;
+
+  logger.info(`Waiting for Circle attestation (this may take 1-3 minutes)...`);
+  emit({ type: "attestation-wait", sourceTx: receipt.sourceTx, timeoutMs: timeout });
+  const circleTransfer = await loadCircleTransfer(ctx, receipt, timeout);
+
+  const attestationId = getAttestationId(circleTransfer);
+  logger.info(`Attestation received: ${attestationId}`);
+  emit({ type: "attestation-received", sourceTx: receipt.sourceTx, attestationId });
+
+  return {
+    ...receipt,
+    stage: "attested",
+    attestationId,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Stage 3: Complete the transfer on the destination chain with the sponsor signer
+ *
+ * Automatic transfers are completed by the relayer: this stage only waits for
+ * the mint, and the receipt has no destinationTx.
+ * If the mint already happened (for example by a previous run that died before
+ * saving its receipt), no transaction is sent and the receipt is marked completed.
+ * @param receipt - Receipt from awaitCctpAttestation (an "initiated" receipt is attested first)
+ * @param options - Optional config, context, attestation timeout, store and listeners
+ * @returns Receipt in the "completed" stage
+ * @throws FluidError (DESTINATION_FAILED is safe to retry with the same receipt)
+ */
+export async function completeCctpTransfer(
+  receipt: CctpTransferReceipt,
+  options: TransferStageOptions = {}
+): Promise<CctpTransferReceipt> {
+  if (receipt.stage === "completed") {
+    return receipt;
+  }
+
+  const run = createStageRun(receipt.transferId, options, options.context);
+  return trackStage(run, receipt.stage, "completed", receipt.sourceTx, () => complete(receipt, options, run));
+}
+
+async function complete(
+  receipt: CctpTransferReceipt,
+  options: TransferStageOptions,
+  run: StageRun
+): Promise<CctpTransferReceipt> {
+  const ctx = options.context ?? await createTransferContext(options.config, run.logger, directionOfReceipt(receipt));
+  const timeout = options.attestationTimeoutMs ?? DEFAULT_ATTESTATION_TIMEOUT_MS;
+  const { logger, emit } = run;
+
+  const circleTransfer = await loadCircleTransfer(ctx, receipt, timeout);
+  const attestationId = receipt.attestationId ?? getAttestationId(circleTransfer);
+
+  if (circleTransfer.getTransferState() === TransferState.DestinationFinalized) {
+    logger.info(`Transfer was already completed on ${ctx.dstChainName}`);
+    const completed: CctpTransferReceipt = {
+      ...receipt,
+      stage: "completed",
+      attestationId,
+      updatedAt: new Date().toISOString(),
+    };
+    emit({ type: "completed", receipt: completed, alreadyCompleted: true });
+    return completed;
+  }
+
+  if (receipt.automatic) {
+    await waitForRelayer(ctx, circleTransfer, receipt, timeout, run);
+    const completed: CctpTransferReceipt = {
+      ...receipt,
+      stage: "completed",
+      attestationId,
+      updatedAt: new Date().toISOString(),
+    };
+    emit({ type: "completed", receipt: completed, alreadyCompleted: false });
+    return completed;
+  }
+
+  logger.info(`Completing transfer on ${ctx.dstChainName}...`);
+  let dstTxids: string[];
+  try {
+    if (ctx.dstChainName !== "Aptos") {
+      await resolveStuckTransactions(ctx, run);
+    }
+    const dstSdkSigner = await sponsorSdkSigner(ctx, ctx.dstChainName);
+    dstTxids = await circleTransfer.completeTransfer(dstSdkSigner);
+  } catch (error: any) {
+    throw toFluidError(error, "completed", receipt.sourceTx);
+  }
+  const destinationTx = Array.isArray(dstTxids) ? dstTxids[0] : dstTxids;
+  logger.info(`Completed ${ctx.dstChainName} transaction: ${destinationTx}`);
+  logger.info(`Explorer: ${explorerTxUrl(ctx, ctx.dstChainName, destinationTx)}`);
+  emit({ type: "destination-sent", chain: ctx.dstChainName, txHash: destinationTx });
+
+  const completed: CctpTransferReceipt = {
+    ...receipt,
+    stage: "completed",
+    attestationId,
+    destinationTx,
+    updatedAt: new Date().toISOString(),
+  };
+  emit({ type: "completed", receipt: completed, alreadyCompleted: false });
+  return completed;
+}
+
+/**
+ * Rebuild a receipt for a transfer from its source transaction alone
+ *
+ * The amount, sender and recipient are parsed from the burn on the source chain,
+ * and the Circle attestation is fetched. The receipt is "completed" if the mint
+ * already happened on the destination chain, otherwise "attested".
+ * @param sourceTx - Burn transaction hash on the source chain
+ * @param options - Optional config, context, direction and attestation timeout
+ * @returns Receipt in the "attested" or "completed" stage
+ */
+export async function receiptFromSourceTx(
+  sourceTx: string,
+  options: TransferStageOptions = {}
+): Promise<CctpTransferReceipt> {
+  const ctx = options.context ?? await createTransferContext(options.config, options.logger, options.direction);
+  const timeout = options.attestationTimeoutMs ?? DEFAULT_ATTESTATION_TIMEOUT_MS;
+
+  const circleTransfer = await fetchCircleTransfer(ctx, sourceTx, timeout);
+  const { from, to, amount } = circleTransfer.transfer;
+
+  if (to.chain !== ctx.dstChainName) {
+    throw new FluidError('INVALID_REQUEST', `Transaction ${sourceTx} is a CCTP transfer to ${to.chain}, not ${ctx.dstChainName}`);
+  }
+
+  const completed = circleTransfer.getTransferState() === TransferState.DestinationFinalized;
+  const now = new Date().toISOString();
+  return {
+    version: 1,
+    transferId: randomUUID(),
+    stage: completed ? "completed" : "attested",
+    network: ctx.network as CctpTransferReceipt["network"],
+    sourceChain: ctx.srcChainName,
+    destinationChain: ctx.dstChainName,
+    amount: amount.toString(),
+    senderAddress: Wormhole.canonicalAddress(from),
+    recipientAddress: Wormhole.canonicalAddress(to),
+    automatic: circleTransfer.transfer.automatic || undefined,
+    sourceTx,
+    attestationId: getAttestationId(circleTransfer),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Move the user's USDC into the sponsor wallet, once their authorization was verified
+ *
+ * A real Permit2 signature is submitted to `permitTransferFrom` by the sponsor,
+ * which pays the gas. With a Permit2 PermitBatch, the sponsor submits the batch
+ * once and then draws the amount from the allowance it set, for the requester
+ * that first drew from it only. An EIP-2612
+ * permit is submitted to the USDC token, which the sponsor then pulls from.
+ * The "dummy" placeholder only passes verification: nothing is pulled and the
+ * sponsor funds the transfer.
+ * @param authorization - The request's authorization, from verifyTransferAuthorization
+ * @param fee - USDC units deducted from the transfer (the relayer fee), checked against the permit's witness
+ * @returns Hash of the pull, or undefined for the placeholder
+ */
+async function pullUserFunds(
+  ctx: TransferContext,
+  request: CctpTransferRequest,
+  authorization: VerifiedAuthorization | undefined,
+  amount: bigint,
+  fee: bigint,
+  run: StageRun
+): Promise<string | undefined> {
+  const { baseSigner } = ctx;
+  const { logger, emit } = run;
+  const owner = request.fromAddress!;
+
+  logger.info(`User wallet (source): ${owner}`);
+  logger.info(`Sponsor wallet is paying all gas`);
+
+  if (!authorization) {
+    logger.info(`Authorization: Placeholder signature accepted`);
+    logger.warn(`Placeholder signature can't move user funds; the sponsor wallet funds this transfer`);
+    emit({ type: "authorized", fromAddress: owner, method: "placeholder" });
+    return undefined;
+  }
+
+  if (authorization.method === "permit2") {
+    const { permit } = authorization;
+    assertWitnessFee(permit, fee);
+    logger.info(`Authorization: Permit2 signature verified${permit.witness ? ` (bound to ${permit.witness.recipient})` : ""}`);
+  } else {
+    logger.info(`Authorization: ${authorization.method === "eip2612" ? "EIP-2612" : "Permit2 batch"} signature verified`);
+  }
+  emit({ type: "authorized", fromAddress: owner, method: authorization.method });
+
+  const { balance, permit2Allowance } = await getPermit2Funding(baseSigner.provider, ctx.evmChain.usdcAddress, owner);
+  if (balance < amount) {
+    throw new InsufficientBalanceError(
+      `User wallet ${owner} has ${balance} USDC units, ${amount} needed`,
+      { stage: "initiated" }
+    );
+  }
+  // An EIP-2612 permit is the approval itself
+  if (authorization.method !== "eip2612" && permit2Allowance < amount) {
+    throw new AuthorizationError(
+      'PERMIT2_NOT_APPROVED',
+      `User wallet ${owner} has not approved the Permit2 contract to spend its USDC (allowance ${permit2Allowance}, ${amount} needed)`
+    );
+  }
+
+  await resolveStuckTransactions(ctx, run);
+
+  let permitTx: string;
+  if (authorization.method === "permit2-batch") {
+    // The batch signature is public once submitted: only this requester may draw from it
+    const { permit: batch, digest } = authorization;
+    const detail = batch.details.find((entry) => entry.token.toLowerCase() === ctx.evmChain.usdcAddress.toLowerCase())!;
+    const expiry = BigInt(detail.expiration) > batch.sigDeadline ? BigInt(detail.expiration) : batch.sigDeadline;
+    await claimPermitBatch(
+      request.signatureStore ?? getDefaultSignatureReplayStore(), digest, owner, expiry, request.requester, run.transferId
+    );
+    const signature = await deployUserAccount(ctx, owner, request.signature!, logger);
+    await submitPermitBatch(ctx, authorization.permit, signature, run);
+    logger.info(`Drawing ${amount} USDC units from the Permit2 allowance of ${owner}...`);
+    permitTx = await executeAllowanceTransferFrom(ctx.nonceManager.signer, owner, ctx.evmChain.usdcAddress, amount);
+  } else {
+    // Recorded before the pull, so a concurrent transfer presenting the same signature is rejected
+    const signatureStore = request.signatureStore ?? getDefaultSignatureReplayStore();
+    const { digest, permit } = authorization;
+    await consumeSignature(signatureStore, digest, authorization.method, owner, permit.deadline, run.transferId);
+    try {
+      if (authorization.method === "eip2612") {
+        logger.info(`Pulling ${amount} USDC units from ${owner} with an EIP-2612 permit...`);
+        permitTx = await executeEip2612Permit(ctx.nonceManager.signer, authorization.permit, request.signature!);
+      } else {
+        const signature = await deployUserAccount(ctx, owner, request.signature!, logger);
+        logger.info(`Pulling ${amount} USDC units from ${owner} with Permit2...`);
+        permitTx = await executePermitTransferFrom(ctx.nonceManager.signer, authorization.permit, signature);
+      }
+    } catch (error) {
+      // A mined EIP-2612 permit stays recorded, so only this transfer can resume from the allowance it set
+      const permitMined = authorization.method === "eip2612" &&
+        await getEip2612Nonce(baseSigner.provider, permit.token, owner).then((nonce) => nonce > permit.nonce, () => true);
+      if (!permitMined) {
+        // The on-chain nonce still guards a Permit2 permit that was mined
+        await releaseSignature(signatureStore, digest, run.transferId);
+      }
+      throw error;
+    }
+  }
+  logger.info(`User funds pulled: ${permitTx}`);
+  emit({ type: "funds-pulled", chain: ctx.srcChainName, txHash: permitTx, owner, amount: amount.toString() });
+
+  return permitTx;
+}
+
+/**
+ * Deploy the smart account of an ERC-6492 signature, which Permit2 checks with EIP-1271
+ * @returns The signature to submit to Permit2 (unwrapped if it was an ERC-6492 one)
+ */
+async function deployUserAccount(ctx: TransferContext, owner: string, signature: string, logger: Logger): Promise<string> {
+  if (!isErc6492Signature(signature)) {
+    return signature;
+  }
+  const { erc6492Factories = [], erc6492DeployGasLimit } = ctx.config;
+  logger.info(`Deploying the smart account ${owner} of the ERC-6492 signature...`);
+  const deployed = await deployErc6492Account(
+    ctx.nonceManager.signer,
+    owner,
+    signature,
+    erc6492Factories,
+    erc6492DeployGasLimit !== undefined ? BigInt(erc6492DeployGasLimit) : undefined
+  );
+  logger.info(deployed.deployTx ? `Smart account deployed: ${deployed.deployTx}` : `Smart account already deployed`);
+  return deployed.signature;
+}
+
+/**
+ * PermitBatch submissions in flight, by chain and signature
+ */
+const pendingPermitBatches = new Map<string, Promise<void>>();
+
+/**
+ * Submit a PermitBatch unless an earlier transfer already did
+ *
+ * Transfers sharing the batch in this process wait for one submission; the
+ * on-chain AllowanceTransfer nonce tells whether it already happened.
+ */
+async function submitPermitBatch(
+  ctx: TransferContext,
+  batch: Permit2AllowanceBatch,
+  signature: string,
+  run: StageRun
+): Promise<void> {
+  const key = `${ctx.evmChain.chainId}:${signature.toLowerCase()}`;
+  let pending = pendingPermitBatches.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const token = ctx.evmChain.usdcAddress;
+      const detail = batch.details.find((entry) => entry.token.toLowerCase() === token.toLowerCase())!;
+      const { nonce } = await getPermit2Allowance(ctx.baseSigner.provider, batch.owner, token, batch.spender);
+      if (nonce > detail.nonce) {
+        return;
+      }
+      run.logger.info(`Submitting Permit2 batch of ${batch.owner}...`);
+      const txHash = await executePermitBatch(ctx.nonceManager.signer, batch, signature);
+      run.logger.info(`Permit2 batch: ${txHash}`);
+    })();
+    pendingPermitBatches.set(key, pending);
+    const done = () => { pendingPermitBatches.delete(key); };
+    pending.then(done, done);
+  }
+  await pending;
+}
+
+/**
+ * Check that the Aptos recipient can receive USDC, creating its account if the request allows it
+ * @returns Hash of the account creation, if the sponsor created the account
+ * @throws FluidError (RECIPIENT_INVALID)
+ */
+async function ensureAptosRecipient(
+  ctx: TransferContext,
+  request: CctpTransferRequest,
+  address: string,
+  run: StageRun
+): Promise<string | undefined> {
+  const { logger, emit } = run;
+
+  if (!isAptosAddress(address)) {
+    throw new FluidError('RECIPIENT_INVALID', `Invalid Aptos address "${address}": expected 64 hex characters`, { stage: "initiated" });
+  }
+
+  const usdcAddress = APTOS_CHAINS[ctx.network as keyof typeof APTOS_CHAINS].usdcAddress;
+  const status = await getAptosRecipientStatus(ctx.aptosSigner.client, address, usdcAddress);
+  if (status.frozen) {
+    throw new FluidError('RECIPIENT_INVALID', `Aptos recipient ${address} can't receive USDC: its USDC store is frozen`, { stage: "initiated" });
+  }
+  if (status.exists) {
+    return undefined;
+  }
+  if (!request.createRecipientAccount) {
+    throw new FluidError(
+      'RECIPIENT_INVALID',
+      `Aptos account ${address} does not exist; set createRecipientAccount to have the sponsor create it`,
+      { stage: "initiated" }
+    );
+  }
+
+  const funding = recipientAptFunding(ctx, request);
+  logger.info(`Creating Aptos account ${address} (funding: ${funding} octas)...`);
+  const txHash = await createAptosAccount(ctx.aptosSigner, address, funding);
+  logger.info(`Aptos account created: ${txHash}`);
+  emit({ type: "recipient-created", chain: "Aptos", address, txHash, funding: funding.toString() });
+
+  return txHash;
+}
+
+/**
+ * APT the sponsor sends to a recipient account it creates, in octas
+ * @throws FluidError (INVALID_REQUEST) if it's malformed or above `Config.maxRecipientAptFunding`
+ */
+export function recipientAptFunding(ctx: TransferContext, request: CctpTransferRequest): bigint {
+  if (!request.recipientAptFunding) {
+    return 0n;
+  }
+  const funding = parseDecimalAmount(request.recipientAptFunding, APT_DECIMALS, "recipientAptFunding");
+  const max = ctx.config.maxRecipientAptFunding ?? DEFAULT_MAX_RECIPIENT_APT_FUNDING;
+  if (funding > parseDecimalAmount(max, APT_DECIMALS, "maxRecipientAptFunding")) {
+    throw new FluidError('INVALID_REQUEST', `recipientAptFunding ${request.recipientAptFunding} APT is above the maximum of ${max} APT`);
+  }
+  return funding;
+}
+
+/**
+ * A user wallet authorization that passed verification
+ */
+export type VerifiedAuthorization = (
+  | { method: 'permit2'; permit: Permit2Permit }
+  | { method: 'permit2-batch'; permit: Permit2AllowanceBatch }
+  | { method: 'eip2612'; permit: Eip2612Permit }
+) & { digest: string }; // EIP-712 digest of the signed permit
+
+/**
+ * Verify a user wallet's authorization without moving any funds
+ *
+ * Checks the signature, that the permit lets the sponsor spend USDC on the
+ * configured EVM chain, and that its witness (if any) names the recipient.
+ * @returns The verified authorization, or undefined for the "dummy" placeholder
+ * @throws AuthorizationError (or INVALID_REQUEST if the RPC is on another chain)
+ */
+export async function verifyTransferAuthorization(
+  ctx: TransferContext,
+  request: CctpTransferRequest,
+  amount: bigint,
+  logger: Logger
+): Promise<VerifiedAuthorization | undefined> {
+  const { baseSigner, evmChain, dstChainName } = ctx;
+  const owner = request.fromAddress!;
+
+  if (!request.signature) {
+    throw new AuthorizationError('AUTH_MISSING_SIGNATURE', "Signature is required when using user wallet");
+  }
+
+  // Get chain ID for Permit2 verification
+  const network = await baseSigner.provider.getNetwork();
+  const chainId = Number(network.chainId);
+  if (chainId !== evmChain.chainId) {
+    throw new FluidError('INVALID_REQUEST', `RPC is connected to chain ${chainId}, but ${evmChain.key} is chain ${evmChain.chainId}`);
+  }
+
+  // Placeholder validation for testing
+  if (request.signature === "dummy") {
+    logger.warn(`Using placeholder signature. In production, this must be replaced with Permit2 EIP-712 validation.`);
+    return undefined;
+  }
+
+  if (request.authorization?.kind === "eip2612") {
+    const { permit } = request.authorization;
+    if (!permit) {
+      throw new AuthorizationError('AUTH_INVALID_SIGNATURE', `EIP-2612 permit is required with an eip2612 authorization`);
+    }
+    assertSponsorAndToken(ctx, permit, "Permit");
+    const signatureStore = request.signatureStore ?? getDefaultSignatureReplayStore();
+    const digest = await verifyEip2612Authorization(
+      owner, amount, request.signature, permit, baseSigner.provider, logger, signatureStore, request.transferId
+    );
+    await assertSignatureUnused(signatureStore, digest, request.transferId);
+    return { method: "eip2612", permit, digest };
+  }
+
+  if (!request.permitData && !request.permitBatch) {
+    throw new AuthorizationError('AUTH_INVALID_SIGNATURE', `Permit data is required to pull USDC with a Permit2 signature`);
+  }
+
+  if (request.permitBatch) {
+    const batch = request.permitBatch;
+    assertSponsorAndToken(ctx, { spender: batch.spender, token: evmChain.usdcAddress }, "Permit batch");
+    await verifyPermitBatchAuthorization(
+      owner, evmChain.usdcAddress, amount, request.signature, batch, chainId, logger, baseSigner.provider
+    );
+    const digest = hashPermit2BatchPermit(batch, chainId);
+    await assertPermitBatchRequester(request.signatureStore ?? getDefaultSignatureReplayStore(), digest, request.requester);
+    return { method: "permit2-batch", permit: batch, digest };
+  }
+
+  const destination = {
+    recipient: request.destAddress || sponsorAddress(ctx, dstChainName),
+    destinationDomain: dstChainName === "Aptos"
+      ? APTOS_CHAINS[ctx.network as keyof typeof APTOS_CHAINS].circleDomain
+      : evmChain.circleDomain,
+  };
+  const permit = request.permitData!;
+  await verifyUserAuthorization(owner, amount, request.signature, permit, chainId, logger, baseSigner.provider, destination);
+
+  assertSponsorAndToken(ctx, permit, "Permit");
+  const digest = hashPermit2Permit(permit, chainId);
+  await assertSignatureUnused(request.signatureStore ?? getDefaultSignatureReplayStore(), digest, request.transferId);
+  return { method: "permit2", permit, digest };
+}
+
+/**
+ * Check that a permit's spender is the sponsor and its token is USDC on the source chain
+ * @throws AuthorizationError (AUTH_SPENDER_MISMATCH, AUTH_TOKEN_MISMATCH)
+ */
+function assertSponsorAndToken(ctx: TransferContext, permit: { spender: string; token: string }, label: string): void {
+  const { baseSigner, evmChain } = ctx;
+  if (permit.spender.toLowerCase() !== baseSigner.address.toLowerCase()) {
+    throw new AuthorizationError(
+      'AUTH_SPENDER_MISMATCH',
+      `${label} spender (${permit.spender}) must be the sponsor wallet (${baseSigner.address})`
+    );
+  }
+  if (permit.token.toLowerCase() !== evmChain.usdcAddress.toLowerCase()) {
+    throw new AuthorizationError(
+      'AUTH_TOKEN_MISMATCH',
+      `${label} token (${permit.token}) is not USDC on ${evmChain.displayName} (${evmChain.usdcAddress})`
+    );
+  }
+}
+
+/**
+ * Check that the Wormhole CCTP relayer serves both chains of the context
+ */
+export function assertRelaySupported(ctx: TransferContext): void {
+  for (const chain of [ctx.srcChainName, ctx.dstChainName]) {
+    if (!ctx.wh.getChain(chain).supportsAutomaticCircleBridge()) {
+      throw new FluidError(
+        'RELAY_UNSUPPORTED',
+        `Automatic CCTP relaying is not available on ${chain} (${ctx.network}); use a manual transfer`,
+        { stage: "initiated" }
+      );
+    }
+  }
+}
+
+/**
+ * Poll the destination chain until the relayer has minted an automatic transfer
+ */
+async function waitForRelayer(
+  ctx: TransferContext,
+  circleTransfer: CircleTransfer<any>,
+  receipt: CctpTransferReceipt,
+  timeout: number,
+  run: StageRun
+): Promise<void> {
+  const { logger, emit } = run;
+  const attestation = (circleTransfer.attestations ?? [])
+    .map((a) => a.attestation)
+    .find((a) => a && CircleBridge.isCircleAttestation(a));
+  if (!attestation) {
+    throw new AttestationTimeoutError('Attestation not received after timeout', { sourceTx: receipt.sourceTx });
+  }
+
+  logger.info(`Waiting for the relayer to complete the transfer on ${ctx.dstChainName}...`);
+  const dstChain = ctx.wh.getChain(ctx.dstChainName);
+  const startTime = Date.now();
+  while (!(await CircleTransfer.isTransferComplete(dstChain, attestation))) {
+    const elapsedMs = Date.now() - startTime;
+    if (elapsedMs >= timeout) {
+      throw new DestinationError(
+        `Relayer has not completed the transfer on ${ctx.dstChainName} after ${Math.floor(timeout / 1000)} seconds`,
+        { sourceTx: receipt.sourceTx }
+      );
+    }
+    emit({ type: "relay-wait", sourceTx: receipt.sourceTx, elapsedMs });
+    await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
+  }
+  logger.info(`Relayer completed the transfer on ${ctx.dstChainName}`);
+}
+
+/**
+ * Sponsor address on one of the context's chains
+ */
+export function sponsorAddress(ctx: TransferContext, chain: TransferContext["srcChainName"]): string {
+  return chain === "Aptos" ? ctx.aptosSigner.address : ctx.baseSigner.address;
+}
+
+/**
+ * Wrap the sponsor for one of the context's chains into an SDK Signer
+ * @param onSigned - Called with every EVM transaction the signer signs
+ */
+async function sponsorSdkSigner(
+  ctx: TransferContext,
+  chain: TransferContext["srcChainName"],
+  onSigned?: (transaction: TrackedTransaction) => void
+): Promise<Signer<Network, any>> {
+  if (chain === "Aptos") {
+    return toAptosSdkSigner(ctx.aptosSigner.account, ctx.aptosSigner.client, chain);
+  }
+  return toEvmSdkSigner(onSigned ? ctx.nonceManager.createSigner(onSigned) : ctx.nonceManager.signer, chain);
+}
+
+/**
+ * Explorer link for a transaction on one of the context's chains
+ */
+function explorerTxUrl(ctx: TransferContext, chain: TransferContext["srcChainName"], txHash: string): string {
+  const info = chain === "Aptos" ? APTOS_CHAINS[ctx.network as keyof typeof APTOS_CHAINS] : ctx.evmChain;
+  return getExplorerTxUrl(info, txHash);
+}
+
+function createStageRun(
+  transferId: string | undefined,
+  options: { store?: TransferStore; onProgress?: ProgressListener; webhooks?: WebhookEndpoint[]; logger?: Logger },
+  context?: TransferContext
+): StageRun {
+  const logger = options.logger ?? context?.logger ?? silentLogger;
+  // Lifecycle events also go to the global webhooks and the ones of this request
+  const webhooks = getWebhookDispatcher();
+  const listener: ProgressListener = (event) => {
+    webhooks.dispatch(event, options.webhooks);
+    options.onProgress?.(event);
+  };
+  return {
+    transferId,
+    store: options.store,
+    logger,
+    emit: createProgressEmitter(listener, transferId, logger),
+  };
+}
+
+/**
+ * Run a stage, recording its resulting receipt (or its failure) in the store
+ *
+ * Any error is normalized into a FluidError tagged with the attempted stage.
+ */
+async function trackStage(
+  run: StageRun,
+  previousStage: TransferStage | undefined,
+  attemptedStage: TransferStage,
+  sourceTx: string | undefined,
+  stage: () => Promise<CctpTransferReceipt>
+): Promise<CctpTransferReceipt> {
+  const { store, transferId } = run;
+  try {
+    const receipt = await stage();
+    if (store && receipt.transferId && receipt.stage !== previousStage) {
+      await recordTransferReceipt(store, receipt.transferId, receipt);
+    }
+    return receipt;
+  } catch (error) {
+    const fluidError = toFluidError(error, attemptedStage, sourceTx);
+    run.emit({
+      type: "failed",
+      stage: fluidError.stage ?? attemptedStage,
+      code: fluidError.code,
+      retryable: fluidError.retryable,
+      error: fluidError.message,
+    });
+    if (store && transferId) {
+      await recordTransferFailure(store, transferId, fluidError.message, fluidError.code);
+    }
+    throw fluidError;
+  }
+}
+
+/**
+ * Rebuild the CircleTransfer for a receipt, checking it matches the configured chains
+ */
+async function loadCircleTransfer(
+  ctx: TransferContext,
+  receipt: CctpTransferReceipt,
+  timeout: number
+): Promise<CircleTransfer<any>> {
+  if (receipt.network !== ctx.network) {
+    throw new FluidError('RECEIPT_INVALID', `Receipt is for ${receipt.network} but the SDK is configured for ${ctx.network}`);
+  }
+  if (receipt.sourceChain !== ctx.srcChainName) {
+    throw new FluidError('RECEIPT_INVALID', `Receipt source chain ${receipt.sourceChain} does not match configured chain ${ctx.srcChainName}`);
+  }
+
+  return fetchCircleTransfer(ctx, receipt.sourceTx, timeout);
+}
+
+/**
+ * Rebuild a CircleTransfer from a source transaction and fetch its attestation
+ */
+async function fetchCircleTransfer(
+  ctx: TransferContext,
+  sourceTx: string,
+  timeout: number
+): Promise<CircleTransfer<any>> {
+  try {
+    // CircleTransfer.from parses the burn from the source tx and fetches the attestation
+    return await CircleTransfer.from(
+      ctx.wh,
+      { chain: ctx.srcChainName, txid: sourceTx },
+      timeout
+    );
+  } catch (error: any) {
+    throw new AttestationTimeoutError(
+      `Attestation not received after ${Math.floor(timeout / 1000)} seconds. ` +
+      `This can happen if Circle's attestation service is slow. ` +
+      `Please check the transaction on the ${ctx.srcChainName} explorer and try again later: ` +
+      `${explorerTxUrl(ctx, ctx.srcChainName, sourceTx)} ` +
+      `Error: ${error.message}`,
+      { sourceTx, cause: error }
+    );
+  }
+}
+
+/**
+ * Extract the Circle message hash from a transfer's attestations
+ */
+function getAttestationId(circleTransfer: CircleTransfer<any>): string {
+  const ids: AttestationId[] = (circleTransfer.attestations ?? []).map((a) => a.id);
+  const circleId = ids.find((id) => isCircleMessageId(id));
+  if (!circleId) {
+    throw new AttestationTimeoutError('Attestation not received after timeout');
+  }
+  return circleId.hash;
+}
+
+/**
+ * Replace stuck sponsor transactions on the EVM chain before sending a new one
+ *
+ * Nonces come from the context's NonceManager, so transactions that are merely
+ * pending (e.g. from a concurrent transfer) don't block.
+ */
+async function resolveStuckTransactions(ctx: TransferContext, run: StageRun): Promise<void> {
+  const { nonceManager } = ctx;
+  const { emit } = run;
+
+  const replacements = await nonceManager.resolveStuckTransactions((status) =>
+    emit({ type: "nonce-wait", address: nonceManager.address, ...status })
+  );
+  for (const { hash, ...replacement } of replacements) {
+    emit({ type: "nonce-replaced", address: nonceManager.address, txHash: hash, ...replacement });
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Transfer Store
+ *
+ * Persists every transfer request, stage transition, tx hash and attestation ID
+ * so transfers can be audited and shown to users as history. Ships with an
+ * in-memory store and a JSON-file store; any database can be plugged in by
+ * implementing the TransferStore interface.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { CctpTransferReceipt, TransferNetwork, TransferStage } from "./types";
+import { FluidErrorCode } from "./errors";
+
+/**
+ * Status of a stored transfer
+ * - pending: request received, nothing sent yet
+ * - initiated / attested / completed: see TransferStage
+ * - failed: the last stage that ran threw (see `error`)
+ */
+export type TransferStatus = 'pending' | TransferStage | 'failed';
+
+/**
+ * One entry in a transfer's status history
+ */
+export interface TransferStatusChange {
+  status: TransferStatus;
+  at: string; // ISO timestamp
+  txHash?: string; // Transaction sent in this stage, if any
+  error?: string;
+  errorCode?: FluidErrorCode;
+}
+
+/**
+ * Stored transfer (JSON-serializable)
+ */
+export interface TransferRecord {
+  id: string;
+  status: TransferStatus;
+  network?: TransferNetwork;
+  sourceChain?: string;
+  destinationChain?: string;
+  requestedAmount: string; // Amount as requested, in USDC (e.g., "1.0")
+  amount?: string; // Amount in smallest units, once known
+  sourceAddress?: string; // User wallet, or sponsor wallet if no user wallet was given
+  recipientAddress?: string;
+  sourceTx?: string;
+  attestationId?: string;
+  destinationTx?: string;
+  error?: string;
+  errorCode?: FluidErrorCode;
+  history: TransferStatusChange[];
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Filters for TransferStore.query. All given filters must match.
+ */
+export interface TransferQuery {
+  sourceAddress?: string;
+  recipient?: string;
+  status?: TransferStatus | TransferStatus[];
+  sourceTx?: string;
+  from?: Date | string; // createdAt >= from
+  to?: Date | string; // createdAt <= to
+  limit?: number;
+}
+
+/**
+ * Pluggable persistence for transfer records
+ */
+export interface TransferStore {
+  /** Insert or replace a record */
+  put(record: TransferRecord): Promise<void>;
+  /** Get a record by ID */
+  get(id: string): Promise<TransferRecord | undefined>;
+  /** Find records matching a query, newest first */
+  query(query?: TransferQuery): Promise<TransferRecord[]>;
+}
+
+/**
+ * In-memory transfer store (records are lost when the process exits)
+ */
+export class InMemoryTransferStore implements TransferStore {
+  private records = new Map<string, TransferRecord>();
+
+  async put(record: TransferRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async get(id: string): Promise<TransferRecord | undefined> {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  async query(query: TransferQuery = {}): Promise<TransferRecord[]> {
+    return filterTransferRecords([...this.records.values()], query).map((r) => structuredClone(r));
+  }
+}
+
+/**
+ * Transfer store backed by a single JSON file
+ *
+ * The file is re-read on every operation, so several processes can share it as
+ * long as they don't write at the same moment. Writes go through a temp file
+ * and a rename so a crash never leaves a half-written file.
+ */
+export class JsonFileTransferStore implements TransferStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async put(record: TransferRecord): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const records = await this.load();
+      records[record.id] = record;
+      await this.save(records);
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async get(id: string): Promise<TransferRecord | undefined> {
+    const records = await this.load();
+    return records[id];
+  }
+
+  async query(query: TransferQuery = {}): Promise<TransferRecord[]> {
+    const records = await this.load();
+    return filterTransferRecords(Object.values(records), query);
+  }
+
+  private async load(): Promise<Record<string, TransferRecord>> {
+    try {
+      const json = await fs.readFile(this.filePath, "utf8");
+      return JSON.parse(json) as Record<string, TransferRecord>;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async save(records: Record<string, TransferRecord>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(records, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Apply a query to a list of records, newest first
+ */
+export function filterTransferRecords(records: TransferRecord[], query: TransferQuery = {}): TransferRecord[] {
+  const statuses = query.status === undefined
+    ? undefined
+    : Array.isArray(query.status) ? query.status : [query.status];
+  const from = query.from !== undefined ? new Date(query.from).getTime() : undefined;
+  const to = query.to !== undefined ? new Date(query.to).getTime() : undefined;
+
+  const matches = records.filter((record) => {
+    const createdAt = new Date(record.createdAt).getTime();
+    return (
+      (!query.sourceAddress || sameAddress(record.sourceAddress, query.sourceAddress)) &&
+      (!query.recipient || sameAddress(record.recipientAddress, query.recipient)) &&
+      (!query.sourceTx || sameAddress(record.sourceTx, query.sourceTx)) &&
+      (!statuses || statuses.includes(record.status)) &&
+      (from === undefined || createdAt >= from) &&
+      (to === undefined || createdAt <= to)
+    );
+  });
+
+  matches.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+}
+
+/**
+ * Create and store a record for a new transfer request
+ * @returns The new record
+ */
+export async function recordTransferRequest(
+  store: TransferStore,
+  request: { amount: string; fromAddress?: string; destAddress?: string },
+  id: string = randomUUID()
+): Promise<TransferRecord> {
+  const now = new Date().toISOString();
+  const record: TransferRecord = {
+    id,
+    status: "pending",
+    requestedAmount: request.amount,
+    sourceAddress: request.fromAddress,
+    recipientAddress: request.destAddress,
+    history: [{ status: "pending", at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.put(record);
+  return record;
+}
+
+/**
+ * Record that a transfer reached the stage in its receipt
+ *
+ * Creates the record if it doesn't exist yet (e.g. a receipt rebuilt from chain data).
+ * @returns The updated record
+ */
+export async function recordTransferReceipt(
+  store: TransferStore,
+  transferId: string,
+  receipt: CctpTransferReceipt
+): Promise<TransferRecord> {
+  const existing = await store.get(transferId);
+  const now = new Date().toISOString();
+
+  const txHash =
+    receipt.stage === "initiated" ? receipt.sourceTx :
+    receipt.stage === "completed" ? receipt.destinationTx :
+    undefined;
+
+  const record: TransferRecord = {
+    ...(existing ?? {
+      id: transferId,
+      requestedAmount: (Number(receipt.amount) / 1_000_000).toString(),
+      history: [],
+      createdAt: receipt.createdAt,
+    }),
+    status: receipt.stage,
+    network: receipt.network,
+    sourceChain: receipt.sourceChain,
+    destinationChain: receipt.destinationChain,
+    amount: receipt.amount,
+    sourceAddress: receipt.userAddress ?? receipt.senderAddress,
+    recipientAddress: receipt.recipientAddress,
+    sourceTx: receipt.sourceTx,
+    attestationId: receipt.attestationId,
+    destinationTx: receipt.destinationTx,
+    error: undefined,
+    errorCode: undefined,
+    updatedAt: now,
+  };
+  record.history = [...record.history, { status: receipt.stage, at: now, ...(txHash ? { txHash } : {}) }];
+
+  await store.put(record);
+  return record;
+}
+
+/**
+ * Record that a transfer failed
+ * @returns The updated record, or undefined if the transfer is unknown to the store
+ */
+export async function recordTransferFailure(
+  store: TransferStore,
+  transferId: string,
+  error: string,
+  errorCode?: FluidErrorCode
+): Promise<TransferRecord | undefined> {
+  const existing = await store.get(transferId);
+  if (!existing) {
+    return undefined;
+  }
+
+  const now = new Date().toISOString();
+  const record: TransferRecord = {
+    ...existing,
+    status: "failed",
+    error,
+    errorCode,
+    history: [...existing.history, { status: "failed", at: now, error, errorCode }],
+    updatedAt: now,
+  };
+  await store.put(record);
+  return record;
+}
+
+function sameAddress(a: string | undefined, b: string): boolean {
+  return !!a && a.toLowerCase() === b.toLowerCase();
+}
@@ -1,9 +1,69 @@
+import type { FluidErrorCode } from './errors';
+import type { PreflightReport } from './preflight';
+
 export interface TransferResult {
   success: boolean;
-  sourceTx?: string;
+  sourceTx?: string; // Set whenever the burn happened, even if a later stage failed
+  permitTx?: string; // Transaction that pulled the user's USDC, if the transfer failed after it
   attestationId?: string;
   destinationTx?: string;
   error?: string;
+  errorCode?: FluidErrorCode; // Stable error code (see FluidError)
+  failedStage?: TransferStage; // Stage that was being attempted when the transfer failed
+  retryable?: boolean; // Whether retrying (resuming from `receipt`, if set) is safe
+  transferId?: string; // ID of the transfer (matches the TransferStore record, if a store is used)
+  relayerFee?: string; // Relayer fee in USDC smallest units (automatic transfers only)
+  receipt?: CctpTransferReceipt; // Last known transfer receipt (use it to resume a failed transfer)
+  preflight?: PreflightReport; // Checks run by a dry run (nothing was sent)
+  inProgress?: boolean; // A transfer with the same idempotency key is still running (see `transferId`)
+}
+
+/**
+ * Direction of a transfer
+ * - base-to-aptos: burn on Base, mint on Aptos
+ * - aptos-to-base: burn on Aptos, mint on Base
+ * "Base" is the configured EVM chain (`Config.sourceChain`, Base by default).
+ */
+export type TransferDirection = 'base-to-aptos' | 'aptos-to-base';
+
+/**
+ * Wormhole network a transfer runs on
+ */
+export type TransferNetwork = 'Mainnet' | 'Testnet';
+
+/**
+ * Stage a transfer has reached
+ * - initiated: USDC burned on the source chain
+ * - attested: Circle attestation received
+ * - completed: USDC minted on the destination chain
+ */
+export type TransferStage = 'initiated' | 'attested' | 'completed';
+
+/**
+ * Serializable record of a transfer's progress.
+ * Every stage returns one, and any stage can resume from it in a fresh process.
+ */
+export interface CctpTransferReceipt {
+  version: 1;
+  transferId?: string; // ID of the transfer (matches the TransferStore record, if a store is used)
+  stage: TransferStage;
+  network: TransferNetwork;
+  sourceChain: string; // Wormhole chain name (e.g., "BaseSepolia", "ArbitrumSepolia", "Aptos")
+  destinationChain: string; // Wormhole chain name (e.g., "Aptos")
+  amount: string; // Amount in smallest units (USDC has 6 decimals)
+  senderAddress: string; // Wallet that burned the USDC (the sponsor for user wallet transfers)
+  recipientAddress: string;
+  userAddress?: string; // User wallet the USDC was pulled from with Permit2, if any
+  permitTx?: string; // Permit2 transfer that pulled the user's USDC, if any
+  recipientAccountTx?: string; // Aptos account creation sent by the sponsor, if any
+  automatic?: boolean; // Relayed by the Wormhole CCTP relayer instead of the sponsor
+  relayerFee?: string; // Relayer fee in USDC smallest units (automatic only)
+  nativeGas?: string; // USDC smallest units swapped for destination gas (automatic only)
+  sourceTx: string;
+  attestationId?: string; // Circle message hash
+  destinationTx?: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
 }
 
 export interface EvmSignerResult {
@@ -0,0 +1,482 @@
+/**
+ * Signed Webhooks
+ *
+ * Posts transfer lifecycle events (source confirmed, attestation received,
+ * completed, failed) to HTTP endpoints. Endpoints can be registered globally
+ * on the shared dispatcher or passed per request as `request.webhooks`. Every
+ * payload is signed with HMAC-SHA256, failed deliveries are retried with
+ * exponential backoff, and every attempt is kept in a delivery log.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import axios from "axios";
+import { TransferProgressEvent } from "./events";
+import { Logger, silentLogger } from "./logger";
+import type { RetryPolicy } from "./jobQueue";
+
+/**
+ * Webhook event types and the progress events they are sent for
+ */
+export const WEBHOOK_EVENT_TYPES = {
+  'transfer.source_confirmed': 'source-sent',
+  'transfer.attested': 'attestation-received',
+  'transfer.completed': 'completed',
+  'transfer.failed': 'failed',
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENT_TYPES;
+
+/**
+ * Header carrying the signature: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "x-fluid-signature";
+
+/**
+ * Default retry policy of a delivery
+ */
+export const DEFAULT_WEBHOOK_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 2000,
+  maxDelayMs: 60_000,
+  multiplier: 3,
+};
+
+/**
+ * Default timeout of one delivery attempt
+ */
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Default age after which a signature is rejected by verifyWebhookSignature
+ */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface WebhookEndpoint {
+  url: string;
+  secret: string; // Shared secret of the HMAC-SHA256 signature
+  events?: WebhookEventType[]; // Optional: Only these events (default: all)
+}
+
+/**
+ * Body posted to an endpoint
+ */
+export interface WebhookPayload {
+  id: string; // Event ID (the same in every delivery and retry of the event)
+  type: WebhookEventType;
+  transferId?: string;
+  createdAt: string; // ISO timestamp of the progress event
+  data: TransferProgressEvent;
+}
+
+/**
+ * One attempt to deliver an event
+ */
+export interface WebhookDeliveryAttempt {
+  at: string; // ISO timestamp
+  statusCode?: number; // HTTP status, if a response was received
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Delivery of one event to one endpoint
+ * - pending: not delivered yet, retries remain
+ * - delivered: the endpoint answered 2xx
+ * - failed: every attempt failed
+ */
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  type: WebhookEventType;
+  transferId?: string;
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: string; // ISO timestamp of the next retry, while pending
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Filter for listing deliveries
+ */
+export interface WebhookDeliveryQuery {
+  transferId?: string;
+  url?: string;
+  status?: WebhookDelivery["status"] | WebhookDelivery["status"][];
+  limit?: number;
+}
+
+/**
+ * Storage backend for the delivery log
+ */
+export interface WebhookDeliveryLog {
+  put(delivery: WebhookDelivery): Promise<void>;
+  get(id: string): Promise<WebhookDelivery | undefined>;
+  list(query?: WebhookDeliveryQuery): Promise<WebhookDelivery[]>;
+}
+
+/**
+ * Keeps deliveries in memory (lost when the process exits)
+ */
+export class InMemoryWebhookDeliveryLog implements WebhookDeliveryLog {
+  private readonly deliveries = new Map<string, WebhookDelivery>();
+
+  async put(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, structuredClone(delivery));
+  }
+
+  async get(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.deliveries.get(id);
+    return delivery ? structuredClone(delivery) : undefined;
+  }
+
+  async list(query: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    return filterWebhookDeliveries([...this.deliveries.values()], query).map((delivery) => structuredClone(delivery));
+  }
+}
+
+/**
+ * Keeps deliveries in a JSON file (one object keyed by delivery ID)
+ */
+export class JsonFileWebhookDeliveryLog implements WebhookDeliveryLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async put(delivery: WebhookDelivery): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const deliveries = await this.load();
+      deliveries[delivery.id] = delivery;
+      await this.save(deliveries);
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async get(id: string): Promise<WebhookDelivery | undefined> {
+    const deliveries = await this.load();
+    return deliveries[id];
+  }
+
+  async list(query: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    const deliveries = await this.load();
+    return filterWebhookDeliveries(Object.values(deliveries), query);
+  }
+
+  private async load(): Promise<Record<string, WebhookDelivery>> {
+    try {
+      const json = await fs.readFile(this.filePath, "utf8");
+      return JSON.parse(json) as Record<string, WebhookDelivery>;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async save(deliveries: Record<string, WebhookDelivery>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(deliveries, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Apply a query to a list of deliveries, newest first
+ */
+export function filterWebhookDeliveries(
+  deliveries: WebhookDelivery[],
+  query: WebhookDeliveryQuery = {}
+): WebhookDelivery[] {
+  const statuses = query.status === undefined
+    ? undefined
+    : Array.isArray(query.status) ? query.status : [query.status];
+
+  const matches = deliveries
+    .filter((delivery) =>
+      (!query.transferId || delivery.transferId === query.transferId) &&
+      (!query.url || delivery.url === query.url) &&
+      (!statuses || statuses.includes(delivery.status))
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+}
+
+/**
+ * Sign a webhook body
+ * @param secret - Shared secret of the endpoint
+ * @param body - Exact JSON body that is posted
+ * @param timestamp - Unix time in seconds (default: now)
+ * @returns Value of the signature header
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/**
+ * Verify the signature header of a received webhook (for receivers)
+ * @param secret - Shared secret of the endpoint
+ * @param body - Raw request body, exactly as received
+ * @param header - Value of the x-fluid-signature header
+ * @param toleranceSeconds - Reject signatures older than this (replay protection)
+ * @returns true if the body was signed with the secret within the tolerance
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = Object.fromEntries(header.split(",").map((part) => part.trim().split("=", 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) {
+    return false;
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split("v1=")[1], "hex");
+  const received = Buffer.from(parts.v1, "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+export interface WebhookDispatcherOptions {
+  endpoints?: WebhookEndpoint[]; // Optional: Endpoints that receive the events of every transfer
+  retryPolicy?: Partial<RetryPolicy>; // Optional: Override the default retry policy
+  deliveryLog?: WebhookDeliveryLog; // Optional: Where deliveries are logged (default: in memory)
+  timeoutMs?: number; // Optional: Timeout of one attempt (default: 10 seconds)
+  logger?: Logger; // Optional: Logger for diagnostics (silent by default)
+}
+
+/**
+ * Sends lifecycle events to webhook endpoints
+ *
+ * Deliveries run in the background and never slow down or fail a transfer.
+ * Retries wait on timers that don't keep the process alive; call `flush()`
+ * before exiting to wait for pending deliveries.
+ */
+export class WebhookDispatcher {
+  private readonly endpoints: WebhookEndpoint[];
+  private readonly retryPolicy: RetryPolicy;
+  private readonly deliveryLog: WebhookDeliveryLog;
+  private readonly timeoutMs: number;
+  private readonly logger: Logger;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(options: WebhookDispatcherOptions = {}) {
+    this.endpoints = [...(options.endpoints ?? [])];
+    this.retryPolicy = { ...DEFAULT_WEBHOOK_RETRY_POLICY, ...options.retryPolicy };
+    this.deliveryLog = options.deliveryLog ?? new InMemoryWebhookDeliveryLog();
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Send the events of every transfer to an endpoint
+   */
+  register(endpoint: WebhookEndpoint): void {
+    this.unregister(endpoint.url);
+    this.endpoints.push(endpoint);
+  }
+
+  /**
+   * Stop sending events to an endpoint registered with `register`
+   */
+  unregister(url: string): void {
+    const index = this.endpoints.findIndex((endpoint) => endpoint.url === url);
+    if (index >= 0) {
+      this.endpoints.splice(index, 1);
+    }
+  }
+
+  get deliveries(): WebhookDeliveryLog {
+    return this.deliveryLog;
+  }
+
+  /**
+   * Send a progress event to the registered endpoints and `extraEndpoints`
+   *
+   * Progress events without a webhook event type are ignored.
+   * @returns The deliveries that were started
+   */
+  dispatch(event: TransferProgressEvent, extraEndpoints: WebhookEndpoint[] = []): WebhookDelivery[] {
+    const type = webhookEventType(event);
+    if (!type) {
+      return [];
+    }
+
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      type,
+      transferId: event.transferId,
+      createdAt: event.timestamp,
+      data: event,
+    };
+    const body = JSON.stringify(payload);
+
+    return [...this.endpoints, ...extraEndpoints]
+      .filter((endpoint) => !endpoint.events || endpoint.events.includes(type))
+      .map((endpoint) => {
+        const delivery: WebhookDelivery = {
+          id: randomUUID(),
+          eventId: payload.id,
+          type,
+          transferId: event.transferId,
+          url: endpoint.url,
+          status: "pending",
+          attempts: [],
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+        this.track(this.deliver(delivery, endpoint, body));
+        return delivery;
+      });
+  }
+
+  /**
+   * Wait until every pending delivery was delivered or failed
+   */
+  async flush(): Promise<void> {
+    // Retry timers are unref'd; keep the process alive while waiting for them
+    const keepAlive = setInterval(() => undefined, 1000);
+    try {
+      while (this.inFlight.size > 0) {
+        await Promise.all(this.inFlight);
+      }
+    } finally {
+      clearInterval(keepAlive);
+    }
+  }
+
+  private track(run: Promise<void>): void {
+    const tracked = run
+      .catch((error) => this.logger.error(`Webhook delivery could not be logged:`, error))
+      .finally(() => this.inFlight.delete(tracked));
+    this.inFlight.add(tracked);
+  }
+
+  /**
+   * Post the body until the endpoint accepts it or the attempts run out
+   */
+  private async deliver(delivery: WebhookDelivery, endpoint: WebhookEndpoint, body: string): Promise<void> {
+    await this.deliveryLog.put(delivery);
+
+    while (delivery.status === "pending") {
+      const startedAt = Date.now();
+      const attempt: WebhookDeliveryAttempt = { at: new Date(startedAt).toISOString(), durationMs: 0 };
+      try {
+        const response = await axios.post(endpoint.url, body, {
+          headers: {
+            "content-type": "application/json",
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body),
+            "x-fluid-event": delivery.type,
+            "x-fluid-delivery": delivery.id,
+          },
+          timeout: this.timeoutMs,
+          maxRedirects: 0, // A redirect could point the signed POST at another host
+          validateStatus: () => true,
+        });
+        attempt.statusCode = response.status;
+        if (response.status < 200 || response.status >= 300) {
+          attempt.error = `HTTP ${response.status}`;
+        }
+      } catch (error: any) {
+        attempt.error = error?.message ?? String(error);
+      }
+      attempt.durationMs = Date.now() - startedAt;
+      delivery.attempts.push(attempt);
+
+      const attempts = delivery.attempts.length;
+      if (!attempt.error) {
+        delivery.status = "delivered";
+        delivery.nextAttemptAt = undefined;
+      } else if (attempts >= this.retryPolicy.maxAttempts) {
+        delivery.status = "failed";
+        delivery.nextAttemptAt = undefined;
+        this.logger.warn(`Webhook ${delivery.type} to ${delivery.url} failed after ${attempts} attempt(s): ${attempt.error}`);
+      } else {
+        const delay = Math.min(
+          this.retryPolicy.maxDelayMs,
+          this.retryPolicy.initialDelayMs * this.retryPolicy.multiplier ** (attempts - 1)
+        );
+        delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+        this.logger.debug(`Webhook ${delivery.type} to ${delivery.url} failed (${attempt.error}); retrying in ${delay}ms`);
+      }
+
+      delivery.updatedAt = new Date().toISOString();
+      await this.deliveryLog.put(delivery);
+      if (delivery.nextAttemptAt) {
+        await sleep(new Date(delivery.nextAttemptAt).getTime() - Date.now());
+      }
+    }
+  }
+}
+
+let sharedDispatcher: WebhookDispatcher | undefined;
+
+/**
+ * The dispatcher used by every transfer (endpoints registered on it receive all transfers)
+ */
+export function getWebhookDispatcher(): WebhookDispatcher {
+  sharedDispatcher ??= new WebhookDispatcher();
+  return sharedDispatcher;
+}
+
+/**
+ * Replace the shared dispatcher (e.g. to log deliveries to a file or change the retry policy)
+ */
+export function setWebhookDispatcher(dispatcher: WebhookDispatcher): void {
+  sharedDispatcher = dispatcher;
+}
+
+/**
+ * Webhook event type of a progress event, if it has one
+ */
+export function webhookEventType(event: TransferProgressEvent): WebhookEventType | undefined {
+  const entry = Object.entries(WEBHOOK_EVENT_TYPES).find(([, progressType]) => progressType === event.type);
+  return entry?.[0] as WebhookEventType | undefined;
+}
+
+/**
+ * Whether a webhook URL is covered by an allow-list
+ *
+ * Each entry is a URL prefix (e.g. "https://hooks.example.com/fluid"): the
+ * URL must have the same origin and the entry's path or a path under it, on a
+ * segment boundary ("/fluid/events" is covered, "/fluid-admin" is not).
+ */
+export function isAllowedWebhookUrl(url: string, allowList: readonly string[]): boolean {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return false;
+  }
+  return allowList.some((entry) => {
+    try {
+      const allowed = new URL(entry);
+      const prefix = allowed.pathname.endsWith("/") ? allowed.pathname : `${allowed.pathname}/`;
+      return target.origin === allowed.origin && (target.pathname === allowed.pathname || target.pathname.startsWith(prefix));
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Wait without keeping the process alive
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)).unref());
+}
@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FluidError } from "../src/errors";
+import { APT_DECIMALS, USDC_DECIMALS, parseDecimalAmount } from "../src/amounts";
+
+function isInvalidRequest(error: unknown): boolean {
+  return error instanceof FluidError && error.code === 'INVALID_REQUEST';
+}
+
+describe("parseDecimalAmount", () => {
+  it("converts decimal strings exactly", () => {
+    assert.equal(parseDecimalAmount("0.05", APT_DECIMALS, "recipientAptFunding"), 5_000_000n);
+    assert.equal(parseDecimalAmount("1", USDC_DECIMALS, "nativeGas"), 1_000_000n);
+    // 0.29 * 1e6 is 289999.99999999994 as a float
+    assert.equal(parseDecimalAmount("0.29", USDC_DECIMALS, "nativeGas"), 290_000n);
+  });
+
+  it("rejects anything that isn't a non-negative decimal", () => {
+    for (const value of ["abc", "", "-1", "1e3", "0x10", "1.2.3"]) {
+      assert.throws(() => parseDecimalAmount(value, USDC_DECIMALS, "nativeGas"), isInvalidRequest, value);
+    }
+  });
+
+  it("rejects more decimals than the token has", () => {
+    assert.throws(() => parseDecimalAmount("0.0000001", USDC_DECIMALS, "nativeGas"), isInvalidRequest);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { assertWitnessFee, verifyUserAuthorization } from "../src/authorization";
+import { AuthorizationError } from "../src/errors";
+import { createCctpTransferWitness, createPermit, hashPermit2Permit } from "../src/permit2";
+
+const CHAIN_ID = 84532;
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const SPONSOR = "0x2222222222222222222222222222222222222222";
+const APTOS_DOMAIN = 9;
+const RECIPIENT = "0x" + "ab".repeat(32);
+
+function rejectedWith(code: AuthorizationError["code"]) {
+  return (error: unknown) => error instanceof AuthorizationError && error.code === code;
+}
+
+describe("verifyUserAuthorization", () => {
+  const wallet = ethers.Wallet.createRandom();
+  const witness = createCctpTransferWitness(RECIPIENT, APTOS_DOMAIN, 1000n);
+  const permit = createPermit(wallet.address, SPONSOR, USDC, 1_000_000n, 0n, 3600, witness);
+  const signature = wallet.signingKey.sign(hashPermit2Permit(permit, CHAIN_ID)).serialized;
+
+  const verify = (overrides: { amount?: bigint; fromAddress?: string; recipient?: string; destinationDomain?: number } = {}) =>
+    verifyUserAuthorization(
+      overrides.fromAddress ?? wallet.address,
+      overrides.amount ?? 1_000_000n,
+      signature,
+      permit,
+      CHAIN_ID,
+      undefined,
+      undefined,
+      { recipient: overrides.recipient ?? RECIPIENT, destinationDomain: overrides.destinationDomain ?? APTOS_DOMAIN }
+    );
+
+  it("accepts a permit whose witness names the transfer's destination", async () => {
+    await verify();
+    await verify({ recipient: RECIPIENT.toUpperCase().replace("0X", "0x") });
+  });
+
+  it("rejects another recipient or destination chain with AUTH_WITNESS_MISMATCH", async () => {
+    await assert.rejects(verify({ recipient: "0x" + "cd".repeat(32) }), rejectedWith('AUTH_WITNESS_MISMATCH'));
+    await assert.rejects(verify({ recipient: "not hex" }), rejectedWith('AUTH_WITNESS_MISMATCH'));
+    await assert.rejects(verify({ destinationDomain: 6 }), rejectedWith('AUTH_WITNESS_MISMATCH'));
+  });
+
+  it("rejects another owner or amount before the witness", async () => {
+    await assert.rejects(verify({ fromAddress: SPONSOR }), rejectedWith('AUTH_OWNER_MISMATCH'));
+    await assert.rejects(verify({ amount: 2_000_000n }), rejectedWith('AUTH_AMOUNT_MISMATCH'));
+  });
+
+  it("rejects a signature of another permit", async () => {
+    const other = { ...permit, witness: createCctpTransferWitness("0x" + "cd".repeat(32), APTOS_DOMAIN, 1000n) };
+    await assert.rejects(
+      verifyUserAuthorization(wallet.address, 1_000_000n, signature, other, CHAIN_ID),
+      rejectedWith('AUTH_INVALID_SIGNATURE')
+    );
+  });
+});
+
+describe("assertWitnessFee", () => {
+  const witness = createCctpTransferWitness(RECIPIENT, APTOS_DOMAIN, 1000n);
+  const permit = createPermit(SPONSOR, SPONSOR, USDC, 1_000_000n, 0n, 3600, witness);
+
+  it("accepts a fee up to the witness's maxFee", () => {
+    assertWitnessFee(permit, 1000n);
+    assertWitnessFee({ ...permit, witness: undefined }, 5000n);
+  });
+
+  it("rejects a higher fee with AUTH_WITNESS_MISMATCH", () => {
+    assert.throws(() => assertWitnessFee(permit, 1001n), rejectedWith('AUTH_WITNESS_MISMATCH'));
+  });
+});
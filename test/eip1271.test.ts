@@ -0,0 +1,140 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import {
+  EIP1271_ABI,
+  EIP1271_MAGIC_VALUE,
+  SignatureProvider,
+  isErc6492Signature,
+  parseErc6492Signature,
+  unwrapErc6492Signature,
+  verifyTypedDataSignature,
+  wrapErc6492Signature,
+} from "../src/eip1271";
+import { createPermit, hashPermit2Permit, verifyPermit2Signature } from "../src/permit2";
+
+const CHAIN_ID = 84532;
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const SPENDER = "0x2222222222222222222222222222222222222222";
+const ACCOUNT = "0x3333333333333333333333333333333333333333";
+const FACTORY = "0x4444444444444444444444444444444444444444";
+const DIGEST = ethers.id("digest");
+
+const iface = new ethers.Interface(EIP1271_ABI);
+
+/**
+ * Provider with fixed code per address; `call` answers with `onCall`
+ */
+class MockProvider implements SignatureProvider {
+  readonly calls: Array<{ to?: string | null; data: string }> = [];
+
+  constructor(
+    private readonly code: Record<string, string> = {},
+    private readonly onCall: (tx: { to?: string | null; data: string }) => string = () => "0x"
+  ) {}
+
+  async getCode(address: string): Promise<string> {
+    return this.code[address.toLowerCase()] ?? "0x";
+  }
+
+  async call(tx: { to?: string | null; data: string }): Promise<string> {
+    this.calls.push(tx);
+    return this.onCall(tx);
+  }
+}
+
+/**
+ * Smart account at ACCOUNT that accepts `accepted` for DIGEST
+ */
+function smartAccount(accepted: string): MockProvider {
+  return new MockProvider({ [ACCOUNT.toLowerCase()]: "0x6080" }, ({ to, data }) => {
+    assert.equal(to, ACCOUNT);
+    const [digest, signature] = iface.decodeFunctionData("isValidSignature", data);
+    const valid = digest === DIGEST && signature === accepted;
+    return iface.encodeFunctionResult("isValidSignature", [valid ? EIP1271_MAGIC_VALUE : "0xffffffff"]);
+  });
+}
+
+describe("verifyTypedDataSignature", () => {
+  const wallet = ethers.Wallet.createRandom();
+
+  it("accepts an EOA signature with ecrecover, without calling the chain", async () => {
+    const provider = new MockProvider();
+    const signature = wallet.signingKey.sign(DIGEST).serialized;
+    assert.equal(await verifyTypedDataSignature(provider, wallet.address, DIGEST, signature), true);
+    assert.equal(provider.calls.length, 0);
+  });
+
+  it("rejects an EOA signature of another digest", async () => {
+    const signature = wallet.signingKey.sign(ethers.id("other")).serialized;
+    assert.equal(await verifyTypedDataSignature(new MockProvider(), wallet.address, DIGEST, signature), false);
+  });
+
+  it("asks a deployed smart account with EIP-1271", async () => {
+    const signature = "0x1234";
+    assert.equal(await verifyTypedDataSignature(smartAccount(signature), ACCOUNT, DIGEST, signature), true);
+    assert.equal(await verifyTypedDataSignature(smartAccount(signature), ACCOUNT, DIGEST, "0x5678"), false);
+  });
+
+  it("unwraps an ERC-6492 signature of a deployed account", async () => {
+    const wrapped = wrapErc6492Signature({ factory: FACTORY, factoryCalldata: "0xabcd", signature: "0x1234" });
+    assert.equal(await verifyTypedDataSignature(smartAccount("0x1234"), ACCOUNT, DIGEST, wrapped), true);
+  });
+
+  it("simulates the deployment of a counterfactual account", async () => {
+    const wrapped = wrapErc6492Signature({ factory: FACTORY, factoryCalldata: "0xabcd", signature: "0x1234" });
+    const valid = new MockProvider({}, ({ to }) => (to ? "0x" : "0x01"));
+    assert.equal(await verifyTypedDataSignature(valid, ACCOUNT, DIGEST, wrapped), true);
+    assert.equal(valid.calls[0].to, undefined);
+
+    const invalid = new MockProvider({}, () => "0x00");
+    assert.equal(await verifyTypedDataSignature(invalid, ACCOUNT, DIGEST, wrapped), false);
+  });
+
+  it("returns false when the account's call fails", async () => {
+    const failing = new MockProvider({ [ACCOUNT.toLowerCase()]: "0x6080" }, () => {
+      throw new Error("execution reverted");
+    });
+    assert.equal(await verifyTypedDataSignature(failing, ACCOUNT, DIGEST, "0x1234"), false);
+  });
+});
+
+describe("ERC-6492 signatures", () => {
+  it("round-trips through wrap and parse", () => {
+    const parts = { factory: FACTORY, factoryCalldata: "0xdeadbeef", signature: "0x" + "11".repeat(65) };
+    const wrapped = wrapErc6492Signature(parts);
+    assert.equal(isErc6492Signature(wrapped), true);
+    assert.deepEqual({ ...parseErc6492Signature(wrapped) }, parts);
+    assert.equal(unwrapErc6492Signature(wrapped), parts.signature);
+  });
+
+  it("leaves other signatures alone", () => {
+    const signature = "0x" + "11".repeat(65);
+    assert.equal(isErc6492Signature(signature), false);
+    assert.equal(unwrapErc6492Signature(signature), signature);
+    assert.throws(() => parseErc6492Signature(signature));
+  });
+});
+
+describe("verifyPermit2Signature", () => {
+  const wallet = ethers.Wallet.createRandom();
+  const permit = createPermit(wallet.address, SPENDER, USDC, 1_000_000n, 0n, 3600);
+  const signature = wallet.signingKey.sign(hashPermit2Permit(permit, CHAIN_ID)).serialized;
+
+  it("checks an EOA signature synchronously without a provider", () => {
+    assert.equal(verifyPermit2Signature(permit, signature, CHAIN_ID, wallet.address), true);
+    assert.equal(verifyPermit2Signature(permit, signature, CHAIN_ID + 1, wallet.address), false);
+  });
+
+  it("accepts a smart account's signature with a provider", async () => {
+    const accountPermit = { ...permit, owner: ACCOUNT };
+    const digest = hashPermit2Permit(accountPermit, CHAIN_ID);
+    const provider = new MockProvider({ [ACCOUNT.toLowerCase()]: "0x6080" }, ({ data }) => {
+      const [hash] = iface.decodeFunctionData("isValidSignature", data);
+      return iface.encodeFunctionResult("isValidSignature", [hash === digest ? EIP1271_MAGIC_VALUE : "0xffffffff"]);
+    });
+
+    assert.equal(verifyPermit2Signature(accountPermit, "0x1234", CHAIN_ID, ACCOUNT), false);
+    assert.equal(await verifyPermit2Signature(accountPermit, "0x1234", CHAIN_ID, ACCOUNT, undefined, provider), true);
+  });
+});
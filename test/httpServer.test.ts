@@ -0,0 +1,138 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type http from "node:http";
+
+// The server module reads the env config when it's loaded
+process.env.BASE_RPC_URL ??= "http://127.0.0.1:1";
+process.env.APTOS_RPC_URL ??= "http://127.0.0.1:1";
+process.env.BASE_SPONSOR_PRIVATE_KEY ??= "0x" + "11".repeat(32);
+process.env.APTOS_SPONSOR_PRIVATE_KEY ??= "0x" + "22".repeat(32);
+const { createTransferHandler, createTransferServer } = await import("../src/httpServer");
+const { TransferQueue } = await import("../src/jobQueue");
+
+const API_KEY = "test-key";
+const USER = "0x1111111111111111111111111111111111111111";
+const APTOS_RECIPIENT = "0x" + "ab".repeat(32);
+
+/**
+ * Start a server on a free port; returns a fetch bound to it
+ */
+async function startServer(options: Parameters<typeof createTransferServer>[0]) {
+  const server = createTransferServer(options);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const request = async (path: string, init: { method?: string; key?: string; body?: unknown } = {}) => {
+    const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method: init.method ?? "GET",
+      headers: {
+        ...(init.key && { authorization: `Bearer ${init.key}` }),
+        ...(init.body !== undefined && { "content-type": "application/json" }),
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+  return { server, request };
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+describe("createTransferHandler", () => {
+  it("requires apiKeys or an authenticate hook", () => {
+    assert.throws(() => createTransferHandler({}));
+    assert.throws(() => createTransferHandler({ apiKeys: [] }));
+  });
+});
+
+describe("HTTP API authentication", () => {
+  let server: http.Server;
+  let request: Awaited<ReturnType<typeof startServer>>["request"];
+  const queue = new TransferQueue();
+
+  before(async () => {
+    ({ server, request } = await startServer({ apiKeys: [API_KEY], queue }));
+  });
+  after(() => close(server));
+
+  it("rejects requests without a valid API key with 401", async () => {
+    for (const key of [undefined, "wrong-key"]) {
+      const response = await request("/schemas", { key });
+      assert.equal(response.status, 401);
+      assert.equal(response.body.code, "UNAUTHORIZED");
+    }
+    assert.equal((await request("/transfers", { method: "POST", body: { amount: "1" } })).status, 401);
+  });
+
+  it("serves requests with a valid API key", async () => {
+    const response = await request("/schemas", { key: API_KEY });
+    assert.equal(response.status, 200);
+    assert.ok(response.body.transferRequest);
+    assert.equal((await request("/unknown", { key: API_KEY })).status, 404);
+  });
+
+  it("rejects transfers the sponsor would fund with 403", async () => {
+    const bodies = [
+      { amount: "1", destAddress: APTOS_RECIPIENT },
+      { amount: "1", fromAddress: USER, signature: "dummy" },
+      { amount: "1", direction: "aptos-to-base" },
+      { amount: "1", fromAddress: USER, signature: "0x1234", createRecipientAccount: true },
+      { amount: "1", fromAddress: USER, signature: "0x1234", recipientAptFunding: "0.05" },
+    ];
+    for (const body of bodies) {
+      const response = await request("/transfers", { method: "POST", key: API_KEY, body });
+      assert.equal(response.status, 403, JSON.stringify(body));
+      assert.equal(response.body.code, "FORBIDDEN");
+    }
+  });
+
+  it("rejects per-request webhooks without an allow-list", async () => {
+    const response = await request("/transfers", {
+      method: "POST",
+      key: API_KEY,
+      body: {
+        amount: "1",
+        fromAddress: USER,
+        signature: "0x1234",
+        webhooks: [{ url: "https://hooks.example.com/fluid", secret: "s" }],
+      },
+    });
+    assert.equal(response.status, 403);
+  });
+
+  it("records the authenticated API key as the requester", async () => {
+    const body = { amount: "1", fromAddress: USER, signature: "0x1234", destAddress: APTOS_RECIPIENT };
+    const response = await request("/transfers", { method: "POST", key: API_KEY, body });
+    assert.equal(response.status, 202);
+    const job = await queue.get(response.body.id);
+    assert.match(job!.request.requester!, /^api-key:[0-9a-f]{16}$/);
+
+    // Clients can't claim another requester
+    const spoofed = await request("/transfers", { method: "POST", key: API_KEY, body: { ...body, requester: "other" } });
+    assert.equal(spoofed.status, 400);
+  });
+});
+
+describe("HTTP API authenticate hook", () => {
+  it("rejects a request the hook refuses and names the caller it returns", async () => {
+    const queue = new TransferQueue();
+    const { server, request } = await startServer({
+      queue,
+      authenticate: (req) => (req.headers.authorization === "Bearer alice" ? "alice" : false),
+    });
+    try {
+      assert.equal((await request("/schemas", { key: "bob" })).status, 401);
+      const response = await request("/transfers", {
+        method: "POST",
+        key: "alice",
+        body: { amount: "1", fromAddress: USER, signature: "0x1234", destAddress: APTOS_RECIPIENT },
+      });
+      assert.equal(response.status, 202);
+      assert.equal((await queue.get(response.body.id))!.request.requester, "alice");
+    } finally {
+      await close(server);
+    }
+  });
+});
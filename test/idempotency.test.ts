@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CctpTransferRequest } from "../src/cctpTransfer";
+import {
+  InMemoryIdempotencyStore,
+  claimIdempotencyKey,
+  idempotencyFingerprint,
+  idempotentResult,
+  settleIdempotencyKey,
+} from "../src/idempotency";
+import type { TransferResult } from "../src/types";
+
+const REQUEST: CctpTransferRequest = {
+  amount: "1",
+  destAddress: "0x" + "ab".repeat(32),
+  direction: "base-to-aptos",
+};
+
+describe("idempotencyFingerprint", () => {
+  it("compares amounts in smallest units", () => {
+    const fingerprint = idempotencyFingerprint(REQUEST);
+    assert.equal(idempotencyFingerprint({ ...REQUEST, amount: "1.000000" }), fingerprint);
+    assert.equal(idempotencyFingerprint({ ...REQUEST, amount: "1.0" }), fingerprint);
+    assert.notEqual(idempotencyFingerprint({ ...REQUEST, amount: "1.000001" }), fingerprint);
+  });
+
+  it("ignores the case of addresses", () => {
+    assert.equal(
+      idempotencyFingerprint({ ...REQUEST, destAddress: REQUEST.destAddress.toUpperCase().replace("0X", "0x") }),
+      idempotencyFingerprint(REQUEST)
+    );
+  });
+
+  it("tells apart requests that create or fund the recipient account differently", () => {
+    const create = { ...REQUEST, createRecipientAccount: true };
+    assert.notEqual(idempotencyFingerprint(create), idempotencyFingerprint({ ...create, createRecipientAccount: false }));
+    assert.notEqual(
+      idempotencyFingerprint({ ...create, recipientAptFunding: "0.01" }),
+      idempotencyFingerprint({ ...create, recipientAptFunding: "0.05" })
+    );
+    assert.equal(
+      idempotencyFingerprint({ ...create, recipientAptFunding: "0.05" }),
+      idempotencyFingerprint({ ...create, recipientAptFunding: "0.050" })
+    );
+  });
+});
+
+describe("settleIdempotencyKey", () => {
+  async function settle(result: Omit<TransferResult, "transferId">) {
+    const store = new InMemoryIdempotencyStore();
+    const { record } = await claimIdempotencyKey(store, "key-1", REQUEST, "t1");
+    await settleIdempotencyKey(store, record, { transferId: "t1", ...result });
+    return store.get("key-1");
+  }
+
+  it("releases the key of a retryable failure before anything was sent", async () => {
+    assert.equal(await settle({ success: false, errorCode: 'SOURCE_FAILED', retryable: true }), undefined);
+  });
+
+  it("keeps the key once the user's USDC was pulled or a burn was signed", async () => {
+    assert.equal((await settle({ success: false, permitTx: "0x01", retryable: false }))?.status, "failed");
+    assert.equal((await settle({ success: false, sourceTx: "0x02", retryable: false }))?.status, "failed");
+  });
+
+  it("keeps the key of a failure that isn't safe to retry", async () => {
+    const record = await settle({ success: false, errorCode: 'SOURCE_FAILED', failedStage: "initiated", retryable: false });
+    assert.equal(record?.status, "failed");
+    assert.equal(idempotentResult(record!, REQUEST).errorCode, 'SOURCE_FAILED');
+  });
+
+  it("answers repeats with the completed result", async () => {
+    const record = await settle({ success: true, sourceTx: "0x02" });
+    assert.equal(record?.status, "completed");
+    assert.deepEqual(idempotentResult(record!, REQUEST), { transferId: "t1", success: true, sourceTx: "0x02" });
+    assert.equal(idempotentResult(record!, { ...REQUEST, amount: "2" }).errorCode, 'IDEMPOTENCY_CONFLICT');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { NonceError } from "../src/errors";
+import { NonceManager, NonceManagerOptions } from "../src/nonceManager";
+
+const CHAIN_ID = 84532n;
+
+/**
+ * Node with fixed mined ("latest") and pending nonce counts that records broadcasts
+ */
+class MockProvider {
+  readonly broadcasts: ethers.Transaction[] = [];
+
+  constructor(public latest: number, public pending: number) {}
+
+  async getTransactionCount(_address: string, blockTag: string): Promise<number> {
+    return blockTag === "latest" ? this.latest : this.pending;
+  }
+
+  async getNetwork(): Promise<{ chainId: bigint }> {
+    return { chainId: CHAIN_ID };
+  }
+
+  async getFeeData(): Promise<Partial<ethers.FeeData>> {
+    return { maxFeePerGas: 10n, maxPriorityFeePerGas: 1n, gasPrice: null };
+  }
+
+  async getTransaction(): Promise<null> {
+    return null;
+  }
+
+  async broadcastTransaction(signed: string): Promise<void> {
+    this.broadcasts.push(ethers.Transaction.from(signed));
+  }
+}
+
+function createManager(provider: MockProvider, options: NonceManagerOptions = {}) {
+  const wallet = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider as unknown as ethers.Provider);
+  return { wallet, manager: new NonceManager(wallet, options) };
+}
+
+function transfer(wallet: ethers.Wallet, nonce: number): Promise<string> {
+  return wallet.signTransaction({
+    to: wallet.address,
+    nonce,
+    gasLimit: 21_000n,
+    chainId: CHAIN_ID,
+    type: 2,
+    maxFeePerGas: 10n,
+    maxPriorityFeePerGas: 1n,
+  });
+}
+
+describe("NonceManager", () => {
+  it("hands out nonces from the node's pending count", async () => {
+    const { manager } = createManager(new MockProvider(3, 5));
+    assert.deepEqual([await manager.reserve(), await manager.reserve(), await manager.reserve()], [5, 6, 7]);
+  });
+
+  it("reuses a released nonce, but not one that was signed or never reserved", async () => {
+    const { wallet, manager } = createManager(new MockProvider(0, 0));
+    const [first, second] = [await manager.reserve(), await manager.reserve()];
+    manager.track(await transfer(wallet, second));
+    manager.release(second);
+    manager.release(42);
+    manager.release(first);
+    assert.equal(await manager.reserve(), first);
+    assert.equal(await manager.reserve(), 2);
+  });
+
+  it("gives back the nonce of a transaction that fails to sign", async () => {
+    const { manager } = createManager(new MockProvider(0, 0));
+    const nonce = await manager.signer.getNonce();
+    await assert.rejects(manager.signer.signTransaction({ to: "not-an-address", nonce, chainId: CHAIN_ID }));
+    assert.equal(await manager.reserve(), nonce);
+  });
+
+  it("leaves pending transactions from another sender alone by default", async () => {
+    const provider = new MockProvider(5, 6);
+    const { manager } = createManager(provider, { stuckAfterMs: 0 });
+    await assert.rejects(manager.resolveStuckTransactions(), (error: unknown) => error instanceof NonceError);
+    assert.equal(provider.broadcasts.length, 0);
+  });
+
+  it("cancels stuck transactions from another sender with cancelForeignNonces", async () => {
+    const provider = new MockProvider(5, 6);
+    const { wallet, manager } = createManager(provider, { stuckAfterMs: 0, cancelForeignNonces: true });
+    const [replacement] = await manager.resolveStuckTransactions();
+    assert.equal(replacement.action, "cancel");
+    assert.equal(replacement.nonce, 5);
+    assert.equal(provider.broadcasts[0].to, wallet.address);
+    assert.equal(provider.broadcasts[0].value, 0n);
+  });
+
+  it("fills nonce gaps below a stuck transaction, skipping reserved nonces", async () => {
+    const provider = new MockProvider(5, 5);
+    const { wallet, manager } = createManager(provider, { stuckAfterMs: 0 });
+    const nonces = [await manager.reserve(), await manager.reserve(), await manager.reserve()];
+    assert.deepEqual(nonces, [5, 6, 7]);
+    manager.track(await transfer(wallet, 7));
+    manager.release(5);
+
+    const replacements = await manager.resolveStuckTransactions();
+    assert.deepEqual(replacements.map((replacement) => replacement.nonce), [5, 7]);
+    assert.deepEqual(provider.broadcasts.map((tx) => tx.nonce), [5, 7]);
+  });
+});
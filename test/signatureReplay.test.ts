@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AuthorizationError } from "../src/errors";
+import {
+  InMemorySignatureReplayStore,
+  assertPermitBatchRequester,
+  assertSignatureUnused,
+  claimPermitBatch,
+  consumeSignature,
+  releaseSignature,
+} from "../src/signatureReplay";
+
+const DIGEST = `0x${"ab".repeat(32)}`;
+const OWNER = "0x1111111111111111111111111111111111111111";
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+function inOneHour(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + 3600);
+}
+
+describe("consumeSignature", () => {
+  it("records the permit deadline as the expiry", async () => {
+    const deadline = inOneHour();
+    const record = await consumeSignature(new InMemorySignatureReplayStore(), DIGEST, "permit2", OWNER, deadline, "t1");
+    assert.equal(record.expiresAt, new Date(Number(deadline) * 1000).toISOString());
+  });
+
+  it("keeps a permit that never expires until the latest valid date", async () => {
+    const store = new InMemorySignatureReplayStore();
+    const record = await consumeSignature(store, DIGEST, "eip2612", OWNER, MAX_UINT256, "t1");
+    assert.equal(record.expiresAt, new Date(8.64e15).toISOString());
+    assert.ok(await store.get(DIGEST));
+  });
+
+  it("rejects a signature consumed by another transfer", async () => {
+    const store = new InMemorySignatureReplayStore();
+    await consumeSignature(store, DIGEST, "permit2", OWNER, MAX_UINT256, "t1");
+    await assert.rejects(
+      consumeSignature(store, DIGEST, "permit2", OWNER, MAX_UINT256, "t2"),
+      (error: unknown) => error instanceof AuthorizationError && error.code === 'SIGNATURE_REPLAYED'
+    );
+    await assert.rejects(assertSignatureUnused(store, DIGEST, "t2"));
+  });
+
+  it("lets the consuming transfer retry and release it", async () => {
+    const store = new InMemorySignatureReplayStore();
+    await consumeSignature(store, DIGEST, "permit2", OWNER, inOneHour(), "t1");
+    await assertSignatureUnused(store, DIGEST, "t1");
+    await consumeSignature(store, DIGEST, "permit2", OWNER, inOneHour(), "t1");
+
+    await releaseSignature(store, DIGEST, "t2");
+    assert.ok(await store.get(DIGEST));
+    await releaseSignature(store, DIGEST, "t1");
+    assert.equal(await store.get(DIGEST), undefined);
+  });
+});
+
+describe("claimPermitBatch", () => {
+  it("lets the requester that first drew from a batch draw again", async () => {
+    const store = new InMemorySignatureReplayStore();
+    await claimPermitBatch(store, DIGEST, OWNER, inOneHour(), "client-a", "t1");
+    await claimPermitBatch(store, DIGEST, OWNER, inOneHour(), "client-a", "t2");
+    await assertPermitBatchRequester(store, DIGEST, "client-a");
+  });
+
+  it("rejects another requester presenting the same batch", async () => {
+    const store = new InMemorySignatureReplayStore();
+    await claimPermitBatch(store, DIGEST, OWNER, inOneHour(), "client-a", "t1");
+    const replayed = (error: unknown) => error instanceof AuthorizationError && error.code === 'SIGNATURE_REPLAYED';
+    await assert.rejects(assertPermitBatchRequester(store, DIGEST, "client-b"), replayed);
+    await assert.rejects(claimPermitBatch(store, DIGEST, OWNER, inOneHour(), "client-b", "t2"), replayed);
+    await assert.rejects(claimPermitBatch(store, DIGEST, OWNER, inOneHour(), undefined, "t3"), replayed);
+  });
+
+  it("rejects a batch whose digest was consumed as a single permit", async () => {
+    const store = new InMemorySignatureReplayStore();
+    await consumeSignature(store, DIGEST, "permit2", OWNER, inOneHour(), "t1");
+    await assert.rejects(assertPermitBatchRequester(store, DIGEST, undefined));
+  });
+});
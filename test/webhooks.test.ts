@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isAllowedWebhookUrl, signWebhookPayload, verifyWebhookSignature } from "../src/webhooks";
+
+describe("isAllowedWebhookUrl", () => {
+  const allowList = ["https://hooks.example.com/fluid", "https://other.example.com/"];
+
+  it("accepts the entry's path and paths under it", () => {
+    assert.equal(isAllowedWebhookUrl("https://hooks.example.com/fluid", allowList), true);
+    assert.equal(isAllowedWebhookUrl("https://hooks.example.com/fluid/", allowList), true);
+    assert.equal(isAllowedWebhookUrl("https://hooks.example.com/fluid/events?id=1", allowList), true);
+    assert.equal(isAllowedWebhookUrl("https://other.example.com/anything", allowList), true);
+  });
+
+  it("only matches paths on a segment boundary", () => {
+    assert.equal(isAllowedWebhookUrl("https://hooks.example.com/fluid-admin", allowList), false);
+    assert.equal(isAllowedWebhookUrl("https://hooks.example.com/fluidx/events", allowList), false);
+    assert.equal(isAllowedWebhookUrl("https://hooks.example.com/fluid/../admin", allowList), false);
+  });
+
+  it("rejects other origins and invalid URLs", () => {
+    assert.equal(isAllowedWebhookUrl("http://hooks.example.com/fluid", allowList), false);
+    assert.equal(isAllowedWebhookUrl("https://hooks.example.com:8443/fluid", allowList), false);
+    assert.equal(isAllowedWebhookUrl("https://hooks.example.com.evil.test/fluid", allowList), false);
+    assert.equal(isAllowedWebhookUrl("not a url", allowList), false);
+    assert.equal(isAllowedWebhookUrl("https://hooks.example.com/fluid", []), false);
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  const body = JSON.stringify({ type: "transfer.completed" });
+
+  it("accepts a body signed with the secret", () => {
+    assert.equal(verifyWebhookSignature("secret", body, signWebhookPayload("secret", body)), true);
+  });
+
+  it("rejects another secret, a changed body or an old signature", () => {
+    assert.equal(verifyWebhookSignature("other", body, signWebhookPayload("secret", body)), false);
+    assert.equal(verifyWebhookSignature("secret", `${body} `, signWebhookPayload("secret", body)), false);
+    const old = signWebhookPayload("secret", body, Math.floor(Date.now() / 1000) - 3600);
+    assert.equal(verifyWebhookSignature("secret", body, old, 300), false);
+  });
+});